@@ -6,15 +6,23 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { useQuery } from "@tanstack/react-query";
-import { AuthUser, setAuthUser, clearAuth } from "./lib/auth";
+import { TwoFactorStatus, AdminPermission } from "@shared/schema";
+import { AuthUser, setAuthUser, clearAuth, hasPermission } from "./lib/auth";
 import { useAuthStore } from "./hooks/use-auth";
 import LoginPage from "@/pages/login";
+import ChangePasswordPage from "@/pages/change-password";
+import TwoFactorSetupPage from "@/pages/two-factor-setup";
 import AdminDashboard from "@/pages/admin-dashboard";
 import ClientDashboard from "@/pages/client-dashboard";
 import AddClient from "@/pages/add-client";
 import Payment from "@/pages/payment";
 import ManageUsers from "@/pages/manage-users";
 import Plans from "@/pages/plans";
+import Coupons from "@/pages/coupons";
+import Deposits from "@/pages/deposits";
+import Withdrawals from "@/pages/withdrawals";
+import Settings from "@/pages/settings";
+import AdminUsers from "@/pages/admin-users";
 import NotFound from "@/pages/not-found";
 
 function AuthWrapper({ children }: { children: React.ReactNode }) {
@@ -58,22 +66,51 @@ function AuthWrapper({ children }: { children: React.ReactNode }) {
 function Router() {
   const { user, isAuthenticated } = useAuthStore();
 
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+    enabled: isAuthenticated && user?.role === 'admin' && !user.mustChangePassword,
+  });
+
   if (!isAuthenticated || !user) {
     return <LoginPage />;
   }
 
+  // The server refuses everything else until a password set by someone else is replaced
+  if (user.mustChangePassword) {
+    return <ChangePasswordPage />;
+  }
+
+  // Likewise for admins who have not enrolled while two-factor is mandatory
+  if (user.role === 'admin' && twoFactor?.required && !twoFactor.enabled) {
+    return <TwoFactorSetupPage />;
+  }
+
+  // Admin pages the role cannot use are not found, as for clients
+  const can = (permission: AdminPermission) => hasPermission(user, permission);
+
   return (
     <Switch>
-      <Route path="/admin/add-client" component={() => user.role === 'admin' ? <AddClient /> : <NotFound />} />
-      <Route path="/admin/payment" component={() => user.role === 'admin' ? <Payment /> : <NotFound />} />
-      <Route path="/admin/users" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/users/binary-tree" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/users/reports" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/users/overview" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/users/referrals" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/users/earnings" component={() => user.role === 'admin' ? <ManageUsers /> : <NotFound />} />
-      <Route path="/admin/plans" component={() => user.role === 'admin' ? <Plans /> : <NotFound />} />
-      <Route path="/admin" component={() => user.role === 'admin' ? <AdminDashboard /> : <NotFound />} />
+      <Route path="/admin/add-client" component={() => can('clients.manage') ? <AddClient /> : <NotFound />} />
+      <Route path="/admin/payment/upgrade/:id" component={() => can('clients.view') ? <Payment /> : <NotFound />} />
+      <Route path="/admin/payment/renewal/:id" component={() => can('clients.view') ? <Payment /> : <NotFound />} />
+      <Route path="/admin/payment/:id" component={() => can('clients.view') ? <Payment /> : <NotFound />} />
+      <Route path="/admin/users" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/users/binary-tree" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/users/reports" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/users/overview" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/users/referrals" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/users/earnings" component={() => can('clients.view') ? <ManageUsers /> : <NotFound />} />
+      <Route path="/admin/plans" component={() => can('plans.view') ? <Plans /> : <NotFound />} />
+      <Route path="/admin/coupons" component={() => can('plans.view') ? <Coupons /> : <NotFound />} />
+      <Route path="/admin/deposits/pending" component={() => can('finance.view') ? <Deposits /> : <NotFound />} />
+      <Route path="/admin/deposits/approved" component={() => can('finance.view') ? <Deposits /> : <NotFound />} />
+      <Route path="/admin/deposits" component={() => can('finance.view') ? <Deposits /> : <NotFound />} />
+      <Route path="/admin/withdrawals/pending" component={() => can('finance.view') ? <Withdrawals /> : <NotFound />} />
+      <Route path="/admin/withdrawals/approved" component={() => can('finance.view') ? <Withdrawals /> : <NotFound />} />
+      <Route path="/admin/withdrawals" component={() => can('finance.view') ? <Withdrawals /> : <NotFound />} />
+      <Route path="/admin/admins" component={() => can('admins.manage') ? <AdminUsers /> : <NotFound />} />
+      <Route path="/admin/settings" component={() => user.role === 'admin' ? <Settings /> : <NotFound />} />
+      <Route path="/admin" component={() => can('dashboard.view') ? <AdminDashboard /> : <NotFound />} />
       <Route path="/client" component={() => user.role === 'client' ? <ClientDashboard /> : <NotFound />} />
       <Route path="/" component={() => user.role === 'admin' ? <AdminDashboard /> : <ClientDashboard />} />
       <Route component={NotFound} />
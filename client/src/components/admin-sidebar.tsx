@@ -19,10 +19,15 @@ import {
   BarChart3,
   TrendingUp,
   Share2,
-  DollarSign
+  DollarSign,
+  TicketPercent,
+  ShieldCheck
 } from "lucide-react";
+import { AdminPermission } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuthStore } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/auth";
 import logoPath from "@assets/logo_1755178929997.png";
 
 interface MenuItem {
@@ -30,6 +35,7 @@ interface MenuItem {
   label: string;
   icon: React.ReactNode;
   href?: string;
+  permission?: AdminPermission; // Hidden from admins whose role lacks it
   subItems?: MenuItem[];
 }
 
@@ -38,30 +44,42 @@ const menuItems: MenuItem[] = [
     id: "dashboard",
     label: "Dashboard",
     icon: <Home className="h-5 w-5" />,
-    href: "/admin"
+    href: "/admin",
+    permission: "dashboard.view"
   },
   {
     id: "plans",
     label: "Plans",
     icon: <Send className="h-5 w-5" />,
-    href: "/admin/plans"
+    href: "/admin/plans",
+    permission: "plans.view"
+  },
+  {
+    id: "coupons",
+    label: "Coupons",
+    icon: <TicketPercent className="h-5 w-5" />,
+    href: "/admin/coupons",
+    permission: "plans.view"
   },
   {
     id: "ranking",
     label: "User Ranking",
     icon: <Medal className="h-5 w-5" />,
-    href: "/admin/ranking"
+    href: "/admin/ranking",
+    permission: "clients.view"
   },
   {
     id: "add-client",
     label: "Add New Client",
     icon: <UserPlus className="h-5 w-5" />,
-    href: "/admin/add-client"
+    href: "/admin/add-client",
+    permission: "clients.manage"
   },
   {
     id: "users",
     label: "Manage Users",
     icon: <Users className="h-5 w-5" />,
+    permission: "clients.view",
     subItems: [
       { id: "all-users", label: "All Users", icon: <Users className="h-4 w-4" />, href: "/admin/users" },
       { id: "binary-tree", label: "Binary Tree", icon: <GitBranch className="h-4 w-4" />, href: "/admin/users/binary-tree" },
@@ -75,6 +93,7 @@ const menuItems: MenuItem[] = [
     id: "deposits",
     label: "Deposits",
     icon: <FileText className="h-5 w-5" />,
+    permission: "finance.view",
     subItems: [
       { id: "all-deposits", label: "All Deposits", icon: <FileText className="h-4 w-4" />, href: "/admin/deposits" },
       { id: "pending-deposits", label: "Pending", icon: <FileText className="h-4 w-4" />, href: "/admin/deposits/pending" },
@@ -85,6 +104,7 @@ const menuItems: MenuItem[] = [
     id: "withdrawals",
     label: "Withdrawals",
     icon: <Building2 className="h-5 w-5" />,
+    permission: "finance.view",
     subItems: [
       { id: "all-withdrawals", label: "All Withdrawals", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals" },
       { id: "pending-withdrawals", label: "Pending", icon: <Building2 className="h-4 w-4" />, href: "/admin/withdrawals/pending" },
@@ -106,11 +126,18 @@ const menuItems: MenuItem[] = [
     label: "Report",
     icon: <Clipboard className="h-5 w-5" />,
     subItems: [
-      { id: "financial-reports", label: "Financial Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/financial" },
-      { id: "user-reports", label: "User Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/users" },
-      { id: "activity-reports", label: "Activity Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/activity" }
+      { id: "financial-reports", label: "Financial Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/financial", permission: "finance.view" },
+      { id: "user-reports", label: "User Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/users", permission: "clients.view" },
+      { id: "activity-reports", label: "Activity Reports", icon: <Clipboard className="h-4 w-4" />, href: "/admin/reports/activity", permission: "dashboard.view" }
     ]
   },
+  {
+    id: "admin-users",
+    label: "Admin Users",
+    icon: <ShieldCheck className="h-5 w-5" />,
+    href: "/admin/admins",
+    permission: "admins.manage"
+  },
   {
     id: "settings",
     label: "Settings",
@@ -125,6 +152,7 @@ interface AdminSidebarProps {
 
 export function AdminSidebar({ className = "" }: AdminSidebarProps) {
   const [location] = useLocation();
+  const { user } = useAuthStore();
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
@@ -146,6 +174,12 @@ export function AdminSidebar({ className = "" }: AdminSidebarProps) {
     return location.startsWith(href);
   };
 
+  // Sections whose items are all hidden are dropped too
+  const visibleItems = (items: MenuItem[]): MenuItem[] => items
+    .filter(item => !item.permission || hasPermission(user, item.permission))
+    .map(item => item.subItems ? { ...item, subItems: visibleItems(item.subItems) } : item)
+    .filter(item => !item.subItems || item.subItems.length > 0);
+
   const renderMenuItem = (item: MenuItem, level: number = 0) => {
     const hasSubItems = item.subItems && item.subItems.length > 0;
     const isExpanded = expandedItems.has(item.id);
@@ -304,7 +338,7 @@ export function AdminSidebar({ className = "" }: AdminSidebarProps) {
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 overflow-y-auto min-h-0">
           <div className="space-y-2">
-            {menuItems.map((item) => renderMenuItem(item))}
+            {visibleItems(menuItems).map((item) => renderMenuItem(item))}
           </div>
         </nav>
 
@@ -125,7 +125,7 @@ export function BinaryTreeView({ users, currentUser, isAdmin }: BinaryTreeViewPr
             </div>
             
             <div className="flex items-center space-x-2">
-              <PackageBadge package={node.user.package || "Silver"} />
+              <PackageBadge package={node.user.package} />
               <Badge variant="outline" className="text-xs">
                 {node.children.length} downline
               </Badge>
@@ -234,7 +234,7 @@ export function BinaryTreeView({ users, currentUser, isAdmin }: BinaryTreeViewPr
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <PackageBadge package={currentUser.package || "Silver"} />
+                      <PackageBadge package={currentUser.package} />
                       <Badge variant="outline">
                         {userDownlineTree.length} direct downline
                       </Badge>
@@ -280,7 +280,7 @@ export function BinaryTreeView({ users, currentUser, isAdmin }: BinaryTreeViewPr
                     )}
                   </div>
                   <p className="text-muted-foreground">@{selectedUser.username}</p>
-                  <PackageBadge package={selectedUser.package || "Silver"} />
+                  <PackageBadge package={selectedUser.package} />
                 </div>
               </div>
 
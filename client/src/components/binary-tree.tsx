@@ -58,7 +58,7 @@ export function BinaryTree({ user, leftChild, rightChild, onAddClient, showAddBu
               </div>
               <div className="font-medium text-slate-900">{leftChild.username}</div>
               <div className="mb-2">
-                <PackageBadge package={leftChild.package || "Silver"} size="sm" />
+                <PackageBadge package={leftChild.package} size="sm" />
               </div>
               <div className="text-xs text-slate-500">ID: {leftChild.id.slice(0, 8)}</div>
             </div>
@@ -92,7 +92,7 @@ export function BinaryTree({ user, leftChild, rightChild, onAddClient, showAddBu
               </div>
               <div className="font-medium text-slate-900">{rightChild.username}</div>
               <div className="mb-2">
-                <PackageBadge package={rightChild.package || "Silver"} size="sm" />
+                <PackageBadge package={rightChild.package} size="sm" />
               </div>
               <div className="text-xs text-slate-500">ID: {rightChild.id.slice(0, 8)}</div>
             </div>
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { changePasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthUser, setAuthUser } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { KeyRound } from "lucide-react";
+
+const changePasswordFormSchema = changePasswordSchema.extend({
+  confirmPassword: z.string().min(1, "Please confirm the new password"),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  path: ["confirmPassword"],
+  message: "Passwords do not match",
+});
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordFormSchema>;
+
+interface ChangePasswordFormProps {
+  onChanged?: () => void;
+}
+
+export function ChangePasswordForm({ onChanged }: ChangePasswordFormProps) {
+  const { toast } = useToast();
+  const { setUser } = useAuthStore();
+
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+      const response = await apiRequest("POST", "/api/auth/change-password", { currentPassword, newPassword });
+      return await response.json() as AuthUser;
+    },
+    onSuccess: (user) => {
+      // Clears mustChangePassword, which lets the router show the dashboards again
+      setAuthUser(user);
+      setUser(user);
+      form.reset();
+      toast({ title: "Password changed" });
+      onChanged?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to change password",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => changeMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} data-testid="input-current-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-new-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-confirm-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={changeMutation.isPending} data-testid="button-change-password">
+          {changeMutation.isPending ? "Changing..." : "Change Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export function ChangePasswordDialog() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} data-testid="button-open-change-password">
+        <KeyRound className="h-4 w-4 mr-1" />
+        Password
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+            <DialogDescription>Enter your current password and choose a new one.</DialogDescription>
+          </DialogHeader>
+          <ChangePasswordForm onChanged={() => setOpen(false)} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+
+interface DepositStatusBadgeProps {
+  status: string;
+}
+
+export function DepositStatusBadge({ status }: DepositStatusBadgeProps) {
+  const getStatusClassName = (depositStatus: string) => {
+    switch (depositStatus) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800 hover:bg-yellow-200";
+      case "approved":
+        return "bg-green-100 text-green-800 hover:bg-green-200";
+      case "rejected":
+        return "bg-red-100 text-red-800 hover:bg-red-200";
+      default:
+        return "bg-slate-100 text-slate-800 hover:bg-slate-200";
+    }
+  };
+
+  return (
+    <Badge variant="secondary" className={`capitalize ${getStatusClassName(status)}`} data-testid={`badge-deposit-${status}`}>
+      {status}
+    </Badge>
+  );
+}
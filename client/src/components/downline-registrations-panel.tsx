@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { ClientRegistration, UpiPaymentRequest } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DepositStatusBadge } from "@/components/deposit-status-badge";
+import { formatAmount } from "@/lib/utils";
+import { Clock } from "lucide-react";
+
+interface DownlineRegistrationsPanelProps {
+  registrations: ClientRegistration[];
+}
+
+// A member joins once their payment is confirmed; until then the sponsor pays by scanning the QR code
+function PendingRegistration({ registration }: { registration: ClientRegistration }) {
+  const { client } = registration;
+
+  const { data: upiRequest } = useQuery<UpiPaymentRequest>({
+    queryKey: ['/api/registrations', client.id, 'upi'],
+    enabled: registration.currency === 'INR' && !registration.deposit,
+    staleTime: Infinity,
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3" data-testid={`card-pending-registration-${client.id}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          {client.name || client.username} <span className="text-sm text-muted-foreground capitalize">({client.position}, {client.package})</span>
+        </span>
+        <span className="text-lg font-bold text-primary">{formatAmount(registration.amount, registration.currency)}</span>
+      </div>
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>Reference <span className="font-mono">{client.paymentReference}</span></span>
+        {registration.deposit ? <DepositStatusBadge status={registration.deposit.status} /> : <Badge variant="outline">Awaiting payment</Badge>}
+      </div>
+      {upiRequest && (
+        <div className="text-center space-y-2">
+          <img src={upiRequest.qrCode} alt="UPI QR code for the registration payment" className="mx-auto w-40 h-40" data-testid={`img-registration-qr-code-${client.id}`} />
+          <p className="text-xs text-muted-foreground">
+            Pay to {upiRequest.payeeVpa}. {client.username} joins your downline once the payment is confirmed.
+          </p>
+          <a href={upiRequest.uri} className="text-xs text-primary underline inline-block lg:hidden">
+            Open in UPI app
+          </a>
+        </div>
+      )}
+      {registration.expiresAt && (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <Clock className="h-3 w-3 mr-1" />
+          The position is released if unpaid by {new Date(registration.expiresAt).toLocaleString('en-IN')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function DownlineRegistrationsPanel({ registrations }: DownlineRegistrationsPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Awaiting Payment</CardTitle>
+        <CardDescription>Members you registered who join your downline once their payment is confirmed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {registrations.map(registration => (
+          <PendingRegistration key={registration.client.id} registration={registration} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { ForgotPasswordRequest, forgotPasswordRequestSchema, otpPasswordResetSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { OtpCodeInput } from "@/components/otp-code-input";
+
+const resetFormSchema = otpPasswordResetSchema.extend({
+  confirmPassword: z.string().min(1, "Please confirm the new password"),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  path: ["confirmPassword"],
+  message: "Passwords do not match",
+});
+
+type ResetFormValues = z.infer<typeof resetFormSchema>;
+
+interface ForgotPasswordFormProps {
+  onDone: () => void;
+}
+
+// Two steps: request a code for the username, then enter it with the new password
+export function ForgotPasswordForm({ onDone }: ForgotPasswordFormProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState<string | null>(null);
+
+  const requestForm = useForm<ForgotPasswordRequest>({
+    resolver: zodResolver(forgotPasswordRequestSchema),
+    defaultValues: { username: "" },
+  });
+
+  const resetForm = useForm<ResetFormValues>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { username: "", code: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordRequest) => {
+      const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result, data) => {
+      setUsername(data.username);
+      resetForm.setValue("username", data.username);
+      toast({ title: "Check your messages", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to send code",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ username, code, newPassword }: ResetFormValues) => {
+      const response = await apiRequest("POST", "/api/auth/reset-password", { username, code, newPassword });
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Password changed", description: result.message });
+      onDone();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to reset password",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!username) {
+    return (
+      <Form {...requestForm}>
+        <form onSubmit={requestForm.handleSubmit(data => requestMutation.mutate(data))} className="space-y-6">
+          <FormField
+            control={requestForm.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter your username" {...field} data-testid="input-forgot-username" />
+                </FormControl>
+                <FormDescription>We will send a code to the mobile number or email on your account.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={requestMutation.isPending} data-testid="button-send-reset-code">
+            {requestMutation.isPending ? "Sending..." : "Send Code"}
+          </Button>
+          <Button type="button" variant="ghost" className="w-full" onClick={onDone} data-testid="button-back-to-login">
+            Back to Sign In
+          </Button>
+        </form>
+      </Form>
+    );
+  }
+
+  return (
+    <Form {...resetForm}>
+      <form onSubmit={resetForm.handleSubmit(data => resetMutation.mutate(data))} className="space-y-6">
+        <FormField
+          control={resetForm.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Code</FormLabel>
+              <FormControl>
+                <OtpCodeInput value={field.value} onChange={field.onChange} data-testid="input-reset-code" />
+              </FormControl>
+              <FormDescription>Sent to the mobile number or email on @{username}'s account.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={resetForm.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-reset-new-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={resetForm.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-reset-confirm-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+          {resetMutation.isPending ? "Resetting..." : "Reset Password"}
+        </Button>
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => requestMutation.mutate({ username })}
+            disabled={requestMutation.isPending}
+            data-testid="button-resend-reset-code"
+          >
+            Resend Code
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Back to Sign In
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { OtpIssued, User, otpLength } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { setAuthUser } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { OtpCodeInput } from "@/components/otp-code-input";
+import { ShieldCheck } from "lucide-react";
+
+interface MobileVerificationPanelProps {
+  // Set when an admin verifies a client's number; members verify their own
+  clientId?: string;
+  mobile: string | null;
+  verifiedAt: Date | string | null;
+}
+
+export function MobileVerificationPanel({ clientId, mobile, verifiedAt }: MobileVerificationPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { setUser } = useAuthStore();
+  const [issued, setIssued] = useState<OtpIssued | null>(null);
+  const [code, setCode] = useState("");
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/mobile-verification', { clientId });
+      return await response.json() as OtpIssued;
+    },
+    onSuccess: (result) => {
+      setIssued(result);
+      setCode("");
+      toast({ title: "Code sent", description: `Sent by SMS to ${result.destination}.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to send code",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/mobile-verification/verify', { clientId, code });
+      return await response.json() as Omit<User, "password">;
+    },
+    onSuccess: (user) => {
+      if (!clientId) {
+        setAuthUser(user);
+        setUser(user);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      setIssued(null);
+      toast({ title: "Mobile number verified" });
+    },
+    onError: (error: any) => {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!mobile) {
+    return null;
+  }
+
+  if (verifiedAt) {
+    return (
+      <div className="flex items-center text-sm text-green-600" data-testid="text-mobile-verified">
+        <ShieldCheck className="h-4 w-4 mr-1" />
+        Mobile number verified
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="section-mobile-verification">
+      <div className="flex items-center justify-between">
+        <Badge variant="outline">Mobile not verified</Badge>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => sendMutation.mutate()}
+          disabled={sendMutation.isPending}
+          data-testid="button-send-mobile-code"
+        >
+          {sendMutation.isPending ? "Sending..." : issued ? "Resend Code" : "Send Code"}
+        </Button>
+      </div>
+      {issued && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Enter the code sent to {issued.destination}. It expires at {new Date(issued.expiresAt).toLocaleTimeString('en-IN')}.
+          </p>
+          <div className="flex items-center space-x-2">
+            <OtpCodeInput value={code} onChange={setCode} disabled={verifyMutation.isPending} data-testid="input-mobile-code" />
+            <Button
+              size="sm"
+              onClick={() => verifyMutation.mutate()}
+              disabled={verifyMutation.isPending || code.length !== otpLength}
+              data-testid="button-verify-mobile"
+            >
+              Verify
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
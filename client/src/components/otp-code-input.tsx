@@ -0,0 +1,30 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { otpLength } from "@shared/schema";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  "data-testid"?: string;
+}
+
+// One slot per digit of the codes sent by SMS or email
+export function OtpCodeInput({ value, onChange, disabled, "data-testid": testId }: OtpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={otpLength}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+      data-testid={testId}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: otpLength }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -1,38 +1,64 @@
 import { Badge } from "@/components/ui/badge";
-import { Award, Medal, Gem } from "lucide-react";
+import { Award, Medal, Gem, Star, Crown, type LucideIcon } from "lucide-react";
 
 interface PackageBadgeProps {
-  package: string;
+  package: string | null;
   size?: "sm" | "default" | "lg";
 }
 
+interface PackageStyle {
+  icon: LucideIcon;
+  className: string;
+  iconClassName: string;
+}
+
+const namedStyles: Record<string, PackageStyle> = {
+  Silver: {
+    icon: Award,
+    className: "bg-slate-100 text-slate-800 hover:bg-slate-200",
+    iconClassName: "text-slate-600",
+  },
+  Gold: {
+    icon: Medal,
+    className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
+    iconClassName: "text-yellow-600",
+  },
+  Diamond: {
+    icon: Gem,
+    className: "bg-blue-100 text-blue-800 hover:bg-blue-200",
+    iconClassName: "text-purple-600",
+  },
+};
+
+// Styles for plans created later, picked by name so a plan always looks the same
+const fallbackStyles: PackageStyle[] = [
+  { icon: Star, className: "bg-green-100 text-green-800 hover:bg-green-200", iconClassName: "text-green-600" },
+  { icon: Crown, className: "bg-orange-100 text-orange-800 hover:bg-orange-200", iconClassName: "text-orange-600" },
+  { icon: Award, className: "bg-pink-100 text-pink-800 hover:bg-pink-200", iconClassName: "text-pink-600" },
+  { icon: Gem, className: "bg-teal-100 text-teal-800 hover:bg-teal-200", iconClassName: "text-teal-600" },
+];
+
+export function getPackageStyle(packageName: string): PackageStyle {
+  if (namedStyles[packageName]) {
+    return namedStyles[packageName];
+  }
+  let hash = 0;
+  for (const char of packageName) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return fallbackStyles[hash % fallbackStyles.length];
+}
+
 export function PackageBadge({ package: pkg, size = "default" }: PackageBadgeProps) {
-  const getPackageConfig = (packageName: string) => {
-    switch (packageName) {
-      case "Silver":
-        return {
-          icon: Award,
-          className: "bg-slate-100 text-slate-800 hover:bg-slate-200",
-        };
-      case "Gold":
-        return {
-          icon: Medal,
-          className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
-        };
-      case "Diamond":
-        return {
-          icon: Gem,
-          className: "bg-blue-100 text-blue-800 hover:bg-blue-200",
-        };
-      default:
-        return {
-          icon: Award,
-          className: "bg-slate-100 text-slate-800 hover:bg-slate-200",
-        };
-    }
-  };
-
-  const { icon: Icon, className } = getPackageConfig(pkg);
+  if (!pkg) {
+    return (
+      <Badge variant="outline" data-testid="badge-package-none">
+        No plan
+      </Badge>
+    );
+  }
+
+  const { icon: Icon, className } = getPackageStyle(pkg);
 
   return (
     <Badge variant="secondary" className={className} data-testid={`badge-package-${pkg.toLowerCase()}`}>
@@ -0,0 +1,173 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { PlanRenewalDetails, MembershipStatus, UpiPaymentRequest } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DepositStatusBadge } from "@/components/deposit-status-badge";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock } from "lucide-react";
+
+interface PlanRenewalPanelProps {
+  // Set when an admin manages another client's plan; members see their own
+  clientId?: string;
+  onRequested?: (renewal: PlanRenewalDetails) => void;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await apiRequest('GET', url);
+  return await response.json() as T;
+}
+
+export function describeExpiry(status: Pick<MembershipStatus, "status" | "planExpiresAt" | "daysLeft">): string {
+  if (!status.planExpiresAt) return "Lifetime plan";
+  const date = new Date(status.planExpiresAt).toLocaleDateString('en-IN');
+  if (status.status === 'expired' || (status.daysLeft ?? 0) <= 0) return `Expired on ${date}`;
+  return `Expires on ${date} (${status.daysLeft} day${status.daysLeft === 1 ? '' : 's'} left)`;
+}
+
+// Renders nothing for plans without a validity period
+export function PlanRenewalPanel({ clientId, onRequested }: PlanRenewalPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = !!clientId;
+  const clientQuery = clientId ? `?clientId=${encodeURIComponent(clientId)}` : "";
+
+  const { data: status } = useQuery<MembershipStatus>({
+    queryKey: ['/api/renewals/status', { clientId }],
+    queryFn: () => fetchJson(`/api/renewals/status${clientQuery}`),
+  });
+
+  const { data: renewals = [] } = useQuery<PlanRenewalDetails[]>({
+    queryKey: ['/api/renewals', { clientId }],
+    queryFn: () => fetchJson(`/api/renewals${clientQuery}`),
+    refetchInterval: (query) => query.state.data?.some(renewal => renewal.status === 'pending_payment') ? 10000 : false,
+  });
+
+  const pending = renewals.find(renewal => renewal.status === 'pending_payment');
+
+  // Members pay the renewal themselves by scanning the QR code
+  const { data: upiRequest } = useQuery<UpiPaymentRequest>({
+    queryKey: ['/api/renewals', pending?.id, 'upi'],
+    enabled: !isAdmin && !!pending,
+    staleTime: Infinity,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/renewals'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/renewals/status'] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/renewals', { clientId });
+      return await response.json() as PlanRenewalDetails;
+    },
+    onSuccess: (renewal) => {
+      invalidate();
+      toast({
+        title: "Renewal requested",
+        description: `Pay ${formatAmount(renewal.amount, renewal.currency)} to renew ${renewal.planName}.`,
+      });
+      onRequested?.(renewal);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Renewal request failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/renewals/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Renewal cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel renewal",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!status || (!status.renewable && !pending)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2" />
+          Plan Renewal
+        </CardTitle>
+        <CardDescription>{describeExpiry(status)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.status === 'expired' && (
+          <p className="text-sm text-destructive" data-testid="text-plan-expired">
+            The plan has lapsed and no commissions are earned until it is renewed.
+          </p>
+        )}
+        {pending ? (
+          <div className="rounded-lg border p-4 space-y-3" data-testid="card-pending-renewal">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{pending.planName} renewal</span>
+              <span className="text-lg font-bold text-primary">{formatAmount(pending.amount, pending.currency)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>Reference <span className="font-mono">{pending.paymentReference}</span></span>
+              {pending.deposit ? <DepositStatusBadge status={pending.deposit.status} /> : <Badge variant="outline">Awaiting payment</Badge>}
+            </div>
+            {!isAdmin && upiRequest && (
+              <div className="text-center space-y-2">
+                <img src={upiRequest.qrCode} alt="UPI QR code for the renewal payment" className="mx-auto w-40 h-40" data-testid="img-renewal-qr-code" />
+                <p className="text-xs text-muted-foreground">
+                  Pay to {upiRequest.payeeVpa}. Your plan is extended once the payment is confirmed.
+                </p>
+                <a href={upiRequest.uri} className="text-xs text-primary underline inline-block lg:hidden">
+                  Open in UPI app
+                </a>
+              </div>
+            )}
+            <div className="flex space-x-2">
+              {isAdmin && (
+                <Button asChild className="flex-1" data-testid="button-renewal-payment">
+                  <Link href={`/admin/payment/renewal/${pending.id}`}>Go to Payment</Link>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => cancelMutation.mutate(pending.id)}
+                disabled={cancelMutation.isPending || pending.deposit?.status === 'pending'}
+                data-testid="button-cancel-renewal"
+              >
+                Cancel Renewal
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            className="w-full"
+            variant={status.expiringSoon ? "default" : "outline"}
+            onClick={() => requestMutation.mutate()}
+            disabled={requestMutation.isPending}
+            data-testid="button-request-renewal"
+          >
+            {requestMutation.isPending ? "Requesting..." : "Renew Plan"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
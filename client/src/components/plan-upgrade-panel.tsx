@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { PlanUpgradeDetails, UpgradeOption, UpiPaymentRequest } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DepositStatusBadge } from "@/components/deposit-status-badge";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowUpCircle, History } from "lucide-react";
+
+interface PlanUpgradePanelProps {
+  // Set when an admin manages another client's plan; members see their own
+  clientId?: string;
+  onRequested?: (upgrade: PlanUpgradeDetails) => void;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await apiRequest('GET', url);
+  return await response.json() as T;
+}
+
+export function PlanUpgradePanel({ clientId, onRequested }: PlanUpgradePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [toPlanId, setToPlanId] = useState("");
+  const isAdmin = !!clientId;
+  const clientQuery = clientId ? `?clientId=${encodeURIComponent(clientId)}` : "";
+
+  const { data: upgrades = [] } = useQuery<PlanUpgradeDetails[]>({
+    queryKey: ['/api/upgrades', { clientId }],
+    queryFn: () => fetchJson(`/api/upgrades${clientQuery}`),
+    refetchInterval: (query) => query.state.data?.some(upgrade => upgrade.status === 'pending_payment') ? 10000 : false,
+  });
+
+  const { data: options = [] } = useQuery<UpgradeOption[]>({
+    queryKey: ['/api/upgrades/options', { clientId }],
+    queryFn: () => fetchJson(`/api/upgrades/options${clientQuery}`),
+  });
+
+  const pending = upgrades.find(upgrade => upgrade.status === 'pending_payment');
+  const history = upgrades.filter(upgrade => upgrade.status === 'completed');
+
+  // Members pay the difference themselves by scanning the QR code
+  const { data: upiRequest } = useQuery<UpiPaymentRequest>({
+    queryKey: ['/api/upgrades', pending?.id, 'upi'],
+    enabled: !isAdmin && !!pending,
+    staleTime: Infinity,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/upgrades'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/upgrades/options'] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/upgrades', { clientId, toPlanId });
+      return await response.json() as PlanUpgradeDetails;
+    },
+    onSuccess: (upgrade) => {
+      invalidate();
+      setToPlanId("");
+      toast({
+        title: "Upgrade requested",
+        description: `Pay ${formatAmount(upgrade.amount, upgrade.currency)} to move to ${upgrade.toPlanName}.`,
+      });
+      onRequested?.(upgrade);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Upgrade request failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/upgrades/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Upgrade cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel upgrade",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const selectedOption = options.find(option => option.planId === toPlanId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ArrowUpCircle className="h-5 w-5 mr-2" />
+          Plan Upgrade
+        </CardTitle>
+        <CardDescription>Move to a higher plan by paying only the price difference</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending ? (
+          <div className="rounded-lg border p-4 space-y-3" data-testid="card-pending-upgrade">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{pending.fromPlanName} → {pending.toPlanName}</span>
+              <span className="text-lg font-bold text-primary">{formatAmount(pending.amount, pending.currency)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>Reference <span className="font-mono">{pending.paymentReference}</span></span>
+              {pending.deposit ? <DepositStatusBadge status={pending.deposit.status} /> : <Badge variant="outline">Awaiting payment</Badge>}
+            </div>
+            {!isAdmin && upiRequest && (
+              <div className="text-center space-y-2">
+                <img src={upiRequest.qrCode} alt="UPI QR code for the upgrade payment" className="mx-auto w-40 h-40" data-testid="img-upgrade-qr-code" />
+                <p className="text-xs text-muted-foreground">
+                  Pay to {upiRequest.payeeVpa}. Your plan changes once the payment is confirmed.
+                </p>
+                <a href={upiRequest.uri} className="text-xs text-primary underline inline-block lg:hidden">
+                  Open in UPI app
+                </a>
+              </div>
+            )}
+            <div className="flex space-x-2">
+              {isAdmin && (
+                <Button asChild className="flex-1" data-testid="button-upgrade-payment">
+                  <Link href={`/admin/payment/upgrade/${pending.id}`}>Go to Payment</Link>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => cancelMutation.mutate(pending.id)}
+                disabled={cancelMutation.isPending || pending.deposit?.status === 'pending'}
+                data-testid="button-cancel-upgrade"
+              >
+                Cancel Upgrade
+              </Button>
+            </div>
+          </div>
+        ) : options.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Already on the highest available plan.</p>
+        ) : (
+          <div className="space-y-3">
+            <Select value={toPlanId} onValueChange={setToPlanId}>
+              <SelectTrigger data-testid="select-upgrade-plan">
+                <SelectValue placeholder="Choose a higher plan" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.planId} value={option.planId}>
+                    {option.name} - pay {formatAmount(option.amount, option.currency)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="w-full"
+              onClick={() => requestMutation.mutate()}
+              disabled={!selectedOption || requestMutation.isPending}
+              data-testid="button-request-upgrade"
+            >
+              {requestMutation.isPending ? "Requesting..." : "Request Upgrade"}
+            </Button>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="flex items-center text-sm font-medium">
+              <History className="h-4 w-4 mr-1" />
+              Package History
+            </h4>
+            {history.map(upgrade => (
+              <div key={upgrade.id} className="flex justify-between text-sm p-2 bg-muted/50 rounded" data-testid={`row-upgrade-${upgrade.id}`}>
+                <span>{upgrade.fromPlanName} → {upgrade.toPlanName}</span>
+                <span className="text-muted-foreground">
+                  {formatAmount(upgrade.amount, upgrade.currency)} • {new Date(upgrade.completedAt ?? upgrade.createdAt).toLocaleDateString('en-IN')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,22 @@
-import { User } from "@shared/schema";
+import { User, Earning, Plan, PlanMemberCount } from "@shared/schema";
+import { AuthUser } from "@/lib/auth";
+import { formatAmount } from "@/lib/utils";
+import { getPackageStyle } from "@/components/package-badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import { TrendingUp, Users, Award, DollarSign, Target } from "lucide-react";
+import { TrendingUp, Users, DollarSign, Target } from "lucide-react";
 
 interface ReportsPanelProps {
   users: User[];
-  currentUser: User;
+  currentUser: AuthUser;
   isAdmin: boolean;
+  earnings: Earning[];
+  plans: Plan[];
 }
 
-export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps) {
+export function ReportsPanel({ users, currentUser, isAdmin, earnings, plans }: ReportsPanelProps) {
   // Filter users based on access level
   const relevantUsers = isAdmin 
     ? users.filter(u => u.role === 'client')
@@ -29,20 +34,31 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
     return downline;
   }
 
+  // Members per plan, grouped by the plan each user bought
+  function countByPlan(list: User[]): PlanMemberCount[] {
+    const counts = new Map<string, PlanMemberCount>();
+    for (const user of list) {
+      if (!user.planId) continue;
+      const entry = counts.get(user.planId) || { planId: user.planId, name: user.package || "Unknown", count: 0 };
+      entry.count++;
+      counts.set(user.planId, entry);
+    }
+    return Array.from(counts.values());
+  }
+
   // Calculate statistics
   const stats = {
     total: relevantUsers.length,
-    silver: relevantUsers.filter(u => u.package === 'Silver').length,
-    gold: relevantUsers.filter(u => u.package === 'Gold').length,
-    diamond: relevantUsers.filter(u => u.package === 'Diamond').length,
+    byPlan: countByPlan(relevantUsers),
   };
 
   // Plan distribution data for charts
-  const planDistributionData = [
-    { name: 'Silver', value: stats.silver, color: '#94a3b8' },
-    { name: 'Gold', value: stats.gold, color: '#eab308' },
-    { name: 'Diamond', value: stats.diamond, color: '#a855f7' },
-  ].filter(item => item.value > 0);
+  const chartColors = ['#94a3b8', '#eab308', '#a855f7', '#22c55e', '#f97316', '#ec4899', '#14b8a6'];
+  const planDistributionData = stats.byPlan.map((plan, index) => ({
+    name: plan.name,
+    value: plan.count,
+    color: chartColors[index % chartColors.length],
+  }));
 
   const monthlyGrowthData = [
     { month: 'Jan', users: Math.floor(stats.total * 0.1) },
@@ -71,26 +87,20 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
 
   const { topReferrers } = getReferralStats();
 
-  // Estimated earnings calculations (mock data for demonstration)
-  const getEstimatedEarnings = () => {
-    const baseCommissions = {
-      Silver: { referral: 100, tree: 200 },
-      Gold: { referral: 200, tree: 400 },
-      Diamond: { referral: 300, tree: 600 }
-    };
+  // Commission totals from the credits recorded by the server
+  const relevantEarnings = isAdmin ? earnings : earnings.filter(e => e.userId === currentUser.id);
+  const sumAmounts = (list: Earning[]) => list.reduce((sum, e) => sum + e.amount, 0);
+  const totalEarnings = sumAmounts(relevantEarnings);
+  const referralEarnings = sumAmounts(relevantEarnings.filter(e => e.type === 'referral'));
+  const treeEarnings = sumAmounts(relevantEarnings.filter(e => e.type === 'tree'));
+  const levelEarnings = sumAmounts(relevantEarnings.filter(e => e.type === 'level'));
 
-    let totalEstimated = 0;
-    relevantUsers.forEach(user => {
-      const commission = baseCommissions[user.package as keyof typeof baseCommissions] || baseCommissions.Silver;
-      const directReferrals = users.filter(u => u.parentId === user.id).length;
-      totalEstimated += (commission.referral * directReferrals) + commission.tree;
-    });
-
-    return totalEstimated;
+  // Attribute each credit to the plan bought by the client who triggered it
+  const getEarningsForPlan = (planId: string) => {
+    const planUserIds = new Set(users.filter(u => u.planId === planId).map(u => u.id));
+    return relevantEarnings.filter(e => e.sourceUserId && planUserIds.has(e.sourceUserId));
   };
 
-  const estimatedEarnings = getEstimatedEarnings();
-
   return (
     <div className="space-y-6">
       <Tabs defaultValue="overview" className="w-full">
@@ -124,41 +134,22 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
               </CardContent>
             </Card>
 
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-gray-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Silver Members</p>
-                    <p className="text-2xl font-bold" data-testid="silver-count">{stats.silver}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-yellow-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Gold Members</p>
-                    <p className="text-2xl font-bold" data-testid="gold-count">{stats.gold}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <Award className="h-8 w-8 text-purple-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Diamond Members</p>
-                    <p className="text-2xl font-bold" data-testid="diamond-count">{stats.diamond}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {stats.byPlan.map((plan) => {
+              const { icon: Icon, iconClassName } = getPackageStyle(plan.name);
+              return (
+                <Card key={plan.planId}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center">
+                      <Icon className={`h-8 w-8 ${iconClassName}`} />
+                      <div className="ml-4">
+                        <p className="text-sm font-medium text-muted-foreground">{plan.name} Members</p>
+                        <p className="text-2xl font-bold" data-testid={`plan-count-${plan.planId}`}>{plan.count}</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
 
           {/* Charts */}
@@ -293,48 +284,61 @@ export function ReportsPanel({ users, currentUser, isAdmin }: ReportsPanelProps)
         <TabsContent value="earnings" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Estimated Earnings</CardTitle>
-              <CardDescription>Projected earnings based on current network</CardDescription>
+              <CardTitle>Earnings</CardTitle>
+              <CardDescription>Commissions credited across the network</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
                 <div className="text-center p-4 border rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">₹{estimatedEarnings.toLocaleString()}</div>
-                  <div className="text-sm text-muted-foreground">Total Estimated</div>
+                  <div className="text-2xl font-bold text-green-600" data-testid="text-total-earnings">{formatAmount(totalEarnings)}</div>
+                  <div className="text-sm text-muted-foreground">Total Earned</div>
                 </div>
                 <div className="text-center p-4 border rounded-lg">
-                  <div className="text-2xl font-bold text-blue-600">
-                    ₹{Math.floor(estimatedEarnings * 0.6).toLocaleString()}
+                  <div className="text-2xl font-bold text-blue-600" data-testid="text-referral-earnings">
+                    {formatAmount(referralEarnings)}
                   </div>
                   <div className="text-sm text-muted-foreground">Referral Commission</div>
                 </div>
                 <div className="text-center p-4 border rounded-lg">
-                  <div className="text-2xl font-bold text-purple-600">
-                    ₹{Math.floor(estimatedEarnings * 0.4).toLocaleString()}
+                  <div className="text-2xl font-bold text-purple-600" data-testid="text-tree-earnings">
+                    {formatAmount(treeEarnings)}
                   </div>
                   <div className="text-sm text-muted-foreground">Tree Commission</div>
                 </div>
+                <div className="text-center p-4 border rounded-lg">
+                  <div className="text-2xl font-bold text-amber-600" data-testid="text-level-earnings">
+                    {formatAmount(levelEarnings)}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Level Income</div>
+                </div>
               </div>
 
               <div className="space-y-3">
                 <h4 className="font-medium">Earnings Breakdown by Plan:</h4>
-                {['Silver', 'Gold', 'Diamond'].map(plan => {
-                  const planUsers = relevantUsers.filter(u => u.package === plan);
-                  const planCommission = plan === 'Silver' ? 300 : plan === 'Gold' ? 600 : 900;
-                  const estimated = planUsers.length * planCommission;
+                {countByPlan(users).map(({ planId, name }) => {
+                  const planEarnings = getEarningsForPlan(planId);
                   
-                  if (planUsers.length === 0) return null;
+                  if (planEarnings.length === 0) return null;
+
+                  // Value of the plan purchases in this network at the plan's current price
+                  const plan = plans.find(p => p.id === planId);
+                  const members = relevantUsers.filter(u => u.planId === planId).length;
+                  const { icon: Icon, iconClassName } = getPackageStyle(name);
                   
                   return (
-                    <div key={plan} className="flex justify-between items-center p-3 bg-muted/50 rounded">
+                    <div key={planId} className="flex justify-between items-center p-3 bg-muted/50 rounded">
                       <div className="flex items-center space-x-2">
-                        <Award className={`h-5 w-5 ${
-                          plan === 'Silver' ? 'text-gray-600' : 
-                          plan === 'Gold' ? 'text-yellow-600' : 'text-purple-600'
-                        }`} />
-                        <span>{plan} Plan ({planUsers.length} users)</span>
+                        <Icon className={`h-5 w-5 ${iconClassName}`} />
+                        <div>
+                          <div>{name} Plan ({planEarnings.length} credits)</div>
+                          {plan && (
+                            <div className="text-xs text-muted-foreground">
+                              Sales: {formatAmount(members * plan.price, plan.currency)}
+                            </div>
+                          )}
+                        </div>
                       </div>
-                      <span className="font-medium">₹{estimated.toLocaleString()}</span>
+                      <span className="font-medium">{formatAmount(sumAmounts(planEarnings))}</span>
                     </div>
                   );
                 })}
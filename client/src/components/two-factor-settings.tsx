@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { TwoFactorStatus, TwoFactorEnrollment, TwoFactorBackupCodes, otpLength } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { OtpCodeInput } from "@/components/otp-code-input";
+import { ShieldCheck } from "lucide-react";
+
+// Enrollment shows the QR code, then the backup codes once; an enabled app can be managed with a current code
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+  });
+
+  const onError = (title: string) => (error: any) => {
+    setCode("");
+    toast({
+      title,
+      description: error?.message || "Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/setup');
+      return await response.json() as TwoFactorEnrollment;
+    },
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setCode("");
+    },
+    onError: onError("Failed to start setup"),
+  });
+
+  // The status is refreshed when the backup codes are dismissed, so they stay on screen until then
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      return await response.json() as TwoFactorBackupCodes;
+    },
+    onSuccess: (result) => {
+      setEnrollment(null);
+      setBackupCodes(result.backupCodes);
+      setCode("");
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: onError("Failed to enable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/backup-codes', { code });
+      return await response.json() as TwoFactorBackupCodes;
+    },
+    onSuccess: (result) => {
+      setBackupCodes(result.backupCodes);
+      setCode("");
+    },
+    onError: onError("Failed to create backup codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/disable', { code });
+      return await response.json() as TwoFactorStatus;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/auth/2fa'], result);
+      setCode("");
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: onError("Failed to disable two-factor authentication"),
+  });
+
+  const dismissBackupCodes = () => {
+    setBackupCodes(null);
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+  };
+
+  // Authenticator codes have the same six digits as the SMS and email codes
+  const codeEntered = code.length === otpLength;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Sign in with a code from an authenticator app (Google Authenticator, Authy, 1Password...) as well as your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : backupCodes ? (
+          <div className="space-y-3" data-testid="section-backup-codes">
+            <p className="text-sm">
+              Save these backup codes somewhere safe. Each one signs you in once if you lose your phone, and they are not shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-lg border p-4 font-mono text-sm">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode} data-testid="text-backup-code">{backupCode}</span>
+              ))}
+            </div>
+            <Button className="w-full" onClick={dismissBackupCodes} data-testid="button-backup-codes-saved">
+              I have saved these codes
+            </Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge data-testid="badge-2fa-enabled">Enabled</Badge>
+              <span className="text-sm text-muted-foreground" data-testid="text-backup-codes-left">
+                {status.backupCodesLeft} backup code{status.backupCodesLeft === 1 ? '' : 's'} left
+              </span>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Enter a current code from your app to create new backup codes or turn two-factor off.</p>
+              <OtpCodeInput value={code} onChange={setCode} data-testid="input-2fa-manage-code" />
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!codeEntered || regenerateMutation.isPending}
+                data-testid="button-regenerate-backup-codes"
+              >
+                New Backup Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!codeEntered || disableMutation.isPending}
+                  data-testid="button-disable-2fa"
+                >
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-3" data-testid="section-2fa-enrollment">
+            <p className="text-sm">Scan this QR code with your authenticator app, then enter the code it shows.</p>
+            <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="mx-auto w-48 h-48" data-testid="img-2fa-qr-code" />
+            <p className="text-xs text-muted-foreground text-center">
+              Can't scan it? Enter this key instead: <code className="font-mono break-all" data-testid="text-2fa-secret">{enrollment.secret}</code>
+            </p>
+            <div className="flex items-center justify-center space-x-2">
+              <OtpCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} data-testid="input-2fa-enroll-code" />
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={!codeEntered || enableMutation.isPending}
+                data-testid="button-enable-2fa"
+              >
+                Enable
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {status.required && (
+              <p className="text-sm text-destructive">Two-factor authentication is required for admin accounts.</p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+              {setupMutation.isPending ? "Preparing..." : "Set Up Authenticator App"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
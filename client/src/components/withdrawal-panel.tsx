@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PayoutAccount, WithdrawalDetails, WithdrawalSettings } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { WithdrawalStatusBadge } from "@/components/withdrawal-status-badge";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount, describePayoutAccount } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet, Plus, Send } from "lucide-react";
+
+type WithdrawalSettingsWithBalance = WithdrawalSettings & { availableBalance: number };
+
+export function WithdrawalPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [payoutAccountId, setPayoutAccountId] = useState("");
+  const [isAccountDialogOpen, setIsAccountDialogOpen] = useState(false);
+  const [accountType, setAccountType] = useState<"upi" | "bank">("upi");
+  const [accountFields, setAccountFields] = useState({ upiId: "", accountHolder: "", accountNumber: "", ifsc: "" });
+
+  const { data: settings } = useQuery<WithdrawalSettingsWithBalance>({
+    queryKey: ['/api/withdrawals/settings'],
+  });
+
+  const { data: payoutAccounts = [] } = useQuery<PayoutAccount[]>({
+    queryKey: ['/api/payout-accounts'],
+  });
+
+  const { data: withdrawals = [] } = useQuery<WithdrawalDetails[]>({
+    queryKey: ['/api/withdrawals'],
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/withdrawals', {
+        amount: Math.round(parseFloat(amount) * 100),
+        payoutAccountId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/withdrawals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/withdrawals/settings'] });
+      setAmount("");
+      toast({
+        title: "Withdrawal requested",
+        description: "Your request will be reviewed by an admin.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Withdrawal request failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const addAccountMutation = useMutation({
+    mutationFn: async () => {
+      const body = accountType === "upi"
+        ? { type: "upi", upiId: accountFields.upiId }
+        : { type: "bank", accountHolder: accountFields.accountHolder, accountNumber: accountFields.accountNumber, ifsc: accountFields.ifsc.toUpperCase() };
+      const response = await apiRequest('POST', '/api/payout-accounts', body);
+      return await response.json() as PayoutAccount;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payout-accounts'] });
+      setPayoutAccountId(account.id);
+      setIsAccountDialogOpen(false);
+      setAccountFields({ upiId: "", accountHolder: "", accountNumber: "", ifsc: "" });
+      toast({ title: "Payout account saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save payout account",
+        description: error?.message || "Please check the details.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const requestedPaise = Math.round((parseFloat(amount) || 0) * 100);
+  const deductions = settings
+    ? Math.round(requestedPaise * settings.tdsPercent / 100) + Math.round(requestedPaise * settings.adminFeePercent / 100)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="h-5 w-5 text-primary mr-2" />
+          Wallet & Withdrawals
+        </CardTitle>
+        <CardDescription>
+          Withdraw your earnings to a saved UPI ID or bank account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="text-center p-4 bg-green-50 rounded-lg">
+          <div className="text-2xl font-bold text-green-600" data-testid="text-available-balance">
+            {formatAmount(settings?.availableBalance ?? 0)}
+          </div>
+          <div className="text-sm text-slate-600">Available to Withdraw</div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Pay To</Label>
+            <Button size="sm" variant="outline" onClick={() => setIsAccountDialogOpen(true)} data-testid="button-add-payout-account">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Account
+            </Button>
+          </div>
+          <Select value={payoutAccountId} onValueChange={setPayoutAccountId}>
+            <SelectTrigger data-testid="select-payout-account">
+              <SelectValue placeholder={payoutAccounts.length > 0 ? "Choose payout account" : "Add a payout account first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {payoutAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {describePayoutAccount(account)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label htmlFor="withdrawal-amount">Amount (₹)</Label>
+          <Input
+            id="withdrawal-amount"
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={settings ? `Minimum ${formatAmount(settings.minAmount)}` : ""}
+            data-testid="input-withdrawal-amount"
+          />
+          {requestedPaise > 0 && settings && (
+            <p className="text-xs text-muted-foreground">
+              TDS {settings.tdsPercent}% + admin fee {settings.adminFeePercent}%: {formatAmount(deductions)} • You receive {formatAmount(requestedPaise - deductions)}
+            </p>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => requestMutation.mutate()}
+            disabled={requestMutation.isPending || !payoutAccountId || requestedPaise <= 0}
+            data-testid="button-request-withdrawal"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {requestMutation.isPending ? "Requesting..." : "Request Withdrawal"}
+          </Button>
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-2">Your Requests</h4>
+          {withdrawals.length > 0 ? (
+            <div className="space-y-2">
+              {withdrawals.map((withdrawal) => (
+                <div key={withdrawal.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`row-my-withdrawal-${withdrawal.id}`}>
+                  <div>
+                    <div className="font-medium">{formatAmount(withdrawal.amount)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(withdrawal.createdAt).toLocaleDateString('en-IN')} • {describePayoutAccount(withdrawal.payoutAccount)}
+                    </div>
+                    {withdrawal.rejectionReason && (
+                      <div className="text-xs text-red-600">{withdrawal.rejectionReason}</div>
+                    )}
+                  </div>
+                  <WithdrawalStatusBadge status={withdrawal.status} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">No withdrawal requests yet.</div>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Add Payout Account Dialog */}
+      <Dialog open={isAccountDialogOpen} onOpenChange={setIsAccountDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Payout Account</DialogTitle>
+            <DialogDescription>Withdrawals will be paid to this UPI ID or bank account.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={accountType} onValueChange={(value) => setAccountType(value as "upi" | "bank")}>
+              <SelectTrigger data-testid="select-payout-account-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="upi">UPI ID</SelectItem>
+                <SelectItem value="bank">Bank Account</SelectItem>
+              </SelectContent>
+            </Select>
+            {accountType === "upi" ? (
+              <div className="space-y-2">
+                <Label htmlFor="payout-upi">UPI ID</Label>
+                <Input
+                  id="payout-upi"
+                  placeholder="name@bank"
+                  value={accountFields.upiId}
+                  onChange={(e) => setAccountFields({ ...accountFields, upiId: e.target.value })}
+                  data-testid="input-payout-upi"
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="payout-holder">Account Holder</Label>
+                  <Input
+                    id="payout-holder"
+                    value={accountFields.accountHolder}
+                    onChange={(e) => setAccountFields({ ...accountFields, accountHolder: e.target.value })}
+                    data-testid="input-payout-holder"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payout-number">Account Number</Label>
+                  <Input
+                    id="payout-number"
+                    value={accountFields.accountNumber}
+                    onChange={(e) => setAccountFields({ ...accountFields, accountNumber: e.target.value })}
+                    data-testid="input-payout-number"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payout-ifsc">IFSC</Label>
+                  <Input
+                    id="payout-ifsc"
+                    value={accountFields.ifsc}
+                    onChange={(e) => setAccountFields({ ...accountFields, ifsc: e.target.value })}
+                    data-testid="input-payout-ifsc"
+                  />
+                </div>
+              </>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsAccountDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => addAccountMutation.mutate()} disabled={addAccountMutation.isPending} data-testid="button-save-payout-account">
+                {addAccountMutation.isPending ? "Saving..." : "Save Account"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -23,6 +23,10 @@ export const useAuthStore = create<AuthStore>()(
     }),
     {
       name: 'auth-storage',
+      // The user is persisted so the last signed-in account shows at once; isInitialized is not,
+      // so each page load still refreshes the user from /api/auth/me and picks up a changed
+      // admin role or a disabled account
+      partialize: (state) => ({ user: state.user, isAuthenticated: state.isAuthenticated }),
     }
   )
 );
\ No newline at end of file
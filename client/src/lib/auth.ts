@@ -1,4 +1,4 @@
-import { User } from "@shared/schema";
+import { User, AdminPermission, hasAdminPermission } from "@shared/schema";
 
 export interface AuthUser extends Omit<User, 'password'> {}
 
@@ -23,3 +23,8 @@ export const clearAuth = () => {
   if (typeof window === 'undefined') return;
   localStorage.removeItem('auth_user');
 };
+
+// Hides what the admin's role cannot use; the server checks the same permissions
+export const hasPermission = (user: AuthUser | null, permission: AdminPermission): boolean => {
+  return user?.role === 'admin' && hasAdminPermission(user.adminRole, permission);
+};
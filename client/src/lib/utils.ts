@@ -1,6 +1,30 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { PayoutAccount, LevelIncomeRule } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Amounts are kept in minor units (paise for INR) on the server
+export function formatAmount(amount: number, currency = "INR") {
+  return (amount / 100).toLocaleString("en-IN", { style: "currency", currency, minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+// Plan forms take major units (rupees); the server stores minor units
+export function toMinorUnits(amount: number) {
+  return Math.round(amount * 100)
+}
+
+export function describeLevelIncome(rules: LevelIncomeRule[], currency = "INR") {
+  if (rules.length === 0) return "None"
+  return rules
+    .map((rule, index) => `L${index + 1} ${rule.type === "percent" ? `${rule.value}%` : formatAmount(rule.value, currency)}`)
+    .join(" • ")
+}
+
+export function describePayoutAccount(account: PayoutAccount | null) {
+  if (!account) return "Unknown account"
+  if (account.type === "upi") return `UPI: ${account.upiId}`
+  return `${account.accountHolder} • A/C ••••${account.accountNumber?.slice(-4)} • ${account.ifsc}`
+}
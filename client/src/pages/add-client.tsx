@@ -3,7 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { createClientSchema, CreateClientRequest, planPricing, Plan } from "@shared/schema";
+import { createClientSchema, CreateClientRequest, ClientRegistration, CouponQuote, Plan } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,13 +12,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { AdminSidebar } from "@/components/admin-sidebar";
 import { useToast } from "@/hooks/use-toast";
 import { useAuthStore } from "@/hooks/use-auth";
-import { UserPlus, CreditCard, ArrowLeft, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/utils";
+import { UserPlus, CreditCard, ArrowLeft, Users, Clock, TicketPercent, X } from "lucide-react";
 import { Link } from "wouter";
 
 export default function AddClient() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [couponQuote, setCouponQuote] = useState<CouponQuote | null>(null);
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
   const { user: currentUser } = useAuthStore();
 
   // Fetch available plans from the API
@@ -26,6 +30,11 @@ export default function AddClient() {
     queryKey: ['/api/plans'],
   });
 
+  // Registrations created earlier that are still waiting for their payment
+  const { data: pendingRegistrations = [] } = useQuery<ClientRegistration[]>({
+    queryKey: ['/api/registrations'],
+  });
+
   const form = useForm<CreateClientRequest>({
     resolver: zodResolver(createClientSchema),
     defaultValues: {
@@ -34,36 +43,60 @@ export default function AddClient() {
       password: "",
       mobile: "",
       email: "",
-      package: undefined,
+      planId: "",
       parentId: currentUser?.id || null,
-      position: null
+      position: null,
+      couponCode: ""
     }
   });
 
+  // The coupon is checked against the selected plan before the client is registered
+  const applyCoupon = async () => {
+    setIsCheckingCoupon(true);
+    try {
+      const response = await apiRequest('POST', '/api/coupons/quote', {
+        code: form.getValues("couponCode"),
+        planId: form.getValues("planId"),
+      });
+      setCouponQuote(await response.json() as CouponQuote);
+    } catch (error: any) {
+      setCouponQuote(null);
+      toast({
+        title: "Coupon not applied",
+        description: error?.message || "Please check the code.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
   const onSubmit = async (data: CreateClientRequest) => {
     setIsSubmitting(true);
     try {
       // Ensure parentId is set to current user's ID
       const clientData = {
         ...data,
-        parentId: currentUser?.id || null
+        parentId: currentUser?.id || null,
+        couponCode: couponQuote?.code
       };
       
-      // Store client data in sessionStorage for the payment page
-      sessionStorage.setItem('pendingClientData', JSON.stringify(clientData));
+      // Create the client server-side as pending payment
+      const response = await apiRequest('POST', '/api/registrations', clientData);
+      const registration = await response.json() as ClientRegistration;
       
       // Navigate to payment page
-      setLocation('/admin/payment');
+      setLocation(`/admin/payment/${registration.client.id}`);
       
       toast({
-        title: "Form validated successfully",
+        title: "Client registered",
         description: "Proceeding to payment page..."
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Form submission error:', error);
       toast({
         title: "Error",
-        description: "Failed to process form. Please try again.",
+        description: error?.message || "Failed to process form. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -71,9 +104,8 @@ export default function AddClient() {
     }
   };
 
-  const selectedPlan = form.watch("package");
-  const selectedPlanData = plans?.find(plan => plan.name === selectedPlan);
-  const planAmount = selectedPlan ? planPricing[selectedPlan] : 0;
+  const selectedPlan = form.watch("planId");
+  const selectedPlanData = plans?.find(plan => plan.id === selectedPlan);
 
   return (
     <div className="min-h-screen bg-background">
@@ -105,7 +137,7 @@ export default function AddClient() {
                 Create New Client Account
               </CardTitle>
               <CardDescription>
-                Fill in the client details below. After validation, you'll proceed to the payment page.
+                Fill in the client details below. The account is reserved until its payment is confirmed on the next page.
               </CardDescription>
             </CardHeader>
             
@@ -256,11 +288,11 @@ export default function AddClient() {
                   {/* Plan Selection */}
                   <FormField
                     control={form.control}
-                    name="package"
+                    name="planId"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Select Plan *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={(value) => { field.onChange(value); setCouponQuote(null); }} defaultValue={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-client-plan">
                               <SelectValue placeholder="Choose a plan" />
@@ -271,8 +303,8 @@ export default function AddClient() {
                               <div className="p-2 text-center text-muted-foreground">Loading plans...</div>
                             ) : plans && plans.filter(plan => plan.status === 'active').length > 0 ? (
                               plans.filter(plan => plan.status === 'active').map((plan) => (
-                                <SelectItem key={plan.id} value={plan.name}>
-                                  {plan.name} Plan - {plan.price}
+                                <SelectItem key={plan.id} value={plan.id}>
+                                  {plan.name} Plan - {formatAmount(plan.price, plan.currency)}
                                 </SelectItem>
                               ))
                             ) : (
@@ -281,14 +313,14 @@ export default function AddClient() {
                           </SelectContent>
                         </Select>
                         <FormMessage />
-                        {selectedPlan && selectedPlanData && (
+                        {selectedPlanData && (
                           <div className="mt-2 p-3 bg-primary/5 rounded-lg border">
                             <div className="flex items-center justify-between">
                               <span className="font-medium text-foreground">
-                                {selectedPlan} Plan Selected
+                                {selectedPlanData.name} Plan Selected
                               </span>
                               <span className="text-lg font-bold text-primary">
-                                {selectedPlanData.price}
+                                {formatAmount(selectedPlanData.price, selectedPlanData.currency)}
                               </span>
                             </div>
                             <div className="grid grid-cols-2 gap-4 mt-2 text-sm">
@@ -298,15 +330,69 @@ export default function AddClient() {
                               </div>
                               <div>
                                 <span className="text-muted-foreground">Referral:</span>
-                                <span className="ml-1 font-medium">{selectedPlanData.referralCommission}</span>
+                                <span className="ml-1 font-medium">{formatAmount(selectedPlanData.referralCommission, selectedPlanData.currency)}</span>
                               </div>
                             </div>
+                            {couponQuote && (
+                              <div className="flex items-center justify-between mt-2 pt-2 border-t text-sm" data-testid="text-coupon-price">
+                                <span className="text-muted-foreground">
+                                  {couponQuote.code} saves {formatAmount(couponQuote.discount, couponQuote.currency)}
+                                </span>
+                                <span className="font-bold text-primary">{formatAmount(couponQuote.amount, couponQuote.currency)}</span>
+                              </div>
+                            )}
                           </div>
                         )}
                       </FormItem>
                     )}
                   />
 
+                  {/* Coupon Code */}
+                  <FormField
+                    control={form.control}
+                    name="couponCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Coupon Code</FormLabel>
+                        <div className="flex space-x-2">
+                          <FormControl>
+                            <Input
+                              placeholder="Optional"
+                              {...field}
+                              onChange={(e) => { field.onChange(e.target.value.toUpperCase()); setCouponQuote(null); }}
+                              data-testid="input-coupon-code"
+                            />
+                          </FormControl>
+                          {couponQuote ? (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => { form.setValue("couponCode", ""); setCouponQuote(null); }}
+                              data-testid="button-remove-coupon"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={applyCoupon}
+                              disabled={!field.value?.trim() || !selectedPlan || isCheckingCoupon}
+                              data-testid="button-apply-coupon"
+                            >
+                              <TicketPercent className="h-4 w-4 mr-2" />
+                              {isCheckingCoupon ? "Checking..." : "Apply"}
+                            </Button>
+                          )}
+                        </div>
+                        <FormMessage />
+                        <p className="text-xs text-muted-foreground">
+                          {couponQuote?.description || "Select a plan first. Only applied coupons are used."}
+                        </p>
+                      </FormItem>
+                    )}
+                  />
+
                   {/* Submit Button */}
                   <div className="pt-4">
                     <Button 
@@ -316,11 +402,11 @@ export default function AddClient() {
                       data-testid="button-proceed-payment"
                     >
                       {isSubmitting ? (
-                        "Validating..."
+                        "Registering..."
                       ) : (
                         <>
                           <CreditCard className="h-5 w-5 mr-2" />
-                          Proceed to Payment {selectedPlan && selectedPlanData && `(${selectedPlanData.price})`}
+                          Proceed to Payment {selectedPlan && selectedPlanData && `(${couponQuote ? formatAmount(couponQuote.amount, couponQuote.currency) : formatAmount(selectedPlanData.price, selectedPlanData.currency)})`}
                         </>
                       )}
                     </Button>
@@ -329,6 +415,35 @@ export default function AddClient() {
               </Form>
             </CardContent>
           </Card>
+
+          {pendingRegistrations.length > 0 && (
+            <Card className="max-w-2xl mx-auto mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <Clock className="h-5 w-5 text-primary mr-2" />
+                  Awaiting Payment
+                </CardTitle>
+                <CardDescription>
+                  Unpaid registrations expire automatically
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {pendingRegistrations.map(({ client, expiresAt }) => (
+                  <div key={client.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`row-pending-${client.id}`}>
+                    <div>
+                      <div className="font-medium">{client.name} <span className="text-muted-foreground">@{client.username}</span></div>
+                      <div className="text-xs text-muted-foreground">
+                        {client.package} Plan{expiresAt && ` • Expires ${new Date(expiresAt).toLocaleString('en-IN')}`}
+                      </div>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setLocation(`/admin/payment/${client.id}`)} data-testid={`button-continue-payment-${client.id}`}>
+                      Continue to Payment
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
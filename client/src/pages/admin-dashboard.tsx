@@ -1,28 +1,40 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { User, ClientStats, ExpiringMember } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import { clearAuth } from "@/lib/auth";
+import { clearAuth, hasPermission } from "@/lib/auth";
 import { useAuthStore } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { PackageBadge } from "@/components/package-badge";
-import { Users, Award, Medal, Gem, LogOut, Eye, Edit } from "lucide-react";
+import { PackageBadge, getPackageStyle } from "@/components/package-badge";
+import { Link } from "wouter";
+import { Users, LogOut, Eye, Edit, CalendarClock } from "lucide-react";
 import { AdminSidebar } from "@/components/admin-sidebar";
+import { ChangePasswordDialog } from "@/components/change-password-form";
 
 export default function AdminDashboard() {
   const queryClient = useQueryClient();
-  const { logout } = useAuthStore();
+  const { user, logout } = useAuthStore();
+  // Roles without it see only the totals
+  const canViewClients = hasPermission(user, 'clients.view');
 
   // Queries
   const { data: clients = [], isLoading: clientsLoading } = useQuery<User[]>({
     queryKey: ['/api/clients'],
+    enabled: canViewClients,
   });
 
-  const { data: stats } = useQuery<{ total: number; silver: number; gold: number; diamond: number }>({
+  const { data: stats } = useQuery<ClientStats>({
     queryKey: ['/api/stats'],
   });
 
+  // Members within PLAN_EXPIRY_WARNING_DAYS of expiry, and those already lapsed
+  const { data: expiring = [] } = useQuery<ExpiringMember[]>({
+    queryKey: ['/api/renewals/expiring'],
+    enabled: canViewClients,
+  });
+
   // Mutations
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -86,6 +98,7 @@ export default function AdminDashboard() {
                 <span className="text-sm text-muted-foreground" data-testid="text-user-info">
                   Welcome, Admin User
                 </span>
+                <ChangePasswordDialog />
                 <Button
                   variant="outline"
                   size="sm"
@@ -130,58 +143,64 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
 
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-slate-100 dark:bg-slate-800 rounded-lg">
-                    <Award className="h-6 w-6 text-slate-600 dark:text-slate-400" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Silver Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-silver-clients">
-                      {stats?.silver || 0}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg">
-                    <Medal className="h-6 w-6 text-yellow-600 dark:text-yellow-500" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Gold Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-gold-clients">
-                      {stats?.gold || 0}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {stats?.byPlan.map((plan) => {
+              const { icon: Icon, iconClassName } = getPackageStyle(plan.name);
+              return (
+                <Card key={plan.planId}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center">
+                      <div className="p-2 bg-muted rounded-lg">
+                        <Icon className={`h-6 w-6 ${iconClassName}`} />
+                      </div>
+                      <div className="ml-4">
+                        <p className="text-sm font-medium text-muted-foreground">{plan.name} Package</p>
+                        <p className="text-2xl font-bold text-foreground" data-testid={`stat-plan-clients-${plan.planId}`}>
+                          {plan.count}
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
 
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex items-center">
-                  <div className="p-2 bg-purple-100 dark:bg-purple-900/20 rounded-lg">
-                    <Gem className="h-6 w-6 text-purple-600 dark:text-purple-400" />
-                  </div>
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-muted-foreground">Diamond Package</p>
-                    <p className="text-2xl font-bold text-foreground" data-testid="stat-diamond-clients">
-                      {stats?.diamond || 0}
-                    </p>
+          {expiring.length > 0 && (
+            <Card className="mb-8" data-testid="card-expiring-plans">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CalendarClock className="h-5 w-5 mr-2" />
+                  Expiring Plans
+                </CardTitle>
+                <CardDescription>Members whose plan expires soon or has lapsed; renew them from Manage Users</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {expiring.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between text-sm p-2 bg-muted/50 rounded" data-testid={`row-expiring-${member.id}`}>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{member.name || member.username}</span>
+                      <span className="text-muted-foreground">@{member.username}</span>
+                      <PackageBadge package={member.package} />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-muted-foreground">{new Date(member.planExpiresAt).toLocaleDateString('en-IN')}</span>
+                      {member.daysLeft <= 0 ? (
+                        <Badge variant="destructive">Expired</Badge>
+                      ) : (
+                        <Badge variant="outline">{member.daysLeft} day{member.daysLeft === 1 ? '' : 's'} left</Badge>
+                      )}
+                    </div>
                   </div>
-                </div>
+                ))}
+                <Link href="/admin/users" className="text-sm text-primary underline inline-block">
+                  Go to Manage Users
+                </Link>
               </CardContent>
             </Card>
-          </div>
-
-
+          )}
 
         {/* Clients Table */}
+        {canViewClients && (
         <Card>
           <CardHeader>
             <CardTitle>All Clients</CardTitle>
@@ -221,7 +240,7 @@ export default function AdminDashboard() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <PackageBadge package={client.package || "Silver"} />
+                        <PackageBadge package={client.package} />
                       </TableCell>
                       <TableCell className="text-sm text-slate-500">
                         {getParentName(client.parentId)}
@@ -256,6 +275,7 @@ export default function AdminDashboard() {
             )}
           </CardContent>
         </Card>
+        )}
         </div>
       </div>
     </div>
@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { createAdminSchema, adminRoles, AdminAccount, AdminRole, CreateAdminRequest, PasswordReset, UpdateAdminRequest } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuthStore } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, ArrowLeft, ShieldCheck } from "lucide-react";
+import { Link } from "wouter";
+
+const roleLabels: Record<AdminRole, { label: string; description: string }> = {
+  super_admin: { label: "Super Admin", description: "Everything, including admin accounts" },
+  finance: { label: "Finance", description: "Deposits, withdrawals and wallet adjustments" },
+  support: { label: "Support", description: "Dashboard, clients and plans, read-only" },
+  viewer: { label: "Viewer", description: "Dashboard, plans and payments, read-only" },
+};
+
+const emptyAdmin: CreateAdminRequest = {
+  name: "",
+  username: "",
+  email: "",
+  adminRole: "support",
+};
+
+export default function AdminUsers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // Temporary password of the admin just created, shown once
+  const [created, setCreated] = useState<PasswordReset | null>(null);
+
+  const { data: admins, isLoading } = useQuery<AdminAccount[]>({
+    queryKey: ['/api/admins'],
+  });
+
+  const form = useForm<CreateAdminRequest>({
+    resolver: zodResolver(createAdminSchema),
+    defaultValues: emptyAdmin,
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setCreated(null);
+    form.reset(emptyAdmin);
+  };
+
+  const createAdminMutation = useMutation({
+    mutationFn: async (data: CreateAdminRequest) => {
+      const response = await apiRequest('POST', '/api/admins', data);
+      return await response.json() as PasswordReset;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admins'] });
+      setCreated(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create admin",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateAdminMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string, data: UpdateAdminRequest }) => {
+      return await apiRequest('PUT', `/api/admins/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admins'] });
+      toast({ title: "Admin updated successfully" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update admin",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AdminSidebar />
+        <div className="lg:ml-64 transition-all duration-300 p-6">
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+                <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Admin Users</h1>
+                  <p className="text-sm text-muted-foreground">Who can use the admin panel, and what their role allows</p>
+                </div>
+              </div>
+              <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-admin">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Admin
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Admins Table */}
+        <div className="p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Admins</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4">Admin</th>
+                      <th className="text-left py-3 px-4">Role</th>
+                      <th className="text-left py-3 px-4">Two-Factor</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-left py-3 px-4">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {admins?.map((admin) => {
+                      // Admins cannot change their own role or disable themselves
+                      const isSelf = admin.id === user?.id;
+                      return (
+                        <tr key={admin.id} className="border-b hover:bg-muted/50" data-testid={`row-admin-${admin.id}`}>
+                          <td className="py-3 px-4">
+                            <div className="font-medium">{admin.name || admin.username}{isSelf && " (you)"}</div>
+                            <div className="text-xs text-muted-foreground">@{admin.username}{admin.email && ` · ${admin.email}`}</div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <Select
+                              value={admin.adminRole ?? undefined}
+                              onValueChange={(adminRole) => updateAdminMutation.mutate({ id: admin.id, data: { adminRole: adminRole as AdminRole } })}
+                              disabled={isSelf || updateAdminMutation.isPending}
+                            >
+                              <SelectTrigger className="w-40" data-testid={`select-admin-role-${admin.id}`}>
+                                <SelectValue placeholder="No role" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {adminRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>{roleLabels[role].label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </td>
+                          <td className="py-3 px-4">
+                            {admin.twoFactorEnabled ? (
+                              <span className="flex items-center text-sm text-green-600">
+                                <ShieldCheck className="h-4 w-4 mr-1" />
+                                On
+                              </span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">Off</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <Badge variant={admin.status === 'active' ? 'default' : 'secondary'} data-testid={`status-admin-${admin.id}`}>
+                              {admin.status === 'active' ? 'Active' : 'Disabled'}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-4">
+                            {!isSelf && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => updateAdminMutation.mutate({ id: admin.id, data: { status: admin.status === 'active' ? 'disabled' : 'active' } })}
+                                disabled={updateAdminMutation.isPending}
+                                data-testid={`button-toggle-admin-${admin.id}`}
+                              >
+                                {admin.status === 'active' ? 'Disable' : 'Enable'}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Add Admin Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Admin</DialogTitle>
+          </DialogHeader>
+          {created ? (
+            <div className="space-y-4">
+              <div className="rounded-lg border p-3 space-y-1" data-testid="section-admin-temporary-password">
+                <div className="text-sm">
+                  Username: <code className="font-mono font-bold">{created.user.username}</code>
+                </div>
+                <div className="text-sm">
+                  Temporary password: <code className="font-mono font-bold" data-testid="text-admin-temporary-password">{created.temporaryPassword}</code>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Share it with the new admin now; it is not shown again. They must choose a new password when they sign in.
+                </p>
+              </div>
+              <Button className="w-full" onClick={closeDialog} data-testid="button-admin-created-done">
+                Done
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createAdminMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-admin-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-admin-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} data-testid="input-admin-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="adminRole"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-new-admin-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {adminRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{roleLabels[role].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>{roleLabels[field.value].description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={closeDialog}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createAdminMutation.isPending} data-testid="button-create-admin">
+                    {createAdminMutation.isPending ? "Creating..." : "Create Admin"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { clearAuth } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { LogOut } from "lucide-react";
+
+// Shown instead of the dashboards while the user's password was set by someone else
+export default function ChangePasswordPage() {
+  const queryClient = useQueryClient();
+  const { user, logout } = useAuthStore();
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/logout", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      clearAuth();
+      logout();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
+      <div className="absolute top-4 right-4 flex items-center space-x-2">
+        <ThemeToggle />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="button-logout"
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Logout
+        </Button>
+      </div>
+      <Card className="w-full max-w-md mx-4 shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+          <CardDescription>
+            {user ? `Welcome, ${user.username}. ` : ""}Your password was set by an administrator and must be changed before you continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangePasswordForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,8 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { CreateClientRequest, createClientSchema, User } from "@shared/schema";
+import { CreateClientRequest, createClientSchema, User, CatalogPlan, MembershipStatus, ClientRegistration } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { formatAmount, describeLevelIncome } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { clearAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
@@ -13,9 +14,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { BinaryTree } from "@/components/binary-tree";
 import { PackageBadge } from "@/components/package-badge";
+import { WithdrawalPanel } from "@/components/withdrawal-panel";
+import { PlanUpgradePanel } from "@/components/plan-upgrade-panel";
+import { PlanRenewalPanel, describeExpiry } from "@/components/plan-renewal-panel";
+import { DownlineRegistrationsPanel } from "@/components/downline-registrations-panel";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Network, UserPlus, LogOut, Users, CheckCircle, Table } from "lucide-react";
+import { Network, UserPlus, LogOut, Users, CheckCircle, Table, CalendarClock } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ChangePasswordDialog } from "@/components/change-password-form";
+import { MobileVerificationPanel } from "@/components/mobile-verification-panel";
 import logoPath from "@assets/logo_1755178929997.png";
 
 export default function ClientDashboard() {
@@ -33,31 +41,50 @@ export default function ClientDashboard() {
     queryKey: ['/api/clients/downline'],
   });
 
+  // Members registered in our positions who have not paid yet
+  const { data: registrations = [] } = useQuery<ClientRegistration[]>({
+    queryKey: ['/api/registrations'],
+    refetchInterval: (query) => query.state.data?.length ? 10000 : false,
+  });
+
+  const { data: plans = [] } = useQuery<CatalogPlan[]>({
+    queryKey: ['/api/catalog/plans'],
+  });
+
+  const { data: membership } = useQuery<MembershipStatus>({
+    queryKey: ['/api/renewals/status'],
+  });
+
   // Form for adding new downline client
   const form = useForm<CreateClientRequest>({
     resolver: zodResolver(createClientSchema.omit({ parentId: true })),
     defaultValues: {
+      name: "",
       username: "",
       password: "",
-      package: "Silver",
+      mobile: "",
+      email: "",
+      planId: "",
       position: "left",
     },
   });
 
+  const selectedPlan = plans.find(plan => plan.id === form.watch("planId"));
+
   // Mutations
   const createDownlineMutation = useMutation({
     mutationFn: async (data: CreateClientRequest) => {
       const response = await apiRequest("POST", "/api/clients/downline", data);
-      return response.json();
+      return await response.json() as ClientRegistration;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/clients/downline'] });
+    onSuccess: (registration) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
       form.reset();
       setIsAddDialogOpen(false);
       setSelectedPosition(null);
       toast({
-        title: "Downline Client Added",
-        description: "New client has been successfully added to your downline.",
+        title: "Registration Created",
+        description: `Pay ${formatAmount(registration.amount, registration.currency)} to activate ${registration.client.username}.`,
       });
     },
     onError: (error: any) => {
@@ -91,6 +118,13 @@ export default function ClientDashboard() {
   };
 
   const handleAddClient = (position: "left" | "right") => {
+    if (registrations.some(registration => registration.client.position === position)) {
+      toast({
+        title: "Position Awaiting Payment",
+        description: `Your ${position} position is held for a member who has not paid yet.`,
+      });
+      return;
+    }
     setSelectedPosition(position);
     form.setValue("position", position);
     setIsAddDialogOpen(true);
@@ -109,6 +143,8 @@ export default function ClientDashboard() {
 
   const leftChild = downlineClients.find(c => c.position === "left");
   const rightChild = downlineClients.find(c => c.position === "right");
+  const leftPending = registrations.some(registration => registration.client.position === "left");
+  const rightPending = registrations.some(registration => registration.client.position === "right");
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -133,6 +169,7 @@ export default function ClientDashboard() {
                 Welcome, {currentUser.username}
               </span>
               <ThemeToggle />
+              <ChangePasswordDialog />
               <Button
                 variant="outline"
                 size="sm"
@@ -149,6 +186,30 @@ export default function ClientDashboard() {
       </nav>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {membership?.expiringSoon && (
+          <Alert variant={membership.status === 'expired' ? "destructive" : "default"} className="mb-8" data-testid="alert-plan-expiry">
+            <CalendarClock className="h-4 w-4" />
+            <AlertTitle>{membership.status === 'expired' ? "Your plan has expired" : "Your plan expires soon"}</AlertTitle>
+            <AlertDescription>
+              {describeExpiry(membership)}. Renew it below to keep earning commissions.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {currentUser.mobile && !currentUser.mobileVerifiedAt && (
+          <Card className="mb-8" data-testid="card-verify-mobile">
+            <CardHeader>
+              <CardTitle>Verify your mobile number</CardTitle>
+              <CardDescription>
+                We send password reset codes to {currentUser.mobile}. Confirm it is yours with a code sent by SMS.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MobileVerificationPanel mobile={currentUser.mobile} verifiedAt={currentUser.mobileVerifiedAt} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Client Profile Header */}
         <div className="bg-gradient-to-r from-primary to-secondary rounded-xl p-8 text-white mb-8">
           <div className="flex items-center justify-between">
@@ -234,31 +295,49 @@ export default function ClientDashboard() {
               <div className="grid grid-cols-2 gap-4">
                 <Button
                   onClick={() => handleAddClient("left")}
-                  disabled={!!leftChild}
-                  variant={leftChild ? "secondary" : "default"}
+                  disabled={!!leftChild || leftPending}
+                  variant={leftChild || leftPending ? "secondary" : "default"}
                   className="h-20 flex flex-col space-y-2"
                   data-testid="button-add-left-quick"
                 >
                   <Users className="h-6 w-6" />
                   <span>Add Left</span>
-                  {leftChild && <span className="text-xs">Occupied</span>}
+                  {leftChild ? <span className="text-xs">Occupied</span> : leftPending && <span className="text-xs">Awaiting payment</span>}
                 </Button>
                 <Button
                   onClick={() => handleAddClient("right")}
-                  disabled={!!rightChild}
-                  variant={rightChild ? "secondary" : "default"}
+                  disabled={!!rightChild || rightPending}
+                  variant={rightChild || rightPending ? "secondary" : "default"}
                   className="h-20 flex flex-col space-y-2"
                   data-testid="button-add-right-quick"
                 >
                   <Users className="h-6 w-6" />
                   <span>Add Right</span>
-                  {rightChild && <span className="text-xs">Occupied</span>}
+                  {rightChild ? <span className="text-xs">Occupied</span> : rightPending && <span className="text-xs">Awaiting payment</span>}
                 </Button>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Downline registrations awaiting payment */}
+        {registrations.length > 0 && (
+          <div className="mb-8">
+            <DownlineRegistrationsPanel registrations={registrations} />
+          </div>
+        )}
+
+        {/* Plan Renewal & Upgrade */}
+        <div className="mb-8 space-y-8">
+          <PlanRenewalPanel />
+          {currentUser.status === 'active' && <PlanUpgradePanel />}
+        </div>
+
+        {/* Wallet & Withdrawals */}
+        <div className="mb-8">
+          <WithdrawalPanel />
+        </div>
+
         {/* Binary Tree Visualization */}
         <Card>
           <CardHeader>
@@ -292,11 +371,25 @@ export default function ClientDashboard() {
           <DialogHeader>
             <DialogTitle>Add Downline Client</DialogTitle>
             <DialogDescription>
-              Add a new client to your {selectedPosition} downline position.
+              Register a new client in your {selectedPosition} downline position. They join once the plan payment is confirmed.
             </DialogDescription>
           </DialogHeader>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter full name" {...field} data-testid="input-downline-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="username"
@@ -327,7 +420,35 @@ export default function ClientDashboard() {
 
               <FormField
                 control={form.control}
-                name="package"
+                name="mobile"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mobile Number</FormLabel>
+                    <FormControl>
+                      <Input maxLength={10} placeholder="Enter 10-digit mobile number" {...field} data-testid="input-downline-mobile" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email Address</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="Enter email address" {...field} data-testid="input-downline-email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="planId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Package</FormLabel>
@@ -338,11 +459,20 @@ export default function ClientDashboard() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Silver">Silver</SelectItem>
-                        <SelectItem value="Gold">Gold</SelectItem>
-                        <SelectItem value="Diamond">Diamond</SelectItem>
+                        {plans.map((plan) => (
+                          <SelectItem key={plan.id} value={plan.id}>
+                            {plan.name} - {formatAmount(plan.price, plan.currency)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {selectedPlan && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-downline-plan-terms">
+                        {selectedPlan.businessVolume} BV • Referral {formatAmount(selectedPlan.referralCommission, selectedPlan.currency)} • Pair {formatAmount(selectedPlan.treeCommission, selectedPlan.currency)}
+                        {selectedPlan.levelIncome.length > 0 && <> • Levels {describeLevelIncome(selectedPlan.levelIncome, selectedPlan.currency)}</>}
+                        {selectedPlan.validityDays > 0 && <> • Valid {selectedPlan.validityDays} days</>}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
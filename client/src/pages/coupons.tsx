@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { insertCouponSchema, couponDiscountTypes, commissionBases, Coupon, CouponDetails, InsertCoupon, UpdateCoupon, Plan } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { formatAmount, toMinorUnits } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, ArrowLeft } from "lucide-react";
+import { Link } from "wouter";
+
+// Flat discounts are entered in major units; dates come from datetime-local inputs and are blank for no limit
+const couponFormSchema = insertCouponSchema.extend({
+  description: z.string().max(200),
+  discountType: z.enum(couponDiscountTypes),
+  discountValue: z.coerce.number().positive("Discount must be positive"),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code such as INR"),
+  planIds: z.array(z.string()),
+  validFrom: z.string(),
+  validUntil: z.string(),
+  maxUses: z.coerce.number().int("Enter a whole number").nonnegative("Usage limit cannot be negative"),
+  commissionBasis: z.enum(commissionBases),
+});
+type CouponFormValues = z.infer<typeof couponFormSchema>;
+
+const emptyCoupon: CouponFormValues = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: 10,
+  currency: "INR",
+  planIds: [],
+  validFrom: "",
+  validUntil: "",
+  maxUses: 0,
+  commissionBasis: "list",
+};
+
+function toLocalInput(date: Date | string | null) {
+  if (!date) return "";
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function toCouponData(values: CouponFormValues): InsertCoupon {
+  return {
+    ...values,
+    description: values.description || null,
+    currency: values.currency.toUpperCase(),
+    discountValue: values.discountType === "flat" ? toMinorUnits(values.discountValue) : values.discountValue,
+    validFrom: values.validFrom ? new Date(values.validFrom) : null,
+    validUntil: values.validUntil ? new Date(values.validUntil) : null,
+  };
+}
+
+function toFormValues(coupon: Coupon): CouponFormValues {
+  return {
+    code: coupon.code,
+    description: coupon.description || "",
+    discountType: coupon.discountType as CouponFormValues["discountType"],
+    discountValue: coupon.discountType === "flat" ? coupon.discountValue / 100 : coupon.discountValue,
+    currency: coupon.currency,
+    planIds: coupon.planIds,
+    validFrom: toLocalInput(coupon.validFrom),
+    validUntil: toLocalInput(coupon.validUntil),
+    maxUses: coupon.maxUses,
+    commissionBasis: coupon.commissionBasis as CouponFormValues["commissionBasis"],
+  };
+}
+
+function describeDiscount(coupon: Coupon) {
+  return coupon.discountType === "percent"
+    ? `${coupon.discountValue}% off`
+    : `${formatAmount(coupon.discountValue, coupon.currency)} off`;
+}
+
+function describeValidity(coupon: Coupon) {
+  const format = (date: Date | string) => new Date(date).toLocaleString('en-IN');
+  if (!coupon.validFrom && !coupon.validUntil) return "Always";
+  if (!coupon.validFrom) return `Until ${format(coupon.validUntil!)}`;
+  if (!coupon.validUntil) return `From ${format(coupon.validFrom)}`;
+  return `${format(coupon.validFrom)} – ${format(coupon.validUntil)}`;
+}
+
+export default function CouponsPage() {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  // Coupons are managed with the plans
+  const canManageCoupons = hasPermission(user, 'plans.manage');
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  const { data: coupons, isLoading } = useQuery<CouponDetails[]>({
+    queryKey: ['/api/coupons'],
+  });
+
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ['/api/plans'],
+  });
+  const planNames = (coupon: Coupon) => coupon.planIds.length === 0
+    ? "All plans"
+    : coupon.planIds.map(id => plans.find(plan => plan.id === id)?.name ?? "Deleted plan").join(", ");
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: emptyCoupon,
+  });
+  const discountType = form.watch("discountType");
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingCoupon(null);
+    form.reset(emptyCoupon);
+  };
+
+  const saveCouponMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string, data: InsertCoupon }) => {
+      return id ? await apiRequest('PUT', `/api/coupons/${id}`, data) : await apiRequest('POST', '/api/coupons', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      toast({
+        title: editingCoupon ? "Coupon updated successfully" : "Coupon created successfully",
+        description: editingCoupon ? "Registrations that already used it keep their price." : "It can now be applied when adding a client.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save coupon",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateCouponMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string, data: UpdateCoupon }) => {
+      return await apiRequest('PUT', `/api/coupons/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update coupon",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteCouponMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/coupons/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      toast({
+        title: "Coupon deleted successfully",
+        description: "The coupon has been removed from the system.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete coupon",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    form.reset(toFormValues(coupon));
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (values: CouponFormValues) => {
+    saveCouponMutation.mutate({ id: editingCoupon?.id, data: toCouponData(values) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AdminSidebar />
+        <div className="lg:ml-64 transition-all duration-300 p-6">
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+                <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Coupons</h1>
+                  <p className="text-sm text-muted-foreground">Joining offers applied when a client is registered</p>
+                </div>
+              </div>
+              {canManageCoupons && (
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-coupon">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Coupon
+                </Button>
+              )}
+            </div>
+          </div>
+        </header>
+
+        {/* Coupons Table */}
+        <div className="p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Coupons</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {coupons?.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No coupons yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-3 px-4">Code</th>
+                        <th className="text-left py-3 px-4">Discount</th>
+                        <th className="text-left py-3 px-4">Plans</th>
+                        <th className="text-left py-3 px-4">Valid</th>
+                        <th className="text-left py-3 px-4">Uses</th>
+                        <th className="text-left py-3 px-4">Commissions On</th>
+                        <th className="text-left py-3 px-4">Status</th>
+                        <th className="text-left py-3 px-4">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {coupons?.map((coupon) => (
+                        <tr key={coupon.id} className="border-b hover:bg-muted/50" data-testid={`row-coupon-${coupon.id}`}>
+                          <td className="py-3 px-4">
+                            <div className="font-mono font-medium">{coupon.code}</div>
+                            {coupon.description && <div className="text-xs text-muted-foreground">{coupon.description}</div>}
+                          </td>
+                          <td className="py-3 px-4">{describeDiscount(coupon)}</td>
+                          <td className="py-3 px-4 text-sm">{planNames(coupon)}</td>
+                          <td className="py-3 px-4 text-sm">{describeValidity(coupon)}</td>
+                          <td className="py-3 px-4" data-testid={`text-coupon-uses-${coupon.id}`}>
+                            {coupon.uses}{coupon.maxUses > 0 && ` / ${coupon.maxUses}`}
+                          </td>
+                          <td className="py-3 px-4 text-sm">{coupon.commissionBasis === "net" ? "Price paid" : "List price"}</td>
+                          <td className="py-3 px-4">
+                            <Badge variant={coupon.status === 'active' ? 'default' : 'secondary'} data-testid={`status-coupon-${coupon.id}`}>
+                              {coupon.status === 'active' ? 'Enabled' : 'Disabled'}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-4">
+                            {canManageCoupons && (
+                              <div className="flex items-center space-x-2">
+                                <Button size="sm" variant="outline" onClick={() => handleEdit(coupon)} data-testid={`button-edit-${coupon.id}`}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateCouponMutation.mutate({ id: coupon.id, data: { status: coupon.status === 'active' ? 'disabled' : 'active' } })}
+                                  data-testid={`button-toggle-${coupon.id}`}
+                                >
+                                  {coupon.status === 'active' ? 'Disable' : 'Enable'}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => deleteCouponMutation.mutate(coupon.id)}
+                                  disabled={deleteCouponMutation.isPending}
+                                  data-testid={`button-delete-${coupon.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Add / Edit Coupon Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCoupon ? "Edit Coupon" : "Add Coupon"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., DIWALI25" {...field} onChange={(e) => field.onChange(e.target.value.toUpperCase())} data-testid="input-coupon-code" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional, shown when the coupon is applied" {...field} data-testid="input-coupon-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="discountType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Discount</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-coupon-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="percent">Percentage</SelectItem>
+                          <SelectItem value="flat">Flat amount</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="discountValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{discountType === "percent" ? "Percent Off" : "Amount Off"}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={discountType === "percent" ? "1" : "0.01"} min={0} {...field} data-testid="input-coupon-value" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {discountType === "flat" && (
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="INR" maxLength={3} {...field} data-testid="input-coupon-currency" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="planIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plans</FormLabel>
+                    <p className="text-xs text-muted-foreground">Leave all unticked to allow every plan.</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {plans.filter(plan => plan.status !== 'archived' || field.value.includes(plan.id)).map(plan => (
+                        <label key={plan.id} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(plan.id)}
+                            onCheckedChange={(checked) => field.onChange(checked
+                              ? [...field.value, plan.id]
+                              : field.value.filter(id => id !== plan.id))}
+                            data-testid={`checkbox-coupon-plan-${plan.id}`}
+                          />
+                          <span>{plan.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="validFrom"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid From</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} data-testid="input-coupon-valid-from" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="validUntil"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid Until</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} data-testid="input-coupon-valid-until" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usage Limit</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min={0} {...field} data-testid="input-coupon-max-uses" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">Registrations that can use it; 0 for no limit. Expired registrations give their use back.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="commissionBasis"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pay Commissions On</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-coupon-commission-basis">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="list">The plan's list price</SelectItem>
+                        <SelectItem value="net">The discounted price paid</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveCouponMutation.isPending} data-testid="button-save-coupon">
+                  {saveCouponMutation.isPending ? "Saving..." : editingCoupon ? "Update Coupon" : "Create Coupon"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, Link } from "wouter";
+import { DepositDetails } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { DepositStatusBadge } from "@/components/deposit-status-badge";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { ArrowLeft, FileText, CheckCircle, XCircle } from "lucide-react";
+
+export default function DepositsPage() {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  // Without finance.manage the review buttons are hidden
+  const canReview = hasPermission(user, 'finance.manage');
+  const queryClient = useQueryClient();
+  const [location] = useLocation();
+  const [rejecting, setRejecting] = useState<DepositDetails | null>(null);
+  const [reason, setReason] = useState("");
+
+  // Determine status filter based on route
+  const statusFilter = useMemo(() => {
+    if (location.endsWith('/pending')) return 'pending';
+    if (location.endsWith('/approved')) return 'approved';
+    return null;
+  }, [location]);
+
+  const { data: deposits = [], isLoading } = useQuery<DepositDetails[]>({
+    queryKey: ['/api/deposits'],
+    refetchInterval: 10000,
+  });
+
+  const visibleDeposits = statusFilter
+    ? deposits.filter(d => d.status === statusFilter)
+    : deposits;
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, type, body }: { id: string; type: "approve" | "reject"; body?: unknown }) => {
+      return await apiRequest('POST', `/api/deposits/${id}/${type}`, body);
+    },
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deposits'] });
+      // Approval activates the client or completes the upgrade or renewal the deposit was recorded for
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/upgrades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/renewals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      setRejecting(null);
+      setReason("");
+      toast({
+        title: type === "approve" ? "Deposit approved" : "Deposit rejected",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update deposit",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const pageTitle = statusFilter === 'pending'
+    ? 'Pending Deposits'
+    : statusFilter === 'approved'
+      ? 'Approved Deposits'
+      : 'All Deposits';
+
+  const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+              <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground" data-testid="text-page-title">{pageTitle}</h1>
+                <p className="text-sm text-muted-foreground">Reconcile UPI payments against your bank statement</p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FileText className="h-5 w-5 mr-2" />
+                Deposit Records
+              </CardTitle>
+              <CardDescription>
+                {visibleDeposits.length} deposit{visibleDeposits.length === 1 ? '' : 's'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : visibleDeposits.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No deposits recorded.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Recorded</TableHead>
+                        <TableHead>UPI Reference</TableHead>
+                        <TableHead>Payer</TableHead>
+                        <TableHead>Plan</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Client</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleDeposits.map((deposit) => (
+                        <TableRow key={deposit.id} data-testid={`row-deposit-${deposit.id}`}>
+                          <TableCell className="text-sm">{formatDate(deposit.createdAt)}</TableCell>
+                          <TableCell className="font-mono text-sm">{deposit.upiTransactionRef}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{deposit.payerName}</div>
+                            {deposit.payerVpa && (
+                              <div className="text-xs text-muted-foreground">{deposit.payerVpa}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {deposit.plan}
+                            {deposit.upgradeId && (
+                              <div className="text-xs text-muted-foreground">Upgrade</div>
+                            )}
+                            {deposit.renewalId && (
+                              <div className="text-xs text-muted-foreground">Renewal</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">{formatAmount(deposit.amount)}</TableCell>
+                          <TableCell className="text-sm">
+                            {deposit.client ? (
+                              <>
+                                <div>@{deposit.client.username}</div>
+                                {deposit.client.paymentReference && (
+                                  <div className="text-xs font-mono text-muted-foreground">{deposit.client.paymentReference}</div>
+                                )}
+                                {deposit.client.status === 'pending_payment' && (
+                                  <div className="text-xs text-muted-foreground">Awaiting activation</div>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">Registration expired</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <DepositStatusBadge status={deposit.status} />
+                            {deposit.status === 'rejected' && deposit.rejectionReason && (
+                              <div className="text-xs text-muted-foreground mt-1">{deposit.rejectionReason}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {canReview && deposit.status === 'pending' && (
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => reviewMutation.mutate({ id: deposit.id, type: "approve" })}
+                                  disabled={reviewMutation.isPending}
+                                  data-testid={`button-approve-deposit-${deposit.id}`}
+                                >
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setRejecting(deposit)}
+                                  data-testid={`button-reject-deposit-${deposit.id}`}
+                                >
+                                  <XCircle className="h-4 w-4 mr-1" />
+                                  Reject
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setReason(""); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Deposit</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${formatAmount(rejecting.amount)} from ${rejecting.payerName} (${rejecting.upiTransactionRef})`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="deposit-reject-reason">Reason for rejection</Label>
+            <Input
+              id="deposit-reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-deposit-reject-reason"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewMutation.mutate({ id: rejecting.id, type: "reject", body: { reason } })}
+              disabled={reviewMutation.isPending || reason.trim().length < 3}
+              data-testid="button-confirm-deposit-reject"
+            >
+              Reject
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,10 +2,10 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { LoginRequest, loginSchema } from "@shared/schema";
+import { LoginRequest, loginSchema, otpLength } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { setAuthUser } from "@/lib/auth";
+import { AuthUser, setAuthUser } from "@/lib/auth";
 import { useAuthStore } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,11 +13,18 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ForgotPasswordForm } from "@/components/forgot-password-form";
+import { OtpCodeInput } from "@/components/otp-code-input";
 import { Network } from "lucide-react";
 import logoPath from "@assets/logo_1755178929997.png";
 
 export default function LoginPage() {
   const [role, setRole] = useState<"admin" | "client">("admin");
+  const [forgotPassword, setForgotPassword] = useState(false);
+  // Set once the password is accepted for an admin with an authenticator app
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [secondFactorCode, setSecondFactorCode] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { setUser, setInitialized } = useAuthStore();
@@ -31,30 +38,65 @@ export default function LoginPage() {
     },
   });
 
+  const completeLogin = (user: AuthUser) => {
+    setAuthUser(user);
+    setUser(user);
+    setInitialized(true);
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+    toast({
+      title: "Welcome!",
+      description: `Successfully logged in as ${user.role}`,
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginRequest) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
-      return response.json();
+      // Admins with an authenticator app get the second step instead of the user
+      return await response.json() as AuthUser | { twoFactorRequired: true };
     },
-    onSuccess: (user) => {
-      setAuthUser(user);
-      setUser(user);
-      setInitialized(true);
-      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    onSuccess: (result) => {
+      if ("twoFactorRequired" in result) {
+        setTwoFactorStep(true);
+        setSecondFactorCode("");
+        return;
+      }
+      completeLogin(result);
+    },
+    onError: (error: any) => {
       toast({
-        title: "Welcome!",
-        description: `Successfully logged in as ${user.role}`,
+        title: "Login Failed",
+        description: error.message || "Invalid credentials",
+        variant: "destructive",
       });
     },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/login/verify", { code });
+      return await response.json() as AuthUser;
+    },
+    onSuccess: completeLogin,
     onError: (error: any) => {
+      setSecondFactorCode("");
       toast({
         title: "Login Failed",
-        description: error.message || "Invalid credentials",
+        description: error.message || "Invalid code",
         variant: "destructive",
       });
     },
   });
 
+  // The server drops the pending login on expiry, so going back means entering the password again
+  const cancelTwoFactor = () => {
+    setTwoFactorStep(false);
+    setUseBackupCode(false);
+    setSecondFactorCode("");
+    form.setValue("password", "");
+  };
+
   const onSubmit = (data: LoginRequest) => {
     loginMutation.mutate({ ...data, role });
   };
@@ -78,107 +120,194 @@ export default function LoginPage() {
               className="h-20 w-20 mx-auto rounded-full shadow-lg"
             />
           </div>
-          <CardTitle className="text-3xl font-bold text-slate-900">Sign In</CardTitle>
-          <CardDescription>Access your Napping Hand Academy management dashboard</CardDescription>
+          <CardTitle className="text-3xl font-bold text-slate-900">
+            {forgotPassword ? "Reset Password" : twoFactorStep ? "Two-Factor Authentication" : "Sign In"}
+          </CardTitle>
+          <CardDescription>
+            {forgotPassword
+              ? "Choose a new password using a code sent to you"
+              : twoFactorStep
+                ? useBackupCode
+                  ? "Enter one of your backup codes"
+                  : "Enter the code from your authenticator app"
+                : "Access your Napping Hand Academy management dashboard"}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          {/* Role Toggle */}
-          <div className="flex justify-center mb-6">
-            <div className="bg-slate-100 p-1 rounded-lg flex">
-              <Button
-                type="button"
-                variant={role === "client" ? "default" : "ghost"}
-                size="sm"
-                onClick={() => handleRoleChange("client")}
-                className={role === "client" ? "bg-primary text-white" : "text-slate-600"}
-                data-testid="button-client-toggle"
-              >
-                Client Login
-              </Button>
-              <Button
-                type="button"
-                variant={role === "admin" ? "default" : "ghost"}
-                size="sm"
-                onClick={() => handleRoleChange("admin")}
-                className={role === "admin" ? "bg-primary text-white" : "text-slate-600"}
-                data-testid="button-admin-toggle"
-              >
-                Admin Login
-              </Button>
-            </div>
-          </div>
-
-          {/* Admin Credentials Helper */}
-          {role === "admin" && (
-            <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
-              <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
-                <strong>Default Admin Credentials:</strong>
-              </p>
-              <p className="text-xs text-blue-600 dark:text-blue-300">
-                Username: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin</code><br />
-                Password: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin123</code>
-              </p>
-            </div>
-          )}
-
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Enter your username"
-                        {...field}
-                        data-testid="input-username"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="password"
-                        placeholder="Enter your password"
-                        {...field}
-                        data-testid="input-password"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {forgotPassword ? (
+            <ForgotPasswordForm onDone={() => setForgotPassword(false)} />
+          ) : twoFactorStep ? (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                verifyMutation.mutate(secondFactorCode);
+              }}
+              className="space-y-6"
+            >
+              {useBackupCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="backup-code">Backup Code</Label>
+                  <Input
+                    id="backup-code"
+                    placeholder="abcd-efgh"
+                    autoComplete="off"
+                    value={secondFactorCode}
+                    onChange={(event) => setSecondFactorCode(event.target.value)}
+                    data-testid="input-backup-code"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <OtpCodeInput
+                    value={secondFactorCode}
+                    onChange={setSecondFactorCode}
+                    disabled={verifyMutation.isPending}
+                    data-testid="input-2fa-code"
+                  />
+                </div>
+              )}
 
               <Button
                 type="submit"
                 className="w-full"
-                disabled={loginMutation.isPending}
-                data-testid="button-login"
+                disabled={verifyMutation.isPending || (useBackupCode ? !secondFactorCode.trim() : secondFactorCode.length !== otpLength)}
+                data-testid="button-verify-2fa"
               >
-                {loginMutation.isPending ? (
-                  <>
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                    Signing in...
-                  </>
-                ) : (
-                  <>
-                    Sign In as {role === "admin" ? "Admin" : "Client"}
-                  </>
-                )}
+                {verifyMutation.isPending ? "Verifying..." : "Verify"}
               </Button>
+
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setSecondFactorCode("");
+                  }}
+                  data-testid="button-toggle-backup-code"
+                >
+                  {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={cancelTwoFactor} data-testid="button-cancel-2fa">
+                  Back to Sign In
+                </Button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <>
+              {/* Role Toggle */}
+              <div className="flex justify-center mb-6">
+                <div className="bg-slate-100 p-1 rounded-lg flex">
+                  <Button
+                    type="button"
+                    variant={role === "client" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => handleRoleChange("client")}
+                    className={role === "client" ? "bg-primary text-white" : "text-slate-600"}
+                    data-testid="button-client-toggle"
+                  >
+                    Client Login
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={role === "admin" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => handleRoleChange("admin")}
+                    className={role === "admin" ? "bg-primary text-white" : "text-slate-600"}
+                    data-testid="button-admin-toggle"
+                  >
+                    Admin Login
+                  </Button>
+                </div>
+              </div>
+
+              {/* Admin Credentials Helper */}
+              {role === "admin" && (
+                <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                  <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
+                    <strong>Default Admin Credentials:</strong>
+                  </p>
+                  <p className="text-xs text-blue-600 dark:text-blue-300">
+                    Username: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin</code><br />
+                    Password: <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">admin123</code><br />
+                    You will be asked to choose a new password after signing in.
+                  </p>
+                </div>
+              )}
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Enter your username"
+                            {...field}
+                            data-testid="input-username"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+              
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="Enter your password"
+                            {...field}
+                            data-testid="input-password"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={loginMutation.isPending}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                        Signing in...
+                      </>
+                    ) : (
+                      <>
+                        Sign In as {role === "admin" ? "Admin" : "Client"}
+                      </>
+                    )}
+                  </Button>
+
+                  <div className="text-center">
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      onClick={() => setForgotPassword(true)}
+                      data-testid="button-forgot-password"
+                    >
+                      Forgot password?
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,6 +1,9 @@
 import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { User, Earning, Plan, WalletStatement, CapReason, LockedAccount, PasswordReset } from "@shared/schema";
+import { formatAmount } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,17 +14,30 @@ import { AdminSidebar } from "@/components/admin-sidebar";
 import { PackageBadge } from "@/components/package-badge";
 import { BinaryTreeView } from "@/components/binary-tree-view";
 import { ReportsPanel } from "@/components/reports-panel";
+import { PlanUpgradePanel } from "@/components/plan-upgrade-panel";
+import { PlanRenewalPanel } from "@/components/plan-renewal-panel";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Users, Search, Eye, UserPlus, Phone, Mail, Calendar, Network, BarChart3, TrendingUp, Share2, DollarSign } from "lucide-react";
+import { Users, Search, Eye, UserPlus, Phone, Mail, Calendar, Network, BarChart3, TrendingUp, Share2, DollarSign, Lock, Unlock, KeyRound, ShieldCheck } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuthStore } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/auth";
+
+const capReasonLabels: Record<CapReason, string> = {
+  daily_pair_cap: "Daily pair cap",
+  weekly_cap: "Weekly cap",
+  monthly_cap: "Monthly cap",
+  lifetime_cap: "Lifetime cap",
+};
 
 export default function ManageUsers() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [passwordReset, setPasswordReset] = useState<PasswordReset | null>(null);
   const { user: currentUser } = useAuthStore();
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Determine active tab based on route
   const activeTab = useMemo(() => {
@@ -39,7 +55,68 @@ export default function ManageUsers() {
     refetchInterval: 5000, // Auto-refresh every 5 seconds to show new clients
   });
 
+  // Commission credits (admins receive all, clients only their own)
+  const { data: earnings = [] } = useQuery<Earning[]>({
+    queryKey: ['/api/earnings'],
+  });
+
+  // Plan records supply the prices used in the reports
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ['/api/plans'],
+  });
+
   const isAdmin = currentUser?.role === 'admin';
+  // Support and finance roles see clients without the buttons that change them
+  const canManageClients = hasPermission(currentUser, 'clients.manage');
+
+  // Accounts locked out after repeated failed logins
+  const { data: lockedAccounts = [] } = useQuery<LockedAccount[]>({
+    queryKey: ['/api/users/locked'],
+    enabled: isAdmin,
+    refetchInterval: 30000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/locked'] });
+      toast({ title: "Account unlocked" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to unlock account",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/users/${id}/reset-password`);
+      return await response.json() as PasswordReset;
+    },
+    onSuccess: (reset) => {
+      setPasswordReset(reset);
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/locked'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to reset password",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Wallet statement of the user shown in the detail dialog
+  const { data: statement, isLoading: statementLoading } = useQuery<WalletStatement>({
+    queryKey: ['/api/clients', selectedUser?.id, 'statement'],
+    enabled: isAdmin && isDetailOpen && !!selectedUser,
+  });
 
   // Filter users based on access level
   const getRelevantUsers = (): User[] => {
@@ -66,6 +143,9 @@ export default function ManageUsers() {
 
   const relevantUsers = getRelevantUsers();
 
+  // Members on any plan above the cheapest one count as premium
+  const entryPlan = plans.reduce<Plan | undefined>((cheapest, plan) => !cheapest || plan.price < cheapest.price ? plan : cheapest, undefined);
+
   // Filter users based on search term
   const filteredClients = relevantUsers.filter(client => 
     client.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -82,9 +162,27 @@ export default function ManageUsers() {
 
   const handleViewDetails = (user: User) => {
     setSelectedUser(user);
+    setPasswordReset(null);
     setIsDetailOpen(true);
   };
 
+  const totalEarnings = earnings.reduce((sum, e) => sum + e.amount, 0);
+  const now = new Date();
+  const monthEarnings = earnings
+    .filter(e => {
+      const createdAt = new Date(e.createdAt);
+      return createdAt.getMonth() === now.getMonth() && createdAt.getFullYear() === now.getFullYear();
+    })
+    .reduce((sum, e) => sum + e.amount, 0);
+  const recentEarnings = [...earnings]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, 20);
+
+  const getUserName = (userId: string | null) => {
+    const user = clients.find(c => c.id === userId);
+    return user ? (user.name || user.username) : "Unknown";
+  };
+
   const formatDate = (date: Date | string) => {
     const dateObj = typeof date === 'string' ? new Date(date) : date;
     return dateObj.toLocaleDateString('en-IN', {
@@ -118,7 +216,7 @@ export default function ManageUsers() {
                   {relevantUsers.length} Total {isAdmin ? 'Clients' : 'Network Members'}
                 </Badge>
               </div>
-              {isAdmin && (
+              {canManageClients && (
                 <Link href="/admin/add-client">
                   <Button data-testid="button-add-new-client">
                     <UserPlus className="h-4 w-4 mr-2" />
@@ -160,6 +258,70 @@ export default function ManageUsers() {
             </TabsList>
 
             <TabsContent value="users" className="space-y-4">
+              {isAdmin && lockedAccounts.length > 0 && (
+                <Card data-testid="card-locked-accounts">
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Lock className="h-5 w-5 mr-2" />
+                      Locked Accounts
+                    </CardTitle>
+                    <CardDescription>
+                      Locked after repeated failed sign-ins; they unlock by themselves when the lockout ends
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>User</TableHead>
+                            <TableHead>Failed Attempts</TableHead>
+                            <TableHead>Last Attempt</TableHead>
+                            <TableHead>Locked Until</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lockedAccounts.map((account) => (
+                            <TableRow key={account.id} data-testid={`row-locked-${account.id}`}>
+                              <TableCell>
+                                <div className="font-medium text-foreground">{account.name || account.username}</div>
+                                <div className="text-sm text-muted-foreground">
+                                  @{account.username}
+                                  {account.role === 'admin' && <Badge variant="outline" className="ml-2">Admin</Badge>}
+                                </div>
+                              </TableCell>
+                              <TableCell>{account.failedLoginCount}</TableCell>
+                              <TableCell className="text-sm">
+                                {account.lastFailedLoginAt ? formatDate(account.lastFailedLoginAt) : '—'}
+                                {account.lastIp && (
+                                  <div className="text-xs font-mono text-muted-foreground">{account.lastIp}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm">{formatDate(account.lockedUntil)}</TableCell>
+                              <TableCell className="text-right">
+                                {canManageClients && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => unlockMutation.mutate(account.id)}
+                                    disabled={unlockMutation.isPending}
+                                    data-testid={`button-unlock-${account.id}`}
+                                  >
+                                    <Unlock className="h-4 w-4 mr-1" />
+                                    Unlock
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* All Users Panel */}
               <Card>
                 <CardHeader>
@@ -216,7 +378,7 @@ export default function ManageUsers() {
                             : "Your network is empty. Start building your downline!"
                         }
                       </p>
-                      {!searchTerm && isAdmin && (
+                      {!searchTerm && canManageClients && (
                         <Link href="/admin/add-client">
                           <Button>
                             <UserPlus className="h-4 w-4 mr-2" />
@@ -275,12 +437,18 @@ export default function ManageUsers() {
                                     <div className="flex items-center text-sm text-muted-foreground">
                                       <Phone className="h-3 w-3 mr-1" />
                                       {client.mobile}
+                                      {client.mobileVerifiedAt && (
+                                        <ShieldCheck className="h-3 w-3 ml-1 text-green-600" aria-label="Verified" data-testid={`icon-mobile-verified-${client.id}`} />
+                                      )}
                                     </div>
                                   )}
                                 </div>
                               </TableCell>
                               <TableCell>
-                                <PackageBadge package={client.package || "Silver"} />
+                                <PackageBadge package={client.package} />
+                                {client.status === 'expired' && (
+                                  <Badge variant="destructive" className="ml-1 text-xs" data-testid={`badge-expired-${client.id}`}>Expired</Badge>
+                                )}
                               </TableCell>
                               <TableCell className="text-sm text-muted-foreground">
                                 {getParentName(client.parentId)}
@@ -338,6 +506,8 @@ export default function ManageUsers() {
                   users={clients} 
                   currentUser={currentUser} 
                   isAdmin={isAdmin} 
+                  earnings={earnings}
+                  plans={plans}
                 />
               )}
             </TabsContent>
@@ -361,7 +531,7 @@ export default function ManageUsers() {
                     </div>
                     <div className="text-center p-6 bg-muted/50 rounded-lg">
                       <div className="text-2xl font-bold text-green-600">
-                        {relevantUsers.filter(u => u.package === 'Gold' || u.package === 'Diamond').length}
+                        {relevantUsers.filter(u => u.planId && u.planId !== entryPlan?.id).length}
                       </div>
                       <div className="text-sm text-muted-foreground">Premium Members</div>
                     </div>
@@ -420,7 +590,7 @@ export default function ManageUsers() {
                                   <div className="text-sm text-muted-foreground">@{client.username}</div>
                                 </div>
                               </div>
-                              <PackageBadge package={client.package || 'Silver'} />
+                              <PackageBadge package={client.package} />
                             </div>
                           ))}
                         </div>
@@ -449,23 +619,55 @@ export default function ManageUsers() {
                 <CardContent>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <div className="text-center p-6 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                      <div className="text-2xl font-bold text-green-600">₹0</div>
+                      <div className="text-2xl font-bold text-green-600" data-testid="text-earnings-total">{formatAmount(totalEarnings)}</div>
                       <div className="text-sm text-muted-foreground">Total Earnings</div>
                     </div>
                     <div className="text-center p-6 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                      <div className="text-2xl font-bold text-blue-600">₹0</div>
+                      <div className="text-2xl font-bold text-blue-600" data-testid="text-earnings-month">{formatAmount(monthEarnings)}</div>
                       <div className="text-sm text-muted-foreground">This Month</div>
                     </div>
                     <div className="text-center p-6 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                      <div className="text-2xl font-bold text-purple-600">₹0</div>
-                      <div className="text-sm text-muted-foreground">Pending</div>
+                      <div className="text-2xl font-bold text-purple-600" data-testid="text-earnings-count">{earnings.length}</div>
+                      <div className="text-sm text-muted-foreground">Credits</div>
                     </div>
                   </div>
                   <div className="mt-6">
                     <h3 className="font-medium mb-4">Recent Transactions</h3>
-                    <div className="text-center py-8 text-muted-foreground">
-                      No earnings transactions yet. Earnings will appear here as your network grows.
-                    </div>
+                    {recentEarnings.length > 0 ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            {isAdmin && <TableHead>Earned By</TableHead>}
+                            <TableHead>Type</TableHead>
+                            <TableHead>From</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {recentEarnings.map((earning) => (
+                            <TableRow key={earning.id} data-testid={`row-earning-${earning.id}`}>
+                              <TableCell className="text-sm">{formatDate(earning.createdAt)}</TableCell>
+                              {isAdmin && <TableCell>{getUserName(earning.userId)}</TableCell>}
+                              <TableCell>
+                                <Badge variant="outline" className="capitalize">{earning.type}</Badge>
+                              </TableCell>
+                              <TableCell>{getUserName(earning.sourceUserId)}</TableCell>
+                              <TableCell className="text-right font-medium text-green-600">
+                                {formatAmount(earning.amount)}
+                                {earning.cappedAmount > 0 && (
+                                  <span className="block text-xs font-normal text-amber-600">{formatAmount(earning.cappedAmount)} capped</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <div className="text-center py-8 text-muted-foreground">
+                        No earnings transactions yet. Earnings will appear here as your network grows.
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -496,7 +698,10 @@ export default function ManageUsers() {
                     {selectedUser.name || selectedUser.username}
                   </h3>
                   <p className="text-muted-foreground">@{selectedUser.username}</p>
-                  <PackageBadge package={selectedUser.package || "Silver"} />
+                  <PackageBadge package={selectedUser.package} />
+                  {selectedUser.status === 'expired' && (
+                    <Badge variant="destructive" className="ml-1">Expired</Badge>
+                  )}
                 </div>
               </div>
 
@@ -539,6 +744,109 @@ export default function ManageUsers() {
                   </div>
                 </div>
               </div>
+
+              {isAdmin && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Wallet</h4>
+                    <span className="font-bold text-primary" data-testid="text-wallet-balance">
+                      {statement ? formatAmount(statement.balance) : '—'}
+                    </span>
+                  </div>
+                  {statementLoading ? (
+                    <div className="text-sm text-muted-foreground">Loading statement...</div>
+                  ) : statement && statement.entries.length > 0 ? (
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                      {statement.entries.map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between text-sm border-b py-1" data-testid={`row-ledger-${entry.id}`}>
+                          <div>
+                            <div className="capitalize">{entry.type}</div>
+                            <div className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</div>
+                          </div>
+                          <span className={entry.amount >= 0 ? "text-green-600" : "text-red-600"}>
+                            {entry.amount >= 0 ? '+' : '−'}{formatAmount(Math.abs(entry.amount))}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No wallet transactions yet.</div>
+                  )}
+                  {statement && statement.capped.total > 0 && (
+                    <div className="space-y-1 pt-2" data-testid="section-capped-income">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">Withheld by earnings caps</span>
+                        <span className="text-amber-600">{formatAmount(statement.capped.total)}</span>
+                      </div>
+                      {statement.capped.carriedForward > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatAmount(statement.capped.carriedForward)} carried forward, paid once the cap allows
+                        </div>
+                      )}
+                      <div className="max-h-32 overflow-y-auto space-y-1">
+                        {statement.capped.earnings.map((earning) => (
+                          <div key={earning.id} className="flex items-center justify-between text-sm border-b py-1" data-testid={`row-capped-${earning.id}`}>
+                            <div>
+                              <div>{earning.description || earning.type}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {capReasonLabels[earning.capReason as CapReason] ?? "Cap"} • {formatDate(earning.createdAt)}
+                              </div>
+                            </div>
+                            <span className="text-amber-600">
+                              {formatAmount(earning.cappedAmount)}
+                              {earning.carriedForward > 0 && <span className="block text-xs text-muted-foreground">{formatAmount(earning.carriedForward)} pending</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {canManageClients && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Password</h4>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resetPasswordMutation.mutate(selectedUser.id)}
+                      disabled={resetPasswordMutation.isPending}
+                      data-testid="button-reset-password"
+                    >
+                      <KeyRound className="h-4 w-4 mr-1" />
+                      Reset Password
+                    </Button>
+                  </div>
+                  {passwordReset?.user.id === selectedUser.id ? (
+                    <div className="rounded-lg border p-3 space-y-1" data-testid="section-temporary-password">
+                      <div className="text-sm">
+                        Temporary password: <code className="font-mono font-bold" data-testid="text-temporary-password">{passwordReset.temporaryPassword}</code>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Share it with the user now; it is not shown again. They must choose a new password when they sign in.
+                      </p>
+                    </div>
+                  ) : selectedUser.mustChangePassword && (
+                    <p className="text-sm text-muted-foreground">Must choose a new password at the next sign-in.</p>
+                  )}
+                </div>
+              )}
+
+              {canManageClients && selectedUser.role === 'client' && selectedUser.status === 'active' && (
+                <PlanUpgradePanel
+                  clientId={selectedUser.id}
+                  onRequested={(upgrade) => setLocation(`/admin/payment/upgrade/${upgrade.id}`)}
+                />
+              )}
+
+              {canManageClients && selectedUser.role === 'client' && selectedUser.status !== 'pending_payment' && (
+                <PlanRenewalPanel
+                  clientId={selectedUser.id}
+                  onRequested={(renewal) => setLocation(`/admin/payment/renewal/${renewal.id}`)}
+                />
+              )}
             </div>
           )}
         </DialogContent>
@@ -1,91 +1,254 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
-import { CreateClientRequest, PaymentConfirmationRequest, planPricing } from "@shared/schema";
+import { useLocation, useParams, useRoute } from "wouter";
+import { ClientRegistration, Deposit, PlanUpgradeDetails, PlanRenewalDetails, RecordDepositRequest, UpiPaymentRequest } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { AdminSidebar } from "@/components/admin-sidebar";
+import { DepositStatusBadge } from "@/components/deposit-status-badge";
+import { MobileVerificationPanel } from "@/components/mobile-verification-panel";
 import { useToast } from "@/hooks/use-toast";
+import { useAuthStore } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/auth";
 import { apiRequest } from "@/lib/queryClient";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { QrCode, CreditCard, ArrowLeft, CheckCircle, Clock } from "lucide-react";
+import { formatAmount } from "@/lib/utils";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { QrCode, CreditCard, ArrowLeft, CheckCircle, Clock, Receipt, TicketPercent, X } from "lucide-react";
 import { Link } from "wouter";
 
+const copy = {
+  registration: {
+    planLabel: "Selected Plan",
+    notFound: "Registration not found",
+    notFoundHint: "It may have expired. Please fill the client form again.",
+    backTo: "/admin/add-client",
+    success: "Client activated successfully!",
+    heading: "Client Activated Successfully!",
+    successHint: "The new client has been added to the system.",
+    failure: "Failed to activate client",
+    processing: "Activating client account and updating system.",
+    confirm: "Payment Received - Activate Account",
+  },
+  upgrade: {
+    planLabel: "Plan Upgrade",
+    notFound: "Upgrade not found",
+    notFoundHint: "It may have been cancelled.",
+    backTo: "/admin/users",
+    success: "Plan upgraded successfully!",
+    heading: "Plan Upgraded Successfully!",
+    successHint: "The client has been moved to the new plan.",
+    failure: "Failed to complete upgrade",
+    processing: "Upgrading the client's plan and updating system.",
+    confirm: "Payment Received - Upgrade Plan",
+  },
+  renewal: {
+    planLabel: "Plan Renewal",
+    notFound: "Renewal not found",
+    notFoundHint: "It may have been cancelled.",
+    backTo: "/admin/users",
+    success: "Plan renewed successfully!",
+    heading: "Plan Renewed Successfully!",
+    successHint: "The client's plan has been extended.",
+    failure: "Failed to complete renewal",
+    processing: "Renewing the client's plan and updating system.",
+    confirm: "Payment Received - Renew Plan",
+  },
+};
+
 export default function Payment() {
   const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const [isUpgrade] = useRoute('/admin/payment/upgrade/:id');
+  const [isRenewal] = useRoute('/admin/payment/renewal/:id');
+  const kind = isUpgrade ? 'upgrade' : isRenewal ? 'renewal' : 'registration';
+  const text = copy[kind];
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [clientData, setClientData] = useState<CreateClientRequest | null>(null);
-  const [paymentStep, setPaymentStep] = useState<'payment' | 'processing' | 'success'>('payment');
+  const { user } = useAuthStore();
+  // Coupons and mobile verification change the client; recording and confirming payments is for finance
+  const canManageClient = hasPermission(user, 'clients.manage');
+  const canTakePayments = hasPermission(user, 'finance.manage');
+  const [depositForm, setDepositForm] = useState({ upiTransactionRef: "", payerName: "", payerVpa: "" });
+  const [couponCode, setCouponCode] = useState("");
+
+  // New registrations, plan upgrades and renewals are paid the same way
+  const resource = { registration: '/api/registrations', upgrade: '/api/upgrades', renewal: '/api/renewals' }[kind];
+
+  // Poll while the payment is being reconciled so approval on the Deposits page shows up here
+  const { data: registration, error: registrationError } = useQuery<ClientRegistration>({
+    queryKey: ['/api/registrations', id],
+    enabled: kind === 'registration',
+    retry: false,
+    refetchInterval: (query) => query.state.data?.deposit?.status === 'pending' ? 5000 : false,
+  });
+
+  const { data: upgrade, error: upgradeError } = useQuery<PlanUpgradeDetails>({
+    queryKey: ['/api/upgrades', id],
+    enabled: !!isUpgrade,
+    retry: false,
+    refetchInterval: (query) => query.state.data?.deposit?.status === 'pending' ? 5000 : false,
+  });
+
+  const { data: renewal, error: renewalError } = useQuery<PlanRenewalDetails>({
+    queryKey: ['/api/renewals', id],
+    enabled: !!isRenewal,
+    retry: false,
+    refetchInterval: (query) => query.state.data?.deposit?.status === 'pending' ? 5000 : false,
+  });
+
+  const payment = isUpgrade
+    ? upgrade && upgrade.client && {
+        client: upgrade.client,
+        amount: upgrade.amount,
+        listPrice: upgrade.amount,
+        currency: upgrade.currency,
+        coupon: null,
+        deposit: upgrade.deposit,
+        planLabel: `${upgrade.fromPlanName} → ${upgrade.toPlanName}`,
+        planName: upgrade.toPlanName,
+        isPending: upgrade.status === 'pending_payment',
+        isComplete: upgrade.status === 'completed',
+        expiresAt: null,
+      }
+    : isRenewal
+    ? renewal && renewal.client && {
+        client: renewal.client,
+        amount: renewal.amount,
+        listPrice: renewal.amount,
+        currency: renewal.currency,
+        coupon: null,
+        deposit: renewal.deposit,
+        planLabel: `${renewal.planName} renewal`,
+        planName: renewal.planName,
+        isPending: renewal.status === 'pending_payment',
+        isComplete: renewal.status === 'completed',
+        expiresAt: null,
+      }
+    : registration && {
+        client: registration.client,
+        amount: registration.amount,
+        listPrice: registration.listPrice,
+        currency: registration.currency,
+        coupon: registration.coupon,
+        deposit: registration.deposit,
+        planLabel: registration.client.package || "",
+        planName: registration.client.package || "",
+        isPending: registration.client.status === 'pending_payment',
+        isComplete: registration.client.status === 'active',
+        expiresAt: registration.expiresAt,
+      };
+  const error = { registration: registrationError, upgrade: upgradeError, renewal: renewalError }[kind];
+
+  // QR code is generated server-side for the amount due and this payment's reference
+  const { data: upiRequest, error: upiError } = useQuery<UpiPaymentRequest>({
+    queryKey: [resource, id, 'upi'],
+    enabled: !!payment?.isPending,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: text.notFound,
+        description: text.notFoundHint,
+        variant: "destructive"
+      });
+      setLocation(text.backTo);
+    }
+  }, [error, text, setLocation, toast]);
+
+  const isActive = !!payment?.isComplete;
 
   useEffect(() => {
-    // Retrieve client data from sessionStorage
-    const pendingData = sessionStorage.getItem('pendingClientData');
-    if (!pendingData) {
+    if (!isActive) return;
+
+    queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/upgrades'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/renewals'] });
+
+    // Redirect to manage users after 3 seconds
+    const timeout = setTimeout(() => {
+      setLocation('/admin/users');
+    }, 3000);
+    return () => clearTimeout(timeout);
+  }, [isActive, queryClient, setLocation]);
+
+  const recordDepositMutation = useMutation({
+    mutationFn: async (depositData: RecordDepositRequest) => {
+      const response = await apiRequest('POST', '/api/deposits', depositData);
+      return await response.json() as Deposit;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [resource, id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deposits'] });
+      toast({
+        title: "Payment recorded",
+        description: "Confirm it once it appears in your bank statement.",
+      });
+    },
+    onError: (error: any) => {
       toast({
-        title: "No client data found",
-        description: "Please fill the client form first.",
+        title: "Failed to record payment",
+        description: error?.message || "Please check the transaction details.",
         variant: "destructive"
       });
-      setLocation('/admin/add-client');
-      return;
     }
+  });
 
-    try {
-      const data = JSON.parse(pendingData) as CreateClientRequest;
-      setClientData(data);
-    } catch (error) {
-      console.error('Error parsing client data:', error);
-      setLocation('/admin/add-client');
+  // Coupons change a registration's price until its payment is recorded; the QR code is regenerated for the new amount
+  const couponMutation = useMutation({
+    mutationFn: async (code: string | null) => {
+      const response = code
+        ? await apiRequest('POST', `/api/registrations/${id}/coupon`, { code })
+        : await apiRequest('DELETE', `/api/registrations/${id}/coupon`);
+      return await response.json() as ClientRegistration;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations', id] });
+      setCouponCode("");
+      toast({
+        title: updated.coupon ? "Coupon applied" : "Coupon removed",
+        description: `Amount to pay is now ${formatAmount(updated.amount, updated.currency)}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Coupon not applied",
+        description: error?.message || "Please check the code.",
+        variant: "destructive"
+      });
     }
-  }, [setLocation, toast]);
+  });
 
-  const createClientMutation = useMutation({
-    mutationFn: async (paymentData: PaymentConfirmationRequest) => {
-      return await apiRequest('POST', '/api/clients/create-with-payment', paymentData);
+  // Approving the deposit confirms the payment and activates the client or completes the upgrade or renewal
+  const confirmPaymentMutation = useMutation({
+    mutationFn: async (depositId: string) => {
+      return await apiRequest('POST', `/api/deposits/${depositId}/approve`);
     },
     onSuccess: () => {
-      setPaymentStep('success');
-      // Clear the pending client data
-      sessionStorage.removeItem('pendingClientData');
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: [resource, id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deposits'] });
       
       toast({
-        title: "Client created successfully!",
-        description: "The new client has been added to the system.",
+        title: text.success,
+        description: text.successHint,
       });
-
-      // Redirect to manage users after 3 seconds
-      setTimeout(() => {
-        setLocation('/admin/users');
-      }, 3000);
     },
     onError: (error: any) => {
-      console.error('Client creation error:', error);
+      console.error('Payment confirmation error:', error);
       toast({
-        title: "Failed to create client",
+        title: text.failure,
         description: error?.message || "Please try again.",
         variant: "destructive"
       });
-      setPaymentStep('payment');
     }
   });
 
-  const handlePaymentConfirmation = () => {
-    if (!clientData) return;
-
-    setPaymentStep('processing');
-    
-    const paymentData: PaymentConfirmationRequest = {
-      clientData,
-      paymentConfirmed: true
-    };
-
-    createClientMutation.mutate(paymentData);
-  };
-
-  if (!clientData) {
+  if (!payment) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -96,21 +259,23 @@ export default function Payment() {
     );
   }
 
-  const planAmount = planPricing[clientData.package];
-  
-  // Map plan names to QR code images
-  const getQRCodeImage = (packageName: string) => {
-    const qrCodeMap: Record<string, string> = {
-      Silver: "/images/510.png",
-      Gold: "/images/1010.png", 
-      Diamond: "/images/1510.png"
-    };
-    return qrCodeMap[packageName] || "/images/510.png";
+  const { client: clientData, deposit, planName: packageName, planLabel, coupon } = payment;
+  const planAmount = formatAmount(payment.amount, payment.currency);
+  const canChangeCoupon = canManageClient && kind === 'registration' && payment.isPending && (!deposit || deposit.status === 'rejected');
+
+  const handleRecordDeposit = () => {
+    recordDepositMutation.mutate({
+      clientId: clientData.id,
+      upgradeId: isUpgrade ? id : undefined,
+      renewalId: isRenewal ? id : undefined,
+      amount: payment.amount,
+      upiTransactionRef: depositForm.upiTransactionRef,
+      payerName: depositForm.payerName || clientData.name || clientData.username,
+      payerVpa: depositForm.payerVpa || undefined,
+    });
   };
-  
-  const qrCodeSrc = getQRCodeImage(clientData.package);
 
-  if (paymentStep === 'success') {
+  if (isActive) {
     return (
       <div className="min-h-screen bg-background">
         <AdminSidebar />
@@ -123,10 +288,14 @@ export default function Payment() {
                   <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
                 </div>
                 <h2 className="text-2xl font-bold text-foreground mb-2">
-                  Client Created Successfully!
+                  {text.heading}
                 </h2>
                 <p className="text-muted-foreground mb-4">
-                  {clientData.name} has been added to the system with {clientData.package} plan.
+                  {{
+                    registration: `${clientData.name} has been added to the system with ${packageName} plan.`,
+                    upgrade: `${clientData.name} has been moved to the ${packageName} plan.`,
+                    renewal: `${clientData.name}'s ${packageName} plan has been renewed.`,
+                  }[kind]}
                 </p>
                 <p className="text-sm text-muted-foreground mb-6">
                   Redirecting to Manage Users...
@@ -146,7 +315,7 @@ export default function Payment() {
     );
   }
 
-  if (paymentStep === 'processing') {
+  if (confirmPaymentMutation.isPending) {
     return (
       <div className="min-h-screen bg-background">
         <AdminSidebar />
@@ -162,7 +331,7 @@ export default function Payment() {
                   Processing Payment...
                 </h2>
                 <p className="text-muted-foreground">
-                  Creating client account and updating system.
+                  {text.processing}
                 </p>
               </CardContent>
             </Card>
@@ -183,7 +352,7 @@ export default function Payment() {
           <div className="px-6 py-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-4 lg:ml-0 ml-12">
-                <Link href="/admin/add-client" className="text-muted-foreground hover:text-foreground">
+                <Link href={text.backTo} className="text-muted-foreground hover:text-foreground">
                   <ArrowLeft className="h-5 w-5" />
                 </Link>
                 <h1 className="text-xl font-bold text-foreground" data-testid="text-page-title">
@@ -226,14 +395,65 @@ export default function Payment() {
                     <p className="text-foreground font-medium">{clientData.mobile}</p>
                   </div>
                 </div>
+
+                {/* New clients confirm their number with a code while the admin records the payment */}
+                {canManageClient && registration && kind === 'registration' && (
+                  <MobileVerificationPanel
+                    clientId={registration.client.id}
+                    mobile={registration.client.mobile}
+                    verifiedAt={registration.client.mobileVerifiedAt}
+                  />
+                )}
                 
                 <div className="border-t pt-4">
-                  <label className="text-sm font-medium text-muted-foreground">Selected Plan</label>
+                  <label className="text-sm font-medium text-muted-foreground">{text.planLabel}</label>
                   <div className="flex items-center justify-between mt-1">
-                    <span className="text-lg font-bold text-foreground">{clientData.package} Plan</span>
-                    <span className="text-2xl font-bold text-primary">₹{planAmount}</span>
+                    <span className="text-lg font-bold text-foreground">{planLabel} Plan</span>
+                    <span className="text-2xl font-bold text-primary">{planAmount}</span>
                   </div>
+                  {coupon && (
+                    <div className="flex items-center justify-between mt-1 text-sm text-muted-foreground" data-testid="text-coupon-discount">
+                      <span>
+                        List price {formatAmount(payment.listPrice, payment.currency)} • Coupon {coupon.code} −{formatAmount(coupon.discount, coupon.currency)}
+                      </span>
+                      {canChangeCoupon && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => couponMutation.mutate(null)}
+                          disabled={couponMutation.isPending}
+                          data-testid="button-remove-coupon"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
+
+                {canChangeCoupon && !coupon && (
+                  <div className="border-t pt-4 space-y-1">
+                    <Label htmlFor="coupon-code">Coupon Code</Label>
+                    <div className="flex space-x-2">
+                      <Input
+                        id="coupon-code"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                        placeholder="Optional"
+                        data-testid="input-coupon-code"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => couponMutation.mutate(couponCode)}
+                        disabled={!couponCode.trim() || couponMutation.isPending}
+                        data-testid="button-apply-coupon"
+                      >
+                        <TicketPercent className="h-4 w-4 mr-2" />
+                        {couponMutation.isPending ? "Applying..." : "Apply"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -253,24 +473,36 @@ export default function Payment() {
                 {/* QR Code Section */}
                 <div className="bg-muted/50 rounded-lg p-8">
                   <div className="mx-auto w-48 h-48 bg-white dark:bg-gray-100 rounded-lg flex items-center justify-center border-2 border-dashed border-muted-foreground/30 overflow-hidden">
-                    <img 
-                      src={qrCodeSrc} 
-                      alt={`QR Code for ${clientData.package} plan payment`}
-                      className="w-full h-full object-cover"
-                      data-testid={`img-qr-code-${clientData.package.toLowerCase()}`}
-                      onError={(e) => {
-                        // Fallback to placeholder if image fails to load
-                        e.currentTarget.style.display = 'none';
-                        e.currentTarget.nextElementSibling?.setAttribute('style', 'display: flex');
-                      }}
-                    />
-                    <div className="w-full h-full items-center justify-center hidden">
+                    {upiRequest ? (
+                      <img 
+                        src={upiRequest.qrCode} 
+                        alt={`QR Code for ${packageName} plan payment`}
+                        className="w-full h-full object-cover"
+                        data-testid={`img-qr-code-${packageName.toLowerCase()}`}
+                      />
+                    ) : (
                       <QrCode className="h-16 w-16 text-muted-foreground" />
-                    </div>
+                    )}
                   </div>
-                  <p className="text-sm text-muted-foreground mt-4" data-testid="text-qr-description">
-                    QR Code for ₹{planAmount} payment ({clientData.package} Plan)
-                  </p>
+                  {upiError ? (
+                    <p className="text-sm text-red-600 mt-4" data-testid="text-qr-error">
+                      {upiError.message}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground mt-4" data-testid="text-qr-description">
+                      QR Code for {planAmount} payment ({planLabel} Plan)
+                    </p>
+                  )}
+                  {upiRequest && (
+                    <>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Pay to {upiRequest.payeeVpa} • Reference <span className="font-mono" data-testid="text-payment-reference">{upiRequest.reference}</span>
+                      </p>
+                      <a href={upiRequest.uri} className="text-xs text-primary underline mt-1 inline-block lg:hidden">
+                        Open in UPI app
+                      </a>
+                    </>
+                  )}
                   <p className="text-xs text-muted-foreground mt-2">
                     Scan with any UPI app to make payment
                   </p>
@@ -279,8 +511,8 @@ export default function Payment() {
                 {/* Payment Amount */}
                 <div className="bg-primary/5 rounded-lg p-4 border border-primary/20">
                   <p className="text-sm text-muted-foreground">Amount to Pay</p>
-                  <p className="text-3xl font-bold text-primary">₹{planAmount}</p>
-                  <p className="text-sm text-muted-foreground">{clientData.package} Plan</p>
+                  <p className="text-3xl font-bold text-primary">{planAmount}</p>
+                  <p className="text-sm text-muted-foreground">{planLabel} Plan</p>
                 </div>
 
                 {/* Payment Instructions */}
@@ -288,35 +520,108 @@ export default function Payment() {
                   <h4 className="font-medium text-foreground">Payment Instructions:</h4>
                   <ul className="text-sm text-muted-foreground space-y-1">
                     <li>• Scan the QR code with any UPI app</li>
-                    <li>• Complete the payment of ₹{planAmount}</li>
-                    <li>• Click "Payment Done" after successful payment</li>
-                    <li>• Wait for confirmation and account creation</li>
+                    <li>• Complete the payment of {planAmount}</li>
+                    <li>• Record the UPI transaction reference below</li>
+                    <li>• Click "Payment Received" once it is in your bank statement</li>
+                    {kind === 'registration' && (
+                      <li>• Unpaid registrations expire{payment.expiresAt && ` on ${new Date(payment.expiresAt).toLocaleString('en-IN')}`}</li>
+                    )}
                   </ul>
                 </div>
 
+                {/* Deposit Record */}
+                {deposit && deposit.status !== 'rejected' ? (
+                  <div className="text-left rounded-lg border p-4 space-y-2" data-testid="card-deposit-status">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center font-medium text-foreground">
+                        <Receipt className="h-4 w-4 mr-2" />
+                        UPI Ref {deposit.upiTransactionRef}
+                      </span>
+                      <DepositStatusBadge status={deposit.status} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Also listed under <Link href="/admin/deposits/pending" className="text-primary underline">Pending Deposits</Link>.
+                    </p>
+                  </div>
+                ) : canTakePayments && (
+                  <div className="text-left space-y-3">
+                    {deposit?.status === 'rejected' && (
+                      <p className="text-xs text-red-600" data-testid="text-deposit-rejected">
+                        Payment {deposit.upiTransactionRef} was rejected: {deposit.rejectionReason}
+                      </p>
+                    )}
+                    <div className="space-y-1">
+                      <Label htmlFor="upi-transaction-ref">UPI Transaction Reference (UTR)</Label>
+                      <Input
+                        id="upi-transaction-ref"
+                        value={depositForm.upiTransactionRef}
+                        onChange={(e) => setDepositForm({ ...depositForm, upiTransactionRef: e.target.value })}
+                        placeholder="12-digit UTR from the payer's UPI app"
+                        data-testid="input-upi-transaction-ref"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="payer-name">Payer Name</Label>
+                        <Input
+                          id="payer-name"
+                          value={depositForm.payerName}
+                          onChange={(e) => setDepositForm({ ...depositForm, payerName: e.target.value })}
+                          placeholder={clientData.name || ""}
+                          data-testid="input-payer-name"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="payer-vpa">Payer UPI ID</Label>
+                        <Input
+                          id="payer-vpa"
+                          value={depositForm.payerVpa}
+                          onChange={(e) => setDepositForm({ ...depositForm, payerVpa: e.target.value })}
+                          placeholder="Optional"
+                          data-testid="input-payer-vpa"
+                        />
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={handleRecordDeposit}
+                      className="w-full"
+                      disabled={recordDepositMutation.isPending || depositForm.upiTransactionRef.trim().length < 6}
+                      data-testid="button-record-deposit"
+                    >
+                      <Receipt className="h-4 w-4 mr-2" />
+                      {recordDepositMutation.isPending ? "Recording..." : "Record Payment"}
+                    </Button>
+                  </div>
+                )}
+
                 {/* Payment Confirmation Button */}
-                <Button 
-                  onClick={handlePaymentConfirmation}
-                  className="w-full h-12 text-lg"
-                  disabled={createClientMutation.isPending}
-                  data-testid="button-confirm-payment"
-                >
-                  {createClientMutation.isPending ? (
-                    <>
-                      <Clock className="h-5 w-5 mr-2 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <CheckCircle className="h-5 w-5 mr-2" />
-                      Payment Done - Create Account
-                    </>
-                  )}
-                </Button>
+                {canTakePayments && (
+                  <>
+                    <Button 
+                      onClick={() => deposit && confirmPaymentMutation.mutate(deposit.id)}
+                      className="w-full h-12 text-lg"
+                      disabled={confirmPaymentMutation.isPending || deposit?.status !== 'pending'}
+                      data-testid="button-confirm-payment"
+                    >
+                      {confirmPaymentMutation.isPending ? (
+                        <>
+                          <Clock className="h-5 w-5 mr-2 animate-spin" />
+                          Processing...
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle className="h-5 w-5 mr-2" />
+                          {text.confirm}
+                        </>
+                      )}
+                    </Button>
 
-                <p className="text-xs text-muted-foreground">
-                  Click only after completing the payment successfully
-                </p>
+                    <p className="text-xs text-muted-foreground">
+                      Click only after the payment has reached the account
+                    </p>
+                  </>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -4,43 +4,256 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AdminSidebar } from "@/components/admin-sidebar";
 import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
-import { useForm } from "react-hook-form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm, useFieldArray, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertPlanSchema, updatePlanSchema, InsertPlan, UpdatePlan, Plan } from "@shared/schema";
+import { z } from "zod";
+import { insertPlanSchema, maxIncomeLevels, capOverflowModes, InsertPlan, UpdatePlan, Plan, PlanVersion, ClientStats } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { formatAmount, toMinorUnits, describeLevelIncome } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, ArrowLeft } from "lucide-react";
+import { Plus, Edit, Trash2, ArrowLeft, History, Archive, Users, X } from "lucide-react";
 import { Link } from "wouter";
 
+// Amounts are entered in major units (rupees) and converted to minor units before saving
+const planFormSchema = insertPlanSchema.extend({
+  price: z.coerce.number().nonnegative("Price cannot be negative"),
+  referralCommission: z.coerce.number().nonnegative("Commission cannot be negative"),
+  treeCommission: z.coerce.number().nonnegative("Commission cannot be negative"),
+  levelIncome: z.array(z.object({
+    type: z.enum(["percent", "fixed"]),
+    value: z.coerce.number().nonnegative("Level income cannot be negative"),
+  })).max(maxIncomeLevels),
+  dailyPairCap: z.coerce.number().int("Enter a whole number of pairs").nonnegative("Cap cannot be negative"),
+  weeklyIncomeCap: z.coerce.number().nonnegative("Cap cannot be negative"),
+  monthlyIncomeCap: z.coerce.number().nonnegative("Cap cannot be negative"),
+  lifetimeCapMultiple: z.coerce.number().nonnegative("Cap cannot be negative"),
+  capOverflow: z.enum(capOverflowModes),
+  validityDays: z.coerce.number().int("Enter a whole number of days").nonnegative("Validity cannot be negative"),
+});
+type PlanFormValues = z.infer<typeof planFormSchema>;
+
+function toPlanData<T extends Partial<PlanFormValues>>(values: T) {
+  return {
+    ...values,
+    currency: values.currency?.toUpperCase(),
+    price: values.price === undefined ? undefined : toMinorUnits(values.price),
+    referralCommission: values.referralCommission === undefined ? undefined : toMinorUnits(values.referralCommission),
+    treeCommission: values.treeCommission === undefined ? undefined : toMinorUnits(values.treeCommission),
+    levelIncome: values.levelIncome?.map(rule => rule.type === "fixed" ? { ...rule, value: toMinorUnits(rule.value) } : rule),
+    weeklyIncomeCap: values.weeklyIncomeCap === undefined ? undefined : toMinorUnits(values.weeklyIncomeCap),
+    monthlyIncomeCap: values.monthlyIncomeCap === undefined ? undefined : toMinorUnits(values.monthlyIncomeCap),
+  };
+}
+
+type PlanCaps = Pick<Plan, "dailyPairCap" | "weeklyIncomeCap" | "monthlyIncomeCap" | "lifetimeCapMultiple" | "capOverflow" | "currency">;
+
+function describeCaps(caps: PlanCaps) {
+  const parts = [
+    caps.dailyPairCap > 0 && `${caps.dailyPairCap} pairs/day`,
+    caps.weeklyIncomeCap > 0 && `${formatAmount(caps.weeklyIncomeCap, caps.currency)}/week`,
+    caps.monthlyIncomeCap > 0 && `${formatAmount(caps.monthlyIncomeCap, caps.currency)}/month`,
+    caps.lifetimeCapMultiple > 0 && `${caps.lifetimeCapMultiple}× price lifetime`,
+  ].filter(Boolean);
+  if (parts.length === 0) return "None";
+  return `${parts.join(" • ")} (${caps.capOverflow === "carry_forward" ? "excess carried forward" : "excess flushed"})`;
+}
+
+function describeValidity(days: number) {
+  return days > 0 ? `${days} day${days === 1 ? "" : "s"}` : "Lifetime";
+}
+
+// Length of a plan period; members stop earning when it lapses until they renew
+function ValidityField({ control }: { control: Control<PlanFormValues> }) {
+  return (
+    <FormField
+      control={control}
+      name="validityDays"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Validity (days)</FormLabel>
+          <FormControl>
+            <Input type="number" step="1" min={0} {...field} data-testid="input-plan-validity" />
+          </FormControl>
+          <p className="text-xs text-muted-foreground">Use 0 for a lifetime plan.</p>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Earnings caps; 0 leaves a cap off
+function CapFields({ control }: { control: Control<PlanFormValues> }) {
+  const numberField = (name: "dailyPairCap" | "weeklyIncomeCap" | "monthlyIncomeCap" | "lifetimeCapMultiple", label: string, step: string) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" step={step} min={0} {...field} data-testid={`input-plan-${name}`} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Earnings Caps</FormLabel>
+      <p className="text-xs text-muted-foreground">Use 0 for no cap.</p>
+      <div className="grid grid-cols-2 gap-2">
+        {numberField("dailyPairCap", "Pairs per Day", "1")}
+        {numberField("lifetimeCapMultiple", "Lifetime (× price)", "0.1")}
+        {numberField("weeklyIncomeCap", "Weekly Income", "0.01")}
+        {numberField("monthlyIncomeCap", "Monthly Income", "0.01")}
+      </div>
+      <FormField
+        control={control}
+        name="capOverflow"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Income Above a Cap</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger data-testid="select-plan-cap-overflow">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="flush">Flush</SelectItem>
+                <SelectItem value="carry_forward">Carry forward to the next period</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+// Editor for the plan's level table; level 1 is the new member's sponsor
+function LevelIncomeFields({ control }: { control: Control<PlanFormValues> }) {
+  const { fields, append, remove } = useFieldArray({ control, name: "levelIncome" });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Level Income</FormLabel>
+      <p className="text-xs text-muted-foreground">
+        Paid to each upline when a member activates: a percentage of the price or a fixed amount.
+      </p>
+      {fields.map((item, index) => (
+        <div key={item.id} className="flex items-start space-x-2" data-testid={`row-level-${index + 1}`}>
+          <span className="w-8 pt-2 text-sm text-muted-foreground">L{index + 1}</span>
+          <FormField
+            control={control}
+            name={`levelIncome.${index}.type`}
+            render={({ field }) => (
+              <FormItem className="w-32">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger data-testid={`select-level-type-${index + 1}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="percent">Percent</SelectItem>
+                    <SelectItem value="fixed">Fixed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`levelIncome.${index}.value`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input type="number" step="0.01" min={0} {...field} data-testid={`input-level-value-${index + 1}`} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" size="icon" variant="ghost" onClick={() => remove(index)} data-testid={`button-remove-level-${index + 1}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => append({ type: "percent", value: 0 })}
+        disabled={fields.length >= maxIncomeLevels}
+        data-testid="button-add-level"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Level
+      </Button>
+    </div>
+  );
+}
+
 export default function PlansPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  // Other roles see the plans read-only
+  const canManagePlans = hasPermission(user, 'plans.manage');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [historyPlan, setHistoryPlan] = useState<Plan | null>(null);
+  const [migratingPlan, setMigratingPlan] = useState<Plan | null>(null);
+  const [migrateToPlanId, setMigrateToPlanId] = useState("");
 
   const { data: plans, isLoading } = useQuery<Plan[]>({
     queryKey: ['/api/plans'],
   });
 
-  const addPlanForm = useForm<InsertPlan>({
-    resolver: zodResolver(insertPlanSchema),
+  const { data: stats } = useQuery<ClientStats>({
+    queryKey: ['/api/stats'],
+  });
+  const memberCount = (plan: Plan) => stats?.byPlan.find(entry => entry.planId === plan.id)?.count ?? 0;
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery<PlanVersion[]>({
+    queryKey: ['/api/plans', historyPlan?.id, 'versions'],
+    enabled: !!historyPlan,
+  });
+
+  const addPlanForm = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
     defaultValues: {
       name: "",
-      price: "",
+      price: 0,
+      currency: "INR",
       businessVolume: "",
-      referralCommission: "",
-      treeCommission: "",
+      referralCommission: 0,
+      treeCommission: 0,
+      levelIncome: [],
+      dailyPairCap: 0,
+      weeklyIncomeCap: 0,
+      monthlyIncomeCap: 0,
+      lifetimeCapMultiple: 0,
+      capOverflow: "flush",
+      validityDays: 0,
       status: "active"
     }
   });
 
-  const editPlanForm = useForm<UpdatePlan>({
-    resolver: zodResolver(updatePlanSchema),
-    defaultValues: {}
+  const editPlanForm = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
   });
 
   const addPlanMutation = useMutation({
@@ -75,7 +288,7 @@ export default function PlansPage() {
       editPlanForm.reset();
       toast({
         title: "Plan updated successfully",
-        description: "The plan details have been updated.",
+        description: "New terms apply to new sign-ups; existing members keep the terms they bought.",
       });
     },
     onError: (error: any) => {
@@ -107,6 +320,31 @@ export default function PlansPage() {
     }
   });
 
+  const migrateMembersMutation = useMutation({
+    mutationFn: async ({ id, toPlanId }: { id: string, toPlanId: string }) => {
+      const response = await apiRequest('POST', `/api/plans/${id}/migrate`, { toPlanId });
+      return await response.json() as { migrated: number };
+    },
+    onSuccess: ({ migrated }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      setMigratingPlan(null);
+      setMigrateToPlanId("");
+      toast({
+        title: "Members migrated",
+        description: `${migrated} member(s) moved to the new plan.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to migrate members",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
   const togglePlanStatus = async (plan: Plan) => {
     const newStatus = plan.status === 'active' ? 'disabled' : 'active';
     updatePlanMutation.mutate({
@@ -119,21 +357,28 @@ export default function PlansPage() {
     setEditingPlan(plan);
     editPlanForm.reset({
       name: plan.name,
-      price: plan.price,
+      price: plan.price / 100,
+      currency: plan.currency,
       businessVolume: plan.businessVolume,
-      referralCommission: plan.referralCommission,
-      treeCommission: plan.treeCommission,
-      status: plan.status
+      referralCommission: plan.referralCommission / 100,
+      treeCommission: plan.treeCommission / 100,
+      levelIncome: plan.levelIncome.map(rule => rule.type === "fixed" ? { ...rule, value: rule.value / 100 } : rule),
+      dailyPairCap: plan.dailyPairCap,
+      weeklyIncomeCap: plan.weeklyIncomeCap / 100,
+      monthlyIncomeCap: plan.monthlyIncomeCap / 100,
+      lifetimeCapMultiple: plan.lifetimeCapMultiple,
+      capOverflow: plan.capOverflow as PlanFormValues["capOverflow"],
+      validityDays: plan.validityDays,
     });
   };
 
-  const onAddSubmit = (data: InsertPlan) => {
-    addPlanMutation.mutate(data);
+  const onAddSubmit = (data: PlanFormValues) => {
+    addPlanMutation.mutate(toPlanData(data) as InsertPlan);
   };
 
-  const onEditSubmit = (data: UpdatePlan) => {
+  const onEditSubmit = (data: PlanFormValues) => {
     if (editingPlan) {
-      updatePlanMutation.mutate({ id: editingPlan.id, data });
+      updatePlanMutation.mutate({ id: editingPlan.id, data: toPlanData(data) });
     }
   };
 
@@ -168,96 +413,115 @@ export default function PlansPage() {
                   <p className="text-sm text-muted-foreground">Manage subscription plans and pricing</p>
                 </div>
               </div>
-              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button data-testid="button-add-plan">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add New Plan
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-md">
-                  <DialogHeader>
-                    <DialogTitle>Add New Plan</DialogTitle>
-                  </DialogHeader>
-                  <Form {...addPlanForm}>
-                    <form onSubmit={addPlanForm.handleSubmit(onAddSubmit)} className="space-y-4">
-                      <FormField
-                        control={addPlanForm.control}
-                        name="name"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Plan Name</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., Platinum" {...field} data-testid="input-plan-name" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={addPlanForm.control}
-                        name="price"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Price</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., ₹2000.00 INR" {...field} data-testid="input-plan-price" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={addPlanForm.control}
-                        name="businessVolume"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Business Volume (BV)</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., 400" {...field} data-testid="input-plan-bv" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={addPlanForm.control}
-                        name="referralCommission"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Referral Commission</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., ₹400.00 INR" {...field} data-testid="input-plan-referral" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={addPlanForm.control}
-                        name="treeCommission"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Tree Commission</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., ₹800.00 INR" {...field} data-testid="input-plan-tree" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <div className="flex justify-end space-x-2">
-                        <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                          Cancel
-                        </Button>
-                        <Button type="submit" disabled={addPlanMutation.isPending} data-testid="button-save-plan">
-                          {addPlanMutation.isPending ? "Creating..." : "Create Plan"}
-                        </Button>
-                      </div>
-                    </form>
-                  </Form>
-                </DialogContent>
-              </Dialog>
+              {canManagePlans && (
+                <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button data-testid="button-add-plan">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add New Plan
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Add New Plan</DialogTitle>
+                    </DialogHeader>
+                    <Form {...addPlanForm}>
+                      <form onSubmit={addPlanForm.handleSubmit(onAddSubmit)} className="space-y-4">
+                        <FormField
+                          control={addPlanForm.control}
+                          name="name"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Plan Name</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., Platinum" {...field} data-testid="input-plan-name" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={addPlanForm.control}
+                          name="price"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Price</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" min={0} placeholder="e.g., 2000" {...field} data-testid="input-plan-price" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={addPlanForm.control}
+                          name="currency"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Currency</FormLabel>
+                              <FormControl>
+                                <Input placeholder="INR" maxLength={3} {...field} data-testid="input-plan-currency" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={addPlanForm.control}
+                          name="businessVolume"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Business Volume (BV)</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., 400" {...field} data-testid="input-plan-bv" />
+                              </FormControl>
+                              <FormDescription>Added to each upline's leg volume for reporting; matched BV pays no income</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={addPlanForm.control}
+                          name="referralCommission"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Referral Commission</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" min={0} placeholder="e.g., 400" {...field} data-testid="input-plan-referral" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={addPlanForm.control}
+                          name="treeCommission"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tree Commission</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" min={0} placeholder="e.g., 800" {...field} data-testid="input-plan-tree" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <ValidityField control={addPlanForm.control} />
+                        <LevelIncomeFields control={addPlanForm.control} />
+                        <CapFields control={addPlanForm.control} />
+                        <div className="flex justify-end space-x-2">
+                          <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={addPlanMutation.isPending} data-testid="button-save-plan">
+                            {addPlanMutation.isPending ? "Creating..." : "Create Plan"}
+                          </Button>
+                        </div>
+                      </form>
+                    </Form>
+                  </DialogContent>
+                </Dialog>
+              )}
             </div>
           </div>
         </header>
@@ -278,50 +542,92 @@ export default function PlansPage() {
                       <th className="text-left py-3 px-4">Business Volume (BV)</th>
                       <th className="text-left py-3 px-4">Referral Commission</th>
                       <th className="text-left py-3 px-4">Tree Commission</th>
+                      <th className="text-left py-3 px-4">Level Income</th>
+                      <th className="text-left py-3 px-4">Caps</th>
+                      <th className="text-left py-3 px-4">Validity</th>
+                      <th className="text-left py-3 px-4">Members</th>
                       <th className="text-left py-3 px-4">Status</th>
                       <th className="text-left py-3 px-4">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
                     {plans?.map((plan) => (
-                      <tr key={plan.id} className="border-b hover:bg-muted/50" data-testid={`row-plan-${plan.id}`}>
+                      <tr key={plan.id} className={`border-b hover:bg-muted/50 ${plan.status === 'archived' ? 'text-muted-foreground' : ''}`} data-testid={`row-plan-${plan.id}`}>
                         <td className="py-3 px-4 font-medium" data-testid={`text-plan-name-${plan.id}`}>{plan.name}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-price-${plan.id}`}>{plan.price}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-price-${plan.id}`}>{formatAmount(plan.price, plan.currency)}</td>
                         <td className="py-3 px-4" data-testid={`text-plan-bv-${plan.id}`}>{plan.businessVolume}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-referral-${plan.id}`}>{plan.referralCommission}</td>
-                        <td className="py-3 px-4" data-testid={`text-plan-tree-${plan.id}`}>{plan.treeCommission}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-referral-${plan.id}`}>{formatAmount(plan.referralCommission, plan.currency)}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-tree-${plan.id}`}>{formatAmount(plan.treeCommission, plan.currency)}</td>
+                        <td className="py-3 px-4 text-sm" data-testid={`text-plan-levels-${plan.id}`}>{describeLevelIncome(plan.levelIncome, plan.currency)}</td>
+                        <td className="py-3 px-4 text-sm" data-testid={`text-plan-caps-${plan.id}`}>{describeCaps(plan)}</td>
+                        <td className="py-3 px-4 text-sm" data-testid={`text-plan-validity-${plan.id}`}>{describeValidity(plan.validityDays)}</td>
+                        <td className="py-3 px-4" data-testid={`text-plan-members-${plan.id}`}>{memberCount(plan)}</td>
                         <td className="py-3 px-4">
-                          <Badge variant={plan.status === 'active' ? 'default' : 'secondary'} data-testid={`status-plan-${plan.id}`}>
-                            {plan.status === 'active' ? 'Enabled' : 'Disabled'}
+                          <Badge variant={plan.status === 'active' ? 'default' : plan.status === 'archived' ? 'outline' : 'secondary'} data-testid={`status-plan-${plan.id}`}>
+                            {plan.status === 'active' ? 'Enabled' : plan.status === 'archived' ? 'Archived' : 'Disabled'}
                           </Badge>
                         </td>
                         <td className="py-3 px-4">
                           <div className="flex items-center space-x-2">
+                            {canManagePlans && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleEdit(plan)}
+                                data-testid={`button-edit-${plan.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => handleEdit(plan)}
-                              data-testid={`button-edit-${plan.id}`}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => togglePlanStatus(plan)}
-                              data-testid={`button-toggle-${plan.id}`}
+                              onClick={() => setHistoryPlan(plan)}
+                              data-testid={`button-history-${plan.id}`}
                             >
-                              {plan.status === 'active' ? 'Disable' : 'Enable'}
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => deletePlanMutation.mutate(plan.id)}
-                              disabled={deletePlanMutation.isPending}
-                              data-testid={`button-delete-${plan.id}`}
-                            >
-                              <Trash2 className="h-4 w-4" />
+                              <History className="h-4 w-4" />
                             </Button>
+                            {canManagePlans && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => togglePlanStatus(plan)}
+                                  data-testid={`button-toggle-${plan.id}`}
+                                >
+                                  {plan.status === 'active' ? 'Disable' : plan.status === 'archived' ? 'Restore' : 'Enable'}
+                                </Button>
+                                {plan.status !== 'archived' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => updatePlanMutation.mutate({ id: plan.id, data: { status: 'archived' } })}
+                                    title="Archive: hide from new sign-ups, keep for existing members"
+                                    data-testid={`button-archive-${plan.id}`}
+                                  >
+                                    <Archive className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setMigratingPlan(plan)}
+                                  title="Migrate members to another plan"
+                                  data-testid={`button-migrate-${plan.id}`}
+                                >
+                                  <Users className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => deletePlanMutation.mutate(plan.id)}
+                                  disabled={deletePlanMutation.isPending}
+                                  data-testid={`button-delete-${plan.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -336,7 +642,7 @@ export default function PlansPage() {
 
       {/* Edit Plan Dialog */}
       <Dialog open={!!editingPlan} onOpenChange={(open) => !open && setEditingPlan(null)}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Plan</DialogTitle>
           </DialogHeader>
@@ -362,7 +668,20 @@ export default function PlansPage() {
                   <FormItem>
                     <FormLabel>Price</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹2000.00 INR" {...field} data-testid="input-edit-plan-price" />
+                      <Input type="number" step="0.01" min={0} placeholder="e.g., 2000" {...field} data-testid="input-edit-plan-price" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={editPlanForm.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input placeholder="INR" maxLength={3} {...field} data-testid="input-edit-plan-currency" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -377,6 +696,7 @@ export default function PlansPage() {
                     <FormControl>
                       <Input placeholder="e.g., 400" {...field} data-testid="input-edit-plan-bv" />
                     </FormControl>
+                    <FormDescription>Added to each upline's leg volume for reporting; matched BV pays no income</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -388,7 +708,7 @@ export default function PlansPage() {
                   <FormItem>
                     <FormLabel>Referral Commission</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹400.00 INR" {...field} data-testid="input-edit-plan-referral" />
+                      <Input type="number" step="0.01" min={0} placeholder="e.g., 400" {...field} data-testid="input-edit-plan-referral" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -401,12 +721,15 @@ export default function PlansPage() {
                   <FormItem>
                     <FormLabel>Tree Commission</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., ₹800.00 INR" {...field} data-testid="input-edit-plan-tree" />
+                      <Input type="number" step="0.01" min={0} placeholder="e.g., 800" {...field} data-testid="input-edit-plan-tree" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <ValidityField control={editPlanForm.control} />
+              <LevelIncomeFields control={editPlanForm.control} />
+              <CapFields control={editPlanForm.control} />
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={() => setEditingPlan(null)}>
                   Cancel
@@ -419,6 +742,95 @@ export default function PlansPage() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {/* Migrate Members Dialog */}
+      <Dialog open={!!migratingPlan} onOpenChange={(open) => { if (!open) { setMigratingPlan(null); setMigrateToPlanId(""); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Migrate {migratingPlan?.name} Members</DialogTitle>
+            <DialogDescription>
+              Every member on {migratingPlan?.name} moves to the selected plan's current terms. No payment is taken and no commission is paid.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={migrateToPlanId} onValueChange={setMigrateToPlanId}>
+              <SelectTrigger data-testid="select-migrate-plan">
+                <SelectValue placeholder="Choose the new plan" />
+              </SelectTrigger>
+              <SelectContent>
+                {plans?.filter(plan => plan.status === 'active' && plan.id !== migratingPlan?.id).map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name} - {formatAmount(plan.price, plan.currency)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setMigratingPlan(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => migratingPlan && migrateMembersMutation.mutate({ id: migratingPlan.id, toPlanId: migrateToPlanId })}
+                disabled={!migrateToPlanId || migrateMembersMutation.isPending}
+                data-testid="button-confirm-migrate"
+              >
+                {migrateMembersMutation.isPending ? "Migrating..." : "Migrate Members"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Plan Terms History Dialog */}
+      <Dialog open={!!historyPlan} onOpenChange={(open) => !open && setHistoryPlan(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyPlan?.name} Terms History</DialogTitle>
+            <DialogDescription>Members keep the version they bought; new sign-ups get the latest.</DialogDescription>
+          </DialogHeader>
+          {versionsLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3">Version</th>
+                    <th className="text-left py-2 px-3">Effective From</th>
+                    <th className="text-left py-2 px-3">Price</th>
+                    <th className="text-left py-2 px-3">BV</th>
+                    <th className="text-left py-2 px-3">Referral</th>
+                    <th className="text-left py-2 px-3">Tree</th>
+                    <th className="text-left py-2 px-3">Levels</th>
+                    <th className="text-left py-2 px-3">Caps</th>
+                    <th className="text-left py-2 px-3">Validity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versions.map((version) => (
+                    <tr key={version.id} className="border-b" data-testid={`row-plan-version-${version.id}`}>
+                      <td className="py-2 px-3">
+                        v{version.version}
+                        {version.id === historyPlan?.currentVersionId && <Badge variant="outline" className="ml-2">Current</Badge>}
+                      </td>
+                      <td className="py-2 px-3">{new Date(version.effectiveFrom).toLocaleString('en-IN')}</td>
+                      <td className="py-2 px-3">{formatAmount(version.price, version.currency)}</td>
+                      <td className="py-2 px-3">{version.businessVolume}</td>
+                      <td className="py-2 px-3">{formatAmount(version.referralCommission, version.currency)}</td>
+                      <td className="py-2 px-3">{formatAmount(version.treeCommission, version.currency)}</td>
+                      <td className="py-2 px-3">{describeLevelIncome(version.levelIncome, version.currency)}</td>
+                      <td className="py-2 px-3">{describeCaps(version)}</td>
+                      <td className="py-2 px-3">{describeValidity(version.validityDays)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ArrowLeft } from "lucide-react";
+import { Link } from "wouter";
+
+export default function Settings() {
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+              <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+                <p className="text-sm text-muted-foreground">Security for your admin account</p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="p-6 max-w-2xl">
+          <TwoFactorSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { clearAuth } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { LogOut } from "lucide-react";
+
+// Shown instead of the dashboard while ADMIN_2FA_REQUIRED is on and the admin has not enrolled
+export default function TwoFactorSetupPage() {
+  const queryClient = useQueryClient();
+  const { user, logout } = useAuthStore();
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/logout", {});
+      return response.json();
+    },
+    onSuccess: () => {
+      clearAuth();
+      logout();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
+      <div className="absolute top-4 right-4 flex items-center space-x-2">
+        <ThemeToggle />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="button-logout"
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Logout
+        </Button>
+      </div>
+      <div className="w-full max-w-md mx-4 space-y-4">
+        <p className="text-center text-sm text-muted-foreground">
+          {user ? `Welcome, ${user.username}. ` : ""}Set up two-factor authentication before you continue.
+        </p>
+        <TwoFactorSettings />
+      </div>
+    </div>
+  );
+}
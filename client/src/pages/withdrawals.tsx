@@ -0,0 +1,255 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, Link } from "wouter";
+import { WithdrawalDetails } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AdminSidebar } from "@/components/admin-sidebar";
+import { WithdrawalStatusBadge } from "@/components/withdrawal-status-badge";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount, describePayoutAccount } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@/lib/auth";
+import { useAuthStore } from "@/hooks/use-auth";
+import { ArrowLeft, Building2, CheckCircle, XCircle, Banknote } from "lucide-react";
+
+type ReviewAction = { type: "reject" | "paid"; withdrawal: WithdrawalDetails };
+
+export default function WithdrawalsPage() {
+  const { toast } = useToast();
+  const { user } = useAuthStore();
+  // Approving, paying and rejecting are for finance roles
+  const canReview = hasPermission(user, 'finance.manage');
+  const queryClient = useQueryClient();
+  const [location] = useLocation();
+  const [action, setAction] = useState<ReviewAction | null>(null);
+  const [actionInput, setActionInput] = useState("");
+
+  // Determine status filter based on route
+  const statusFilter = useMemo(() => {
+    if (location.endsWith('/pending')) return 'pending';
+    if (location.endsWith('/approved')) return 'approved';
+    return null;
+  }, [location]);
+
+  const { data: withdrawals = [], isLoading } = useQuery<WithdrawalDetails[]>({
+    queryKey: ['/api/withdrawals'],
+    refetchInterval: 10000,
+  });
+
+  const visibleWithdrawals = statusFilter
+    ? withdrawals.filter(w => w.status === statusFilter)
+    : withdrawals;
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, type, body }: { id: string; type: "approve" | "reject" | "paid"; body?: unknown }) => {
+      return await apiRequest('POST', `/api/withdrawals/${id}/${type}`, body);
+    },
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/withdrawals'] });
+      setAction(null);
+      setActionInput("");
+      toast({
+        title: type === "approve" ? "Withdrawal approved" : type === "reject" ? "Withdrawal rejected" : "Withdrawal marked as paid",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update withdrawal",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const submitAction = () => {
+    if (!action) return;
+    reviewMutation.mutate({
+      id: action.withdrawal.id,
+      type: action.type,
+      body: action.type === "reject" ? { reason: actionInput } : { paymentReference: actionInput },
+    });
+  };
+
+  const pageTitle = statusFilter === 'pending'
+    ? 'Pending Withdrawals'
+    : statusFilter === 'approved'
+      ? 'Approved Withdrawals'
+      : 'All Withdrawals';
+
+  const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AdminSidebar />
+
+      <div className="lg:ml-64 transition-all duration-300">
+        {/* Header */}
+        <header className="bg-card shadow-sm border-b border-border sticky top-0 z-10">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4 lg:ml-0 ml-12">
+              <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground" data-testid="text-page-title">{pageTitle}</h1>
+                <p className="text-sm text-muted-foreground">Review and pay out client withdrawal requests</p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Building2 className="h-5 w-5 mr-2" />
+                Withdrawal Requests
+              </CardTitle>
+              <CardDescription>
+                {visibleWithdrawals.length} request{visibleWithdrawals.length === 1 ? '' : 's'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : visibleWithdrawals.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No withdrawal requests.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Client</TableHead>
+                        <TableHead>Pay To</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">TDS + Fee</TableHead>
+                        <TableHead className="text-right">Net Payout</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleWithdrawals.map((withdrawal) => (
+                        <TableRow key={withdrawal.id} data-testid={`row-withdrawal-${withdrawal.id}`}>
+                          <TableCell className="text-sm">{formatDate(withdrawal.createdAt)}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{withdrawal.user?.name || withdrawal.user?.username}</div>
+                            <div className="text-xs text-muted-foreground">@{withdrawal.user?.username}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">{describePayoutAccount(withdrawal.payoutAccount)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(withdrawal.amount)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {formatAmount(withdrawal.tdsAmount + withdrawal.adminFee)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">{formatAmount(withdrawal.netAmount)}</TableCell>
+                          <TableCell>
+                            <WithdrawalStatusBadge status={withdrawal.status} />
+                            {withdrawal.status === 'rejected' && withdrawal.rejectionReason && (
+                              <div className="text-xs text-muted-foreground mt-1">{withdrawal.rejectionReason}</div>
+                            )}
+                            {withdrawal.status === 'paid' && withdrawal.paymentReference && (
+                              <div className="text-xs text-muted-foreground mt-1">Ref: {withdrawal.paymentReference}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {canReview && (
+                              <div className="flex items-center space-x-2">
+                                {withdrawal.status === 'pending' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => reviewMutation.mutate({ id: withdrawal.id, type: "approve" })}
+                                    disabled={reviewMutation.isPending}
+                                    data-testid={`button-approve-${withdrawal.id}`}
+                                  >
+                                    <CheckCircle className="h-4 w-4 mr-1" />
+                                    Approve
+                                  </Button>
+                                )}
+                                {withdrawal.status === 'approved' && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => setAction({ type: "paid", withdrawal })}
+                                    data-testid={`button-paid-${withdrawal.id}`}
+                                  >
+                                    <Banknote className="h-4 w-4 mr-1" />
+                                    Mark Paid
+                                  </Button>
+                                )}
+                                {(withdrawal.status === 'pending' || withdrawal.status === 'approved') && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setAction({ type: "reject", withdrawal })}
+                                    data-testid={`button-reject-${withdrawal.id}`}
+                                  >
+                                    <XCircle className="h-4 w-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Reject / Mark Paid Dialog */}
+      <Dialog open={!!action} onOpenChange={(open) => { if (!open) { setAction(null); setActionInput(""); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action?.type === "reject" ? "Reject Withdrawal" : "Mark Withdrawal as Paid"}</DialogTitle>
+            <DialogDescription>
+              {action && `${formatAmount(action.withdrawal.netAmount)} to ${describePayoutAccount(action.withdrawal.payoutAccount)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="withdrawal-action-input">
+              {action?.type === "reject" ? "Reason for rejection" : "Payment reference (UTR / transaction ID)"}
+            </Label>
+            <Input
+              id="withdrawal-action-input"
+              value={actionInput}
+              onChange={(e) => setActionInput(e.target.value)}
+              data-testid="input-withdrawal-action"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitAction}
+              disabled={reviewMutation.isPending || actionInput.trim().length < 3}
+              variant={action?.type === "reject" ? "destructive" : "default"}
+              data-testid="button-confirm-withdrawal-action"
+            >
+              {action?.type === "reject" ? "Reject" : "Mark Paid"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
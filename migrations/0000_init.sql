@@ -0,0 +1,25 @@
+CREATE TABLE "plans" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"price" text NOT NULL,
+	"business_volume" text NOT NULL,
+	"referral_commission" text NOT NULL,
+	"tree_commission" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text,
+	"mobile" text,
+	"role" text DEFAULT 'client' NOT NULL,
+	"package" text,
+	"parent_id" varchar,
+	"position" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "earnings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"source_user_id" varchar,
+	"type" text NOT NULL,
+	"amount" integer NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE "business_volumes" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"left_volume" integer DEFAULT 0 NOT NULL,
+	"right_volume" integer DEFAULT 0 NOT NULL,
+	"left_carry_forward" integer DEFAULT 0 NOT NULL,
+	"right_carry_forward" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pair_matches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"matched_volume" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
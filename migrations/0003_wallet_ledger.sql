@@ -0,0 +1,19 @@
+CREATE TABLE "ledger_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" varchar NOT NULL,
+	"wallet_id" varchar NOT NULL,
+	"amount" integer NOT NULL,
+	"type" text NOT NULL,
+	"description" text,
+	"reference_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "wallets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"code" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "wallets_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "wallets_code_unique" UNIQUE("code")
+);
@@ -0,0 +1,28 @@
+CREATE TABLE "payout_accounts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"upi_id" text,
+	"account_holder" text,
+	"account_number" text,
+	"ifsc" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "withdrawals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"payout_account_id" varchar NOT NULL,
+	"amount" integer NOT NULL,
+	"tds_amount" integer DEFAULT 0 NOT NULL,
+	"admin_fee" integer DEFAULT 0 NOT NULL,
+	"net_amount" integer NOT NULL,
+	"held" boolean DEFAULT false NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"rejection_reason" text,
+	"payment_reference" text,
+	"reviewed_by_id" varchar,
+	"reviewed_at" timestamp,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,16 @@
+CREATE TABLE "deposits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"amount" integer NOT NULL,
+	"plan" text NOT NULL,
+	"upi_transaction_ref" text NOT NULL,
+	"payer_name" text NOT NULL,
+	"payer_vpa" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"rejection_reason" text,
+	"client_id" varchar,
+	"recorded_by_id" varchar NOT NULL,
+	"reviewed_by_id" varchar,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "deposits_upi_transaction_ref_unique" UNIQUE("upi_transaction_ref")
+);
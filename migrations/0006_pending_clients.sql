@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "payment_reference" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_payment_reference_unique" UNIQUE("payment_reference");
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Convert display strings such as "₹510.00 INR" to integer paise
+ALTER TABLE "plans" ALTER COLUMN "price" SET DATA TYPE integer USING round(coalesce(nullif(regexp_replace("price", '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer;--> statement-breakpoint
+ALTER TABLE "plans" ALTER COLUMN "referral_commission" SET DATA TYPE integer USING round(coalesce(nullif(regexp_replace("referral_commission", '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer;--> statement-breakpoint
+ALTER TABLE "plans" ALTER COLUMN "tree_commission" SET DATA TYPE integer USING round(coalesce(nullif(regexp_replace("tree_commission", '[^0-9.]', '', 'g'), ''), '0')::numeric * 100)::integer;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "currency" text DEFAULT 'INR' NOT NULL;
@@ -0,0 +1,5 @@
+ALTER TABLE "users" ADD COLUMN "plan_id" varchar;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+UPDATE "users" SET "plan_id" = (
+  SELECT "plans"."id" FROM "plans" WHERE "plans"."name" = "users"."package" ORDER BY "plans"."created_at" LIMIT 1
+) WHERE "users"."package" IS NOT NULL;
@@ -0,0 +1,18 @@
+CREATE TABLE "plan_upgrades" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"from_plan_id" varchar NOT NULL,
+	"to_plan_id" varchar NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"payment_reference" text NOT NULL,
+	"status" text DEFAULT 'pending_payment' NOT NULL,
+	"requested_by_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "plan_upgrades_payment_reference_unique" UNIQUE("payment_reference")
+);
+--> statement-breakpoint
+ALTER TABLE "deposits" ADD COLUMN "upgrade_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD CONSTRAINT "plan_upgrades_from_plan_id_plans_id_fk" FOREIGN KEY ("from_plan_id") REFERENCES "public"."plans"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD CONSTRAINT "plan_upgrades_to_plan_id_plans_id_fk" FOREIGN KEY ("to_plan_id") REFERENCES "public"."plans"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
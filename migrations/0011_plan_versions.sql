@@ -0,0 +1,36 @@
+CREATE TABLE "plan_versions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"plan_id" varchar NOT NULL,
+	"version" integer NOT NULL,
+	"price" integer NOT NULL,
+	"currency" text NOT NULL,
+	"business_volume" text NOT NULL,
+	"referral_commission" integer NOT NULL,
+	"tree_commission" integer NOT NULL,
+	"effective_from" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "plan_versions_plan_id_version_unique" UNIQUE("plan_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "earnings" ADD COLUMN "plan_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD COLUMN "from_plan_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD COLUMN "to_plan_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "current_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "plan_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD CONSTRAINT "plan_versions_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD CONSTRAINT "plan_upgrades_from_plan_version_id_plan_versions_id_fk" FOREIGN KEY ("from_plan_version_id") REFERENCES "public"."plan_versions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ADD CONSTRAINT "plan_upgrades_to_plan_version_id_plan_versions_id_fk" FOREIGN KEY ("to_plan_version_id") REFERENCES "public"."plan_versions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_plan_version_id_plan_versions_id_fk" FOREIGN KEY ("plan_version_id") REFERENCES "public"."plan_versions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "plan_versions" ("plan_id", "version", "price", "currency", "business_volume", "referral_commission", "tree_commission", "effective_from")
+SELECT "id", 1, "price", "currency", "business_volume", "referral_commission", "tree_commission", "created_at" FROM "plans";--> statement-breakpoint
+UPDATE "plans" SET "current_version_id" = (
+  SELECT "plan_versions"."id" FROM "plan_versions" WHERE "plan_versions"."plan_id" = "plans"."id"
+);--> statement-breakpoint
+UPDATE "users" SET "plan_version_id" = (
+  SELECT "plans"."current_version_id" FROM "plans" WHERE "plans"."id" = "users"."plan_id"
+) WHERE "users"."plan_id" IS NOT NULL;--> statement-breakpoint
+UPDATE "plan_upgrades" SET
+  "from_plan_version_id" = (SELECT "plans"."current_version_id" FROM "plans" WHERE "plans"."id" = "plan_upgrades"."from_plan_id"),
+  "to_plan_version_id" = (SELECT "plans"."current_version_id" FROM "plans" WHERE "plans"."id" = "plan_upgrades"."to_plan_id");--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ALTER COLUMN "from_plan_version_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "plan_upgrades" ALTER COLUMN "to_plan_version_id" SET NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE "plan_versions" ADD COLUMN "level_income" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "level_income" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+ALTER TABLE "earnings" ADD COLUMN "capped_amount" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "earnings" ADD COLUMN "carried_forward" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "earnings" ADD COLUMN "cap_reason" text;--> statement-breakpoint
+ALTER TABLE "earnings" ADD COLUMN "released_from_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "daily_pair_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "weekly_income_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "monthly_income_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "lifetime_cap_multiple" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "cap_overflow" text DEFAULT 'flush' NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "daily_pair_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "weekly_income_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "monthly_income_cap" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "lifetime_cap_multiple" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "cap_overflow" text DEFAULT 'flush' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "coupon_redemptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coupon_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code" text NOT NULL,
+	"list_price" integer NOT NULL,
+	"discount" integer NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"commission_basis" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "coupon_redemptions_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "coupons" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"description" text,
+	"discount_type" text NOT NULL,
+	"discount_value" integer NOT NULL,
+	"currency" text DEFAULT 'INR' NOT NULL,
+	"plan_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"valid_from" timestamp,
+	"valid_until" timestamp,
+	"max_uses" integer DEFAULT 0 NOT NULL,
+	"commission_basis" text DEFAULT 'list' NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "coupons_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_coupon_id_coupons_id_fk" FOREIGN KEY ("coupon_id") REFERENCES "public"."coupons"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "plan_renewals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"plan_id" varchar NOT NULL,
+	"plan_version_id" varchar NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"payment_reference" text NOT NULL,
+	"status" text DEFAULT 'pending_payment' NOT NULL,
+	"requested_by_id" varchar NOT NULL,
+	"renewed_until" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "plan_renewals_payment_reference_unique" UNIQUE("payment_reference")
+);
+--> statement-breakpoint
+ALTER TABLE "deposits" ADD COLUMN "renewal_id" varchar;--> statement-breakpoint
+ALTER TABLE "plan_versions" ADD COLUMN "validity_days" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "validity_days" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "plan_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "plan_renewals" ADD CONSTRAINT "plan_renewals_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_renewals" ADD CONSTRAINT "plan_renewals_plan_version_id_plan_versions_id_fk" FOREIGN KEY ("plan_version_id") REFERENCES "public"."plan_versions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "login_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"user_id" varchar,
+	"ip" text NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "failed_login_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_failed_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "locked_until" timestamp;--> statement-breakpoint
+CREATE INDEX "login_attempts_ip_created_at_idx" ON "login_attempts" USING btree ("ip","created_at");
\ No newline at end of file
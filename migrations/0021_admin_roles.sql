@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "admin_role" text;--> statement-breakpoint
+UPDATE "users" SET "admin_role" = 'super_admin' WHERE "role" = 'admin';
\ No newline at end of file
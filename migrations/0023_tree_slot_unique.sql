@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "users_parent_position_unique" ON "users" USING btree ("parent_id","position");
\ No newline at end of file
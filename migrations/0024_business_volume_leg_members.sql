@@ -0,0 +1,18 @@
+ALTER TABLE "business_volumes" ADD COLUMN "left_members" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "business_volumes" ADD COLUMN "right_members" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+WITH RECURSIVE "legs" AS (
+  SELECT "member"."id" AS "member_id", "parent"."id" AS "ancestor_id", "member"."position" AS "leg"
+  FROM "users" "member"
+  INNER JOIN "users" "parent" ON "parent"."id" = "member"."parent_id" AND "parent"."role" = 'client'
+  WHERE "member"."role" = 'client' AND "member"."status" <> 'pending_payment'
+  UNION ALL
+  SELECT "legs"."member_id", "parent"."id", "ancestor"."position"
+  FROM "legs"
+  INNER JOIN "users" "ancestor" ON "ancestor"."id" = "legs"."ancestor_id"
+  INNER JOIN "users" "parent" ON "parent"."id" = "ancestor"."parent_id" AND "parent"."role" = 'client'
+)
+INSERT INTO "business_volumes" ("user_id", "left_members", "right_members")
+SELECT "ancestor_id", count(*) FILTER (WHERE "leg" = 'left'), count(*) FILTER (WHERE "leg" = 'right')
+FROM "legs"
+GROUP BY "ancestor_id"
+ON CONFLICT ("user_id") DO UPDATE SET "left_members" = excluded."left_members", "right_members" = excluded."right_members";
@@ -0,0 +1,3 @@
+-- Admins sit at the root of the tree and no longer accrue BV
+DELETE FROM "pair_matches" WHERE "user_id" IN (SELECT "id" FROM "users" WHERE "role" = 'admin');--> statement-breakpoint
+DELETE FROM "business_volumes" WHERE "user_id" IN (SELECT "id" FROM "users" WHERE "role" = 'admin');
@@ -0,0 +1,40 @@
+import { type User, type AdminAccount, type CreateAdminRequest, type UpdateAdminRequest, type PasswordReset } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { generateTemporaryPassword } from "./passwords";
+
+export async function listAdmins(storage: IStorage): Promise<AdminAccount[]> {
+  const admins = await storage.getAdmins();
+  return Promise.all(admins.map(async ({ password: _, ...admin }) => ({
+    ...admin,
+    twoFactorEnabled: !!(await storage.getTwoFactorSecret(admin.id))?.enabledAt,
+  })));
+}
+
+// The temporary password is returned only this once and must be changed at the first login
+export async function createAdmin(storage: IStorage, data: CreateAdminRequest): Promise<PasswordReset> {
+  if (await storage.getUserByUsername(data.username)) {
+    throw new Error("Username already exists");
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const { password: _, ...user } = await storage.createAdmin(data, temporaryPassword);
+  return { user, temporaryPassword };
+}
+
+/**
+ * Changes another admin's role or disables their account; a disabled admin is refused at login
+ * and on every request of a session already open. Admins stay in the database rather than being
+ * deleted, since clients may be placed under them in the tree. Super-admins cannot change their
+ * own account, so the one making the change always remains to manage the others.
+ */
+export async function updateAdmin(storage: IStorage, actorId: string, adminId: string, data: UpdateAdminRequest): Promise<User> {
+  if (actorId === adminId) {
+    throw new Error("You cannot change your own role or status");
+  }
+  const admin = await storage.getUserById(adminId);
+  if (!admin || admin.role !== "admin") {
+    throw new Error("Admin not found");
+  }
+
+  return (await storage.updateAdmin(adminId, data))!;
+}
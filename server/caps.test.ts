@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+import { releaseCarriedIncome } from "./caps";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A Monday, so a week later is in the next cap week
+const MONDAY = new Date("2026-03-02T10:00:00").getTime();
+
+// A sponsor on a plan capped at 150.00 a week, carrying the overflow, with a member on each leg
+async function createCappedSponsor() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const silver = (await storage.getAllPlans()).find(plan => plan.name === "Silver")!;
+  const capped = await storage.createPlan({
+    name: "Capped",
+    price: 51000,
+    currency: "INR",
+    businessVolume: "100",
+    referralCommission: 10000,
+    treeCommission: 20000,
+    weeklyIncomeCap: 15000,
+    capOverflow: "carry_forward",
+    status: "active",
+  });
+
+  const join = async (username: string, planId: string, parentId: string, position: "left" | "right") => {
+    const pending = await createPendingRegistration(storage, admin.id, {
+      name: username,
+      username,
+      password: "member123",
+      email: `${username}@example.com`,
+      mobile: "9999999999",
+      planId,
+      parentId,
+      position,
+    });
+    return await activateRegistration(storage, pending.id);
+  };
+
+  const sponsor = await join("sponsor", capped.id, admin.id, "left");
+  await join("leftie", silver.id, sponsor.id, "left");
+  await join("rightie", silver.id, sponsor.id, "right");
+  const balanceOf = async (userId: string) => await storage.getWalletBalance((await storage.getUserWallet(userId)).id);
+  return { storage, sponsor, balanceOf };
+}
+
+test("income above the weekly cap is carried forward and released in later weeks", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: MONDAY });
+  const { storage, sponsor, balanceOf } = await createCappedSponsor();
+  // Referrals of 100.00 each and a 200.00 pair, of which 150.00 is paid this week
+  assert.equal(await balanceOf(sponsor.id), 15000);
+  const carried = await storage.getCarriedEarnings();
+  assert.deepEqual(carried.map(earning => earning.carriedForward), [5000, 20000]);
+
+  t.mock.timers.setTime(MONDAY + 7 * DAY_MS);
+  assert.deepEqual(await releaseCarriedIncome(storage), { released: 15000, flushed: 0 });
+  assert.equal(await balanceOf(sponsor.id), 30000);
+  assert.deepEqual((await storage.getCarriedEarnings()).map(earning => earning.carriedForward), [10000]);
+});
+
+test("overlapping release runs pay the carried amount once", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: MONDAY });
+  const { storage, sponsor, balanceOf } = await createCappedSponsor();
+  t.mock.timers.setTime(MONDAY + 7 * DAY_MS);
+  await releaseCarriedIncome(storage);
+
+  t.mock.timers.setTime(MONDAY + 14 * DAY_MS);
+  const runs = await Promise.all([releaseCarriedIncome(storage), releaseCarriedIncome(storage)]);
+  assert.equal(runs.reduce((sum, run) => sum + run.released, 0), 10000);
+  assert.equal(await balanceOf(sponsor.id), 40000);
+  assert.deepEqual(await storage.getCarriedEarnings(), []);
+});
+
+test("carried income of a member no longer on record is not released", async () => {
+  const storage = new MemStorage();
+  await storage.createEarning({ userId: "removed-member", type: "referral", amount: 0, cappedAmount: 5000, carriedForward: 5000 });
+  assert.deepEqual(await releaseCarriedIncome(storage), { released: 0, flushed: 0 });
+  assert.equal((await storage.getCarriedEarnings()).length, 1);
+});
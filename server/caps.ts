@@ -0,0 +1,163 @@
+import { type Earning, type InsertEarning, type PlanVersion, type CapReason } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { postCommission } from "./ledger";
+import { getUserPlanVersion, hasActivePlan } from "./plans";
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+// Weeks run Monday to Sunday
+function startOfWeek(date: Date): Date {
+  const start = startOfDay(date);
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  return start;
+}
+
+function startOfMonth(date: Date): Date {
+  const start = startOfDay(date);
+  start.setDate(1);
+  return start;
+}
+
+// Tree commissions for pairs completed since `start`. Releases of carried-forward pair income pay
+// for pairs completed earlier, so they do not count again.
+function countNewPairs(earnings: Earning[], start: Date): number {
+  return earnings.filter(earning =>
+    earning.type === "tree" && !earning.releasedFromId && earning.amount > 0 && new Date(earning.createdAt) >= start).length;
+}
+
+export async function getPairsPaidToday(storage: IStorage, userId: string, now: Date = new Date()): Promise<number> {
+  return countNewPairs(await storage.getEarningsByUser(userId), startOfDay(now));
+}
+
+/**
+ * The tightest of the member's caps at `now`: how much more of this type of income
+ * may be paid and which cap sets that limit. Null when no cap applies.
+ */
+async function getIncomeLimit(
+  storage: IStorage,
+  userId: string,
+  terms: PlanVersion,
+  type: string,
+  now: Date,
+): Promise<{ remaining: number; reason: CapReason } | null> {
+  const earnings = await storage.getEarningsByUser(userId);
+  const paidSince = (start: Date | null) => earnings
+    .filter(earning => !start || new Date(earning.createdAt) >= start)
+    .reduce((sum, earning) => sum + earning.amount, 0);
+
+  // Listed first so it is reported when it ties with a period cap: lifetime overflow is never carried
+  const limits: { remaining: number; reason: CapReason }[] = [];
+  if (terms.lifetimeCapMultiple > 0) {
+    limits.push({ remaining: Math.floor(terms.price * terms.lifetimeCapMultiple) - paidSince(null), reason: "lifetime_cap" });
+  }
+  if (type === "tree" && terms.dailyPairCap > 0) {
+    if (countNewPairs(earnings, startOfDay(now)) >= terms.dailyPairCap) {
+      limits.push({ remaining: 0, reason: "daily_pair_cap" });
+    }
+  }
+  if (terms.weeklyIncomeCap > 0) {
+    limits.push({ remaining: terms.weeklyIncomeCap - paidSince(startOfWeek(now)), reason: "weekly_cap" });
+  }
+  if (terms.monthlyIncomeCap > 0) {
+    limits.push({ remaining: terms.monthlyIncomeCap - paidSince(startOfMonth(now)), reason: "monthly_cap" });
+  }
+
+  const tightest = limits.reduce<typeof limits[number] | null>((min, limit) => !min || limit.remaining < min.remaining ? limit : min, null);
+  return tightest && { ...tightest, remaining: Math.max(tightest.remaining, 0) };
+}
+
+/**
+ * Applies the recipient's plan caps to a credit before it is recorded. The part above
+ * the cap is withheld: dropped, or carried forward when the plan says so and the
+ * lifetime cap still has room.
+ */
+export async function capEarning(storage: IStorage, earning: InsertEarning, now: Date = new Date()): Promise<InsertEarning> {
+  const recipient = await storage.getUserById(earning.userId);
+  const terms = recipient ? await getUserPlanVersion(storage, recipient) : null;
+  if (!terms) {
+    return earning;
+  }
+
+  const limit = await getIncomeLimit(storage, earning.userId, terms, earning.type, now);
+  if (!limit || limit.remaining >= earning.amount) {
+    return earning;
+  }
+
+  const cappedAmount = earning.amount - limit.remaining;
+  const carry = terms.capOverflow === "carry_forward" && limit.reason !== "lifetime_cap";
+  return {
+    ...earning,
+    amount: limit.remaining,
+    cappedAmount,
+    carriedForward: carry ? cappedAmount : 0,
+    capReason: limit.reason,
+  };
+}
+
+// Releases one carried-forward earning as far as the member's caps now allow
+async function releaseCarried(storage: IStorage, carried: Earning, now: Date): Promise<{ released: number; flushed: number }> {
+  const recipient = await storage.getUserById(carried.userId);
+  if (!recipient || !hasActivePlan(recipient, now)) {
+    return { released: 0, flushed: 0 }; // Held until the member renews; never paid to a removed member
+  }
+  const terms = await getUserPlanVersion(storage, recipient);
+  const limit = terms ? await getIncomeLimit(storage, carried.userId, terms, carried.type, now) : null;
+  const amount = Math.min(limit ? limit.remaining : carried.carriedForward, carried.carriedForward);
+
+  const lifetimeReached = limit?.reason === "lifetime_cap" && limit.remaining - amount <= 0;
+  const drop = lifetimeReached ? carried.carriedForward - amount : 0;
+  // Claimed before it is paid, and only while it still carries what was read: an overlapping run
+  // or another instance that got there first leaves nothing to claim
+  if (amount + drop <= 0 || !await storage.releaseCarriedForward(carried.id, amount + drop, carried.carriedForward)) {
+    return { released: 0, flushed: 0 };
+  }
+
+  if (amount > 0) {
+    const release = await storage.createEarning({
+      userId: carried.userId,
+      sourceUserId: carried.sourceUserId,
+      type: carried.type,
+      amount,
+      planVersionId: carried.planVersionId,
+      releasedFromId: carried.id,
+      description: `Carried-forward income released: ${carried.description || carried.type}`,
+    });
+    await postCommission(storage, release);
+  }
+  return { released: amount, flushed: drop };
+}
+
+/**
+ * Pays out carried-forward income, oldest first, as far as each member's caps now allow.
+ * Amounts that can never be paid because the lifetime cap is exhausted are dropped.
+ * Each release commits with its earning and ledger posting.
+ */
+export async function releaseCarriedIncome(storage: IStorage, now: Date = new Date()) {
+  let released = 0;
+  let flushed = 0;
+
+  for (const carried of await storage.getCarriedEarnings()) {
+    const result = await storage.transaction(async (tx) => await releaseCarried(tx, carried, now));
+    released += result.released;
+    flushed += result.flushed;
+  }
+
+  return { released, flushed };
+}
+
+// Credits that were capped, for the member's statement
+export async function getCappedSummary(storage: IStorage, userId: string) {
+  const capped = (await storage.getEarningsByUser(userId))
+    .filter(earning => earning.cappedAmount > 0)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return {
+    total: capped.reduce((sum, earning) => sum + earning.cappedAmount, 0),
+    carriedForward: capped.reduce((sum, earning) => sum + earning.carriedForward, 0),
+    earnings: capped,
+  };
+}
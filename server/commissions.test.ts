@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+
+async function createTree() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const silver = (await storage.getAllPlans()).find(plan => plan.name === "Silver")!;
+
+  // Registers and activates a Silver member in the given slot
+  const join = async (username: string, parentId: string, position: "left" | "right") => {
+    const pending = await createPendingRegistration(storage, admin.id, {
+      name: username,
+      username,
+      password: "member123",
+      email: `${username}@example.com`,
+      mobile: "9999999999",
+      planId: silver.id,
+      parentId,
+      position,
+    });
+    return await activateRegistration(storage, pending.id);
+  };
+  const earningsOf = async (userId: string) =>
+    (await storage.getEarningsByUser(userId)).map(earning => `${earning.type}:${earning.amount}`).sort();
+  const balanceOf = async (userId: string) => await storage.getWalletBalance((await storage.getUserWallet(userId)).id);
+
+  return { storage, admin, join, earningsOf, balanceOf };
+}
+
+test("a member completing a pair pays the sponsor's referral and the ancestor's tree commission", async () => {
+  const { admin, join, earningsOf, balanceOf } = await createTree();
+  const sponsor = await join("sponsor", admin.id, "left");
+  const left = await join("leftie", sponsor.id, "left");
+  assert.deepEqual(await earningsOf(sponsor.id), ["referral:10000"]);
+
+  await join("rightie", sponsor.id, "right");
+  assert.deepEqual(await earningsOf(sponsor.id), ["referral:10000", "referral:10000", "tree:20000"]);
+  assert.equal(await balanceOf(sponsor.id), 40000);
+
+  // A second member on the left leg makes no new pair for the sponsor
+  await join("deeper", left.id, "left");
+  assert.deepEqual(await earningsOf(sponsor.id), ["referral:10000", "referral:10000", "tree:20000"]);
+  assert.deepEqual(await earningsOf(left.id), ["referral:10000"]);
+});
+
+test("leg member counts grow with each activation, and admins keep none", async () => {
+  const { storage, admin, join } = await createTree();
+  const sponsor = await join("sponsor", admin.id, "left");
+  const left = await join("leftie", sponsor.id, "left");
+  await join("deeper", left.id, "right");
+  await join("rightie", sponsor.id, "right");
+
+  const counts = await storage.getBusinessVolume(sponsor.id);
+  assert.deepEqual([counts?.leftMembers, counts?.rightMembers], [2, 1]);
+  assert.equal((await storage.getBusinessVolume(admin.id))?.leftMembers ?? 0, 0);
+});
@@ -0,0 +1,168 @@
+import { type User, type PlanVersion, type LevelIncomeRule, type Earning, type InsertEarning } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { postCommission } from "./ledger";
+import { capEarning } from "./caps";
+import { getUserPlanVersion, hasActivePlan } from "./plans";
+import { getCommissionPrice } from "./coupons";
+
+// Records the earning and pays whatever the member's caps allow into their wallet.
+// Members whose plan has lapsed are skipped; the commission is not held for them.
+// Callers pass the storage of the activation or upgrade transaction, so the earning and its
+// ledger posting commit together with the change that triggered them.
+async function credit(storage: IStorage, recipient: User, earningData: InsertEarning): Promise<Earning[]> {
+  if (!hasActivePlan(recipient)) {
+    return [];
+  }
+  const earning = await storage.createEarning(await capEarning(storage, earningData));
+  if (earning.amount > 0) {
+    await postCommission(storage, earning);
+  }
+  return [earning];
+}
+
+function levelIncomeAmount(rule: LevelIncomeRule | undefined, price: number): number {
+  if (!rule) return 0;
+  return rule.type === "percent" ? Math.floor(price * rule.value / 100) : rule.value;
+}
+
+// Walks up the sponsor chain from the parent, crediting each client upline the amount for its level
+async function creditLevelIncome(
+  storage: IStorage,
+  client: User,
+  terms: PlanVersion,
+  amountForLevel: (level: number) => number,
+  describe: (level: number) => string,
+): Promise<Earning[]> {
+  const credits: Earning[] = [];
+  let upline = client.parentId ? await storage.getUserById(client.parentId) : null;
+
+  for (let level = 1; level <= terms.levelIncome.length && upline?.role === "client"; level++) {
+    const amount = amountForLevel(level);
+    if (amount > 0) {
+      credits.push(...await credit(storage, upline, {
+        userId: upline.id,
+        sourceUserId: client.id,
+        type: "level",
+        amount,
+        planVersionId: terms.id,
+        description: describe(level),
+      }));
+    }
+    upline = upline.parentId ? await storage.getUserById(upline.parentId) : null;
+  }
+  return credits;
+}
+
+/**
+ * Credits every commission triggered by a client's activation:
+ * - referral: the direct parent earns the referral commission of the plan the client bought
+ * - tree: each ancestor whose left and right legs form a new pair earns their own plan's tree commission
+ * - level: each upline within the depth of the client's plan's level table earns that level's share
+ * Amounts come from the plan terms each member bought, not the plan's current terms.
+ * When the client's coupon bases commissions on the discounted price, the referral and level
+ * amounts are scaled down in proportion; tree commissions are the ancestor's own and unaffected.
+ * Admins sit at the root of the tree and never earn, nor do members whose plan has lapsed.
+ */
+export async function creditActivationCommissions(storage: IStorage, client: User): Promise<Earning[]> {
+  const credits: Earning[] = [];
+
+  const clientPlan = await getUserPlanVersion(storage, client);
+  if (!clientPlan || !client.parentId) {
+    return credits;
+  }
+
+  const commissionPrice = await getCommissionPrice(storage, client, clientPlan);
+  const onCommissionPrice = (amount: number) =>
+    clientPlan.price > 0 ? Math.floor(amount * commissionPrice / clientPlan.price) : amount;
+
+  const parent = await storage.getUserById(client.parentId);
+  if (parent?.role === "client") {
+    const amount = onCommissionPrice(clientPlan.referralCommission);
+    if (amount > 0) {
+      credits.push(...await credit(storage, parent, {
+        userId: parent.id,
+        sourceUserId: client.id,
+        type: "referral",
+        amount,
+        planVersionId: clientPlan.id,
+        description: `Referral commission for ${client.username} (${client.package})`,
+      }));
+    }
+  }
+
+  credits.push(...await creditLevelIncome(
+    storage,
+    client,
+    clientPlan,
+    level => onCommissionPrice(levelIncomeAmount(clientPlan.levelIncome[level - 1], clientPlan.price)),
+    level => `Level ${level} income for ${client.username} (${client.package})`,
+  ));
+
+  let child: User = client;
+  let ancestor = parent;
+  while (ancestor && ancestor.role === "client") {
+    const position = child.position;
+
+    if (position === "left" || position === "right") {
+      // Every client ancestor counts the member, whether or not it can earn from the pair now
+      const counts = await storage.addLegMember(ancestor.id, position);
+      const legs = { left: counts.leftMembers, right: counts.rightMembers };
+      const before = { ...legs, [position]: legs[position] - 1 };
+      const ancestorPlan = await getUserPlanVersion(storage, ancestor);
+      const amount = ancestorPlan?.treeCommission ?? 0;
+
+      if (ancestorPlan && Math.min(legs.left, legs.right) > Math.min(before.left, before.right) && amount > 0) {
+        credits.push(...await credit(storage, ancestor, {
+          userId: ancestor.id,
+          sourceUserId: client.id,
+          type: "tree",
+          amount,
+          planVersionId: ancestorPlan.id,
+          description: `Tree commission for pair completed by ${client.username}`,
+        }));
+      }
+    }
+
+    child = ancestor;
+    ancestor = ancestor.parentId ? await storage.getUserById(ancestor.parentId) : null;
+  }
+
+  return credits;
+}
+
+/**
+ * Credits the extra commission an upgrade produces: the direct parent earns the difference
+ * between the two plans' referral commissions, and each upline earns any increase in its level
+ * income. Pairs are counted by members, so an upgrade completes no new pair; the upgraded
+ * member's higher tree commission applies to future pairs.
+ */
+export async function creditUpgradeCommissions(
+  storage: IStorage,
+  client: User,
+  from: { name: string; terms: PlanVersion },
+  to: { name: string; terms: PlanVersion },
+): Promise<Earning[]> {
+  const credits: Earning[] = [];
+  const parent = client.parentId ? await storage.getUserById(client.parentId) : null;
+  const amount = to.terms.referralCommission - from.terms.referralCommission;
+  if (parent?.role === "client" && amount > 0) {
+    credits.push(...await credit(storage, parent, {
+      userId: parent.id,
+      sourceUserId: client.id,
+      type: "referral",
+      amount,
+      planVersionId: to.terms.id,
+      description: `Referral commission for ${client.username} upgrading ${from.name} to ${to.name}`,
+    }));
+  }
+
+  credits.push(...await creditLevelIncome(
+    storage,
+    client,
+    to.terms,
+    level => levelIncomeAmount(to.terms.levelIncome[level - 1], to.terms.price)
+      - levelIncomeAmount(from.terms.levelIncome[level - 1], from.terms.price),
+    level => `Level ${level} income for ${client.username} upgrading ${from.name} to ${to.name}`,
+  ));
+  return credits;
+}
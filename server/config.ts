@@ -0,0 +1,96 @@
+// Business rules that can be tuned per deployment through environment variables
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function readFloat(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined || value === "" ? fallback : value === "true" || value === "1";
+}
+
+export const config = {
+  // Maximum BV a single user can have matched per calendar day (0 = no cap). Separate from a
+  // plan's daily pair cap, which limits the tree commissions a member is paid per day
+  dailyMatchedVolumeCap: readInt("DAILY_MATCHED_VOLUME_CAP", 0),
+  // How often the pair matching job runs
+  pairMatchingIntervalMs: readInt("PAIR_MATCHING_INTERVAL_MS", 60 * 60 * 1000),
+  // How often income held back by a plan's caps is paid out once there is room again
+  carriedIncomeReleaseIntervalMs: readInt("CARRIED_INCOME_RELEASE_INTERVAL_MS", 60 * 60 * 1000),
+
+  // Registrations still awaiting payment are removed after this many hours
+  pendingClientTtlHours: readFloat("PENDING_CLIENT_TTL_HOURS", 24),
+  // How often expired pending registrations are swept
+  pendingClientSweepIntervalMs: readInt("PENDING_CLIENT_SWEEP_INTERVAL_MS", 15 * 60 * 1000),
+
+  // Members whose plan expires within this many days are flagged on the dashboards
+  planExpiryWarningDays: readInt("PLAN_EXPIRY_WARNING_DAYS", 7),
+  // How often members whose plan has lapsed are marked expired
+  planExpirySweepIntervalMs: readInt("PLAN_EXPIRY_SWEEP_INTERVAL_MS", 15 * 60 * 1000),
+
+  login: {
+    // Wait imposed after the first failed login, doubling with each further failure up to the maximum
+    backoffBaseMs: readInt("LOGIN_BACKOFF_BASE_MS", 1000),
+    backoffMaxMs: readInt("LOGIN_BACKOFF_MAX_MS", 60 * 1000),
+    // Consecutive failures that lock an account, and for how long
+    lockoutThreshold: readInt("LOGIN_LOCKOUT_THRESHOLD", 5),
+    lockoutMinutes: readFloat("LOGIN_LOCKOUT_MINUTES", 15),
+    // Failures from one IP address within the window that block it until they age out
+    ipMaxFailures: readInt("LOGIN_IP_MAX_FAILURES", 20),
+    ipWindowMinutes: readFloat("LOGIN_IP_WINDOW_MINUTES", 15),
+    // Admins without an authenticator app must enroll before they can use the dashboard
+    adminTwoFactorRequired: readBoolean("ADMIN_2FA_REQUIRED", false),
+    // How long the authenticator step may take after the password was accepted
+    twoFactorTimeoutMinutes: readFloat("LOGIN_2FA_TIMEOUT_MINUTES", 5),
+  },
+
+  otp: {
+    // One-time codes for password recovery and mobile verification
+    ttlMinutes: readFloat("OTP_TTL_MINUTES", 10),
+    // Wrong entries allowed before the code is void and a new one must be requested
+    maxAttempts: readInt("OTP_MAX_ATTEMPTS", 5),
+    // Minimum wait before another code is sent to the same user for the same purpose
+    resendCooldownSeconds: readInt("OTP_RESEND_COOLDOWN_SECONDS", 60),
+    // How codes are delivered: "twilio" sends SMS through Twilio and email through SendGrid;
+    // "console" logs them and "file" appends them to the outbox file, for local runs only.
+    // Unset means "console"
+    sender: process.env.OTP_SENDER || "",
+    outboxFile: process.env.OTP_OUTBOX_FILE || "otp-outbox.log",
+    twilio: {
+      accountSid: process.env.TWILIO_ACCOUNT_SID || "",
+      authToken: process.env.TWILIO_AUTH_TOKEN || "",
+      fromNumber: process.env.TWILIO_FROM_NUMBER || "",
+      sendgridApiKey: process.env.SENDGRID_API_KEY || "",
+      emailFrom: process.env.OTP_EMAIL_FROM || "",
+    },
+  },
+
+  session: {
+    // How long a login lasts without activity
+    maxAgeMs: readInt("SESSION_MAX_AGE_MS", 24 * 60 * 60 * 1000),
+    // How often expired sessions are removed from the store
+    pruneIntervalMs: readInt("SESSION_PRUNE_INTERVAL_MS", 60 * 60 * 1000),
+  },
+
+  upi: {
+    // VPA and display name that plan payments are collected to
+    payeeVpa: process.env.UPI_PAYEE_VPA || "",
+    payeeName: process.env.UPI_PAYEE_NAME || "Napping Hand Academy",
+  },
+
+  withdrawals: {
+    // Smallest amount a client can request, in paise (env value is in rupees)
+    minAmount: Math.round(readFloat("WITHDRAWAL_MIN_AMOUNT", 500) * 100),
+    // Deducted from the requested amount when the payout is made
+    tdsPercent: readFloat("WITHDRAWAL_TDS_PERCENT", 5),
+    adminFeePercent: readFloat("WITHDRAWAL_ADMIN_FEE_PERCENT", 0),
+    // Reserve the amount as soon as it is requested so it cannot be spent twice
+    holdPending: readBoolean("WITHDRAWAL_HOLD_PENDING", true),
+  },
+};
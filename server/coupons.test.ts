@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration } from "./registrations";
+import { createCoupon, applyRegistrationCoupon, getRegistrationPrice } from "./coupons";
+
+test("a coupon limited to one use is redeemed once when two registrations apply it at once", async () => {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const silver = (await storage.getAllPlans()).find(plan => plan.name === "Silver")!;
+  await createCoupon(storage, { code: "WELCOME10", discountType: "percent", discountValue: 10, maxUses: 1 });
+
+  const register = async (username: string, position: "left" | "right") => await createPendingRegistration(storage, admin.id, {
+    name: username,
+    username,
+    password: "member123",
+    email: `${username}@example.com`,
+    mobile: "9999999999",
+    planId: silver.id,
+    parentId: admin.id,
+    position,
+  });
+  const members = [await register("first", "left"), await register("second", "right")];
+
+  const results = await Promise.allSettled(members.map(member => applyRegistrationCoupon(storage, member.id, "welcome10")));
+  assert.deepEqual(results.map(result => result.status).sort(), ["fulfilled", "rejected"]);
+  const prices = await Promise.all(members.map(async member => (await getRegistrationPrice(storage, member)).amount));
+  assert.deepEqual(prices.sort((a, b) => a - b), [silver.price - Math.floor(silver.price / 10), silver.price]);
+  await assert.rejects(applyRegistrationCoupon(storage, members[results[0].status === "rejected" ? 0 : 1].id, "WELCOME10"), /usage limit/);
+});
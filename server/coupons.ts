@@ -0,0 +1,172 @@
+import { type User, type Plan, type PlanVersion, type Coupon, type CouponDetails, type CouponQuote, type CouponQuoteRequest, type CouponRedemption, type InsertCoupon, type UpdateCoupon } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getActivePlan, getCurrentPlanVersion, getUserPlanVersion } from "./plans";
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Checks that span fields, run on the coupon as it will be saved
+function checkCouponTerms(coupon: Pick<Coupon, "discountType" | "discountValue"> & Partial<Pick<Coupon, "validFrom" | "validUntil">>) {
+  if (coupon.discountType === "percent" && coupon.discountValue >= 100) {
+    throw new Error("A percentage discount must be below 100%");
+  }
+  if (coupon.validFrom && coupon.validUntil && coupon.validUntil <= coupon.validFrom) {
+    throw new Error("The coupon must end after it starts");
+  }
+}
+
+// The coupon behind a code, if it can be used on this plan at `now`
+async function getApplicableCoupon(storage: IStorage, code: string, plan: Pick<Plan, "id" | "name">, now: Date): Promise<Coupon> {
+  const coupon = await storage.getCouponByCode(normalizeCode(code));
+  if (!coupon || coupon.status !== "active") {
+    throw new Error("Coupon not found or no longer active");
+  }
+  if (coupon.validFrom && now < coupon.validFrom) {
+    throw new Error(`Coupon ${coupon.code} is not valid yet`);
+  }
+  if (coupon.validUntil && now > coupon.validUntil) {
+    throw new Error(`Coupon ${coupon.code} has expired`);
+  }
+  if (coupon.planIds.length > 0 && !coupon.planIds.includes(plan.id)) {
+    throw new Error(`Coupon ${coupon.code} does not apply to the ${plan.name} plan`);
+  }
+  // Checked here for an early answer; the storage enforces it again when the redemption is saved
+  if (coupon.maxUses > 0 && await storage.countCouponRedemptions(coupon.id) >= coupon.maxUses) {
+    throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+  }
+  return coupon;
+}
+
+// Price of the terms with the coupon taken off; a coupon cannot make a plan free
+function priceWithCoupon(coupon: Coupon, terms: PlanVersion): CouponQuote {
+  if (coupon.discountType === "flat" && coupon.currency !== terms.currency) {
+    throw new Error(`Coupon ${coupon.code} is only valid for ${coupon.currency} plans`);
+  }
+
+  const discount = coupon.discountType === "percent"
+    ? Math.floor(terms.price * coupon.discountValue / 100)
+    : coupon.discountValue;
+  if (discount >= terms.price) {
+    throw new Error(`Coupon ${coupon.code} cannot cover the full plan price`);
+  }
+
+  return {
+    code: coupon.code,
+    description: coupon.description,
+    listPrice: terms.price,
+    discount,
+    amount: terms.price - discount,
+    currency: terms.currency,
+    commissionBasis: coupon.commissionBasis,
+  };
+}
+
+// Records the coupon against the registration at the quoted price
+export async function redeemCoupon(storage: IStorage, coupon: Coupon, client: User, quote: CouponQuote): Promise<CouponRedemption> {
+  const { description: _, ...price } = quote;
+  return await storage.createCouponRedemption({ ...price, couponId: coupon.id, userId: client.id });
+}
+
+// What a code takes off a plan's current price, for showing before the client is registered
+export async function quoteCoupon(storage: IStorage, request: CouponQuoteRequest, now: Date = new Date()): Promise<CouponQuote> {
+  const plan = await getActivePlan(storage, request.planId);
+  const coupon = await getApplicableCoupon(storage, request.code, plan, now);
+  return priceWithCoupon(coupon, await getCurrentPlanVersion(storage, plan));
+}
+
+// Validates a code for a registration that is about to be created on the plan's current terms
+export async function checkRegistrationCoupon(storage: IStorage, code: string, plan: Plan, now: Date = new Date()) {
+  const coupon = await getApplicableCoupon(storage, code, plan, now);
+  return { coupon, quote: priceWithCoupon(coupon, await getCurrentPlanVersion(storage, plan)) };
+}
+
+// A pending registration whose price can still change: no payment has been recorded against it
+async function getUnpaidRegistration(storage: IStorage, clientId: string) {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.status !== "pending_payment") {
+    throw new Error("Client registration not found or already active");
+  }
+
+  const deposits = (await storage.getDepositsByClient(clientId)).filter(deposit => !deposit.upgradeId && !deposit.renewalId);
+  if (deposits.some(deposit => deposit.status !== "rejected")) {
+    throw new Error("A payment has already been recorded for this client; its price can no longer change");
+  }
+
+  const terms = await getUserPlanVersion(storage, client);
+  if (!terms) {
+    throw new Error("Client plan not found");
+  }
+  return { client, terms };
+}
+
+// Applies a coupon to a pending registration, replacing any coupon already on it
+export async function applyRegistrationCoupon(storage: IStorage, clientId: string, code: string, now: Date = new Date()): Promise<CouponRedemption> {
+  const { client, terms } = await getUnpaidRegistration(storage, clientId);
+  const existing = await storage.getCouponRedemptionByUser(client.id);
+  if (existing?.code === normalizeCode(code)) {
+    return existing;
+  }
+
+  const coupon = await getApplicableCoupon(storage, code, { id: client.planId!, name: client.package! }, now);
+  const quote = priceWithCoupon(coupon, terms);
+  // The old coupon stays on if the new one cannot be redeemed
+  return await storage.transaction(async (tx) => {
+    await tx.deleteCouponRedemption(client.id);
+    return await redeemCoupon(tx, coupon, client, quote);
+  });
+}
+
+export async function removeRegistrationCoupon(storage: IStorage, clientId: string): Promise<void> {
+  const { client } = await getUnpaidRegistration(storage, clientId);
+  await storage.deleteCouponRedemption(client.id);
+}
+
+// What a registration costs: the price of the terms bought, less any coupon applied to it
+export async function getRegistrationPrice(storage: IStorage, client: User) {
+  const terms = await getUserPlanVersion(storage, client);
+  if (!terms) {
+    throw new Error("Client plan not found");
+  }
+
+  const coupon = await storage.getCouponRedemptionByUser(client.id);
+  return {
+    listPrice: terms.price,
+    amount: coupon ? coupon.amount : terms.price,
+    currency: terms.currency,
+    coupon,
+  };
+}
+
+// Price a member's activation commissions are based on: the list price, unless their coupon
+// was set to pay commissions on the discounted price
+export async function getCommissionPrice(storage: IStorage, client: User, terms: PlanVersion): Promise<number> {
+  const coupon = await storage.getCouponRedemptionByUser(client.id);
+  return coupon?.commissionBasis === "net" ? coupon.amount : terms.price;
+}
+
+export async function createCoupon(storage: IStorage, data: InsertCoupon): Promise<Coupon> {
+  checkCouponTerms(data);
+  return await storage.createCoupon(data);
+}
+
+// Edits apply to later redemptions; registrations that used the coupon keep the price they were given
+export async function updateCoupon(storage: IStorage, coupon: Coupon, data: UpdateCoupon): Promise<Coupon> {
+  checkCouponTerms({ ...coupon, ...data });
+  if (data.code && data.code !== coupon.code && await storage.getCouponByCode(data.code)) {
+    throw new Error("A coupon with this code already exists");
+  }
+  return (await storage.updateCoupon(coupon.id, data))!;
+}
+
+// Used coupons stay on record for the registrations that used them
+export async function deleteCoupon(storage: IStorage, coupon: Coupon): Promise<void> {
+  if (await storage.countCouponRedemptions(coupon.id) > 0) {
+    throw new Error(`Coupon ${coupon.code} has been used; disable it instead`);
+  }
+  await storage.deleteCoupon(coupon.id);
+}
+
+export async function withCouponUsage(storage: IStorage, list: Coupon[]): Promise<CouponDetails[]> {
+  return Promise.all(list.map(async (coupon) => ({ ...coupon, uses: await storage.countCouponRedemptions(coupon.id) })));
+}
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./db-storage";
+import { seed } from "./seed";
+
+// Runs the migrations against an in-process Postgres (PGlite), so no database server is needed
+async function createTestDb(): Promise<Database> {
+  const db = drizzle(new PGlite(), { schema });
+  await migrate(db, { migrationsFolder: "migrations" });
+  return db as unknown as Database;
+}
+
+test("DbStorage round-trips users, plans and ledger entries on the migrated schema", async () => {
+  const db = await createTestDb();
+  const result = await seed(db, "admin123");
+  assert.equal(result.adminCreated, true);
+
+  const storage = new DbStorage(db);
+  const admin = await storage.validateUser("admin", "admin123", "admin");
+  assert.ok(admin);
+
+  const [plan] = await storage.getAllPlans();
+  assert.ok(plan);
+  assert.equal((await storage.getPlanVersions(plan.id)).length, 1);
+
+  const client = await storage.createPendingClient({
+    name: "Test Client",
+    username: "client1",
+    password: "client123",
+    email: "client1@example.com",
+    mobile: "9999999999",
+    planId: plan.id,
+    position: "left",
+    parentId: admin.id,
+  }, plan, "REF0001", admin.id);
+  assert.equal((await storage.getUserByUsername("client1"))?.status, "pending_payment");
+  assert.equal((await storage.activateClient(client.id))?.status, "active");
+  assert.equal(await storage.activateClient(client.id), null);
+  // A new password signs out the sessions started with the old one
+  assert.equal((await storage.setPassword(client.id, "client456", false))?.sessionVersion, 1);
+
+  const wallet = await storage.getUserWallet(client.id);
+  const adjustments = await storage.getSystemWallet("adjustments");
+  await storage.postLedgerTransaction([
+    { walletId: adjustments.id, amount: -500, type: "adjustment", description: "Test credit" },
+    { walletId: wallet.id, amount: 500, type: "adjustment", description: "Test credit" },
+  ]);
+  assert.equal(await storage.getWalletBalance(wallet.id), 500);
+
+  // Seeding again leaves the existing admin and plans alone
+  assert.deepEqual(await seed(db, "admin123"), { adminCreated: false, plansCreated: [] });
+});
+
+test("DbStorage places a registration again when a concurrent one took its tree slot", async () => {
+  const db = await createTestDb();
+  await seed(db, "admin123");
+  const storage = new DbStorage(db);
+  const admin = (await storage.getUserByUsername("admin"))!;
+  const [plan] = await storage.getAllPlans();
+  const register = (username: string, position: "left" | "right") => storage.createPendingClient({
+    name: "Test Client",
+    username,
+    password: "client123",
+    email: `${username}@example.com`,
+    mobile: "9999999999",
+    planId: plan.id,
+    position,
+    parentId: admin.id,
+  }, plan, `REF-${username}`, admin.id);
+
+  await register("first", "left");
+
+  // Reads the tree as it was before "first" was placed, as a registration running alongside would
+  const getAvailablePositions = DbStorage.prototype.getAvailablePositions;
+  let staleReads = 1;
+  DbStorage.prototype.getAvailablePositions = async function (parentId) {
+    return staleReads-- > 0 ? ["left", "right"] : await getAvailablePositions.call(this, parentId);
+  };
+  try {
+    const second = await register("second", "left");
+    assert.equal(second.parentId, admin.id);
+    assert.equal(second.position, "right");
+  } finally {
+    DbStorage.prototype.getAvailablePositions = getAvailablePositions;
+  }
+});
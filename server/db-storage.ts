@@ -0,0 +1,887 @@
+import { randomUUID } from "crypto";
+import { eq, ne, and, or, gt, gte, lt, desc, isNull, inArray, sql } from "drizzle-orm";
+import bcrypt from "bcrypt";
+import { users, loginAttempts, otpCodes, twoFactorSecrets, plans, planVersions, earnings, businessVolumes, pairMatches, wallets, ledgerEntries, payoutAccounts, withdrawals, deposits, planUpgrades, planRenewals, coupons, couponRedemptions, type User, type InsertUser, type CreateAdminRequest, type LoginAttempt, type InsertLoginAttempt, type OtpCode, type InsertOtpCode, type OtpPurpose, type TwoFactorSecret, type CreateClientRequest, type ClientStats, type Plan, type InsertPlan, type UpdatePlan, type PlanVersion, planTermsChanged, type Earning, type InsertEarning, type BusinessVolume, type PairMatch, type Wallet, type LedgerEntry, type InsertLedgerEntry, type SystemWalletCode, type PayoutAccount, type InsertPayoutAccount, type Withdrawal, type InsertWithdrawal, type Deposit, type InsertDeposit, type PlanUpgrade, type InsertPlanUpgrade, type PlanRenewal, type InsertPlanRenewal, type Coupon, type InsertCoupon, type UpdateCoupon, type CouponRedemption, type InsertCouponRedemption } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { Database } from "./db";
+import { assertBalanced } from "./ledger";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Tries at placing a registration before a run of slot conflicts is reported
+const placementAttempts = 3;
+
+function isTreeSlotConflict(error: unknown): boolean {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === "23505" && constraint === "users_parent_position_unique";
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Nested calls run as savepoints inside the outer transaction
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(async (tx) => await work(new DbStorage(tx)));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    return (await this.getUser(id)) || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const hashedPassword = await bcrypt.hash(insertUser.password, 10);
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        username: insertUser.username,
+        password: hashedPassword,
+        role: insertUser.role || "client",
+        adminRole: insertUser.adminRole || null,
+        planId: insertUser.planId || null,
+        package: insertUser.package || null,
+        planVersionId: insertUser.planVersionId || null,
+        parentId: insertUser.parentId || null,
+        position: insertUser.position || null,
+      })
+      .returning();
+    return user;
+  }
+
+  // The unique (parent_id, position) index refuses a slot a concurrent registration took between
+  // reading the free positions and inserting; the placement then runs again on the current tree
+  async createPendingClient(client: CreateClientRequest, plan: Plan, paymentReference: string, adminId?: string): Promise<User> {
+    const hashedPassword = await bcrypt.hash(client.password, 10);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.db.transaction(async (tx) =>
+          await new DbStorage(tx).placePendingClient(client, hashedPassword, plan, paymentReference, adminId));
+      } catch (error) {
+        if (attempt >= placementAttempts || !isTreeSlotConflict(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Same placement rules as MemStorage: requested parent first, then the first
+  // client with a free slot, then directly under the admin
+  private async placePendingClient(client: CreateClientRequest, hashedPassword: string, plan: Plan, paymentReference: string, adminId?: string): Promise<User> {
+    let parentId = client.parentId || adminId;
+    let position: string | null = null;
+
+    if (parentId) {
+      const availablePositions = await this.getAvailablePositions(parentId);
+
+      if (availablePositions.length === 0) {
+        const allClients = await this.getAllClients();
+
+        for (const potentialParent of allClients) {
+          const availablePos = await this.getAvailablePositions(potentialParent.id);
+          if (availablePos.length > 0) {
+            parentId = potentialParent.id;
+            position = availablePos[0];
+            break;
+          }
+        }
+
+        if (!position && adminId) {
+          parentId = adminId;
+          const adminPositions = await this.getAvailablePositions(adminId);
+          position = adminPositions.length > 0 ? adminPositions[0] : null;
+        }
+      } else {
+        position = client.position && availablePositions.includes(client.position) ? client.position : availablePositions[0];
+      }
+    }
+
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        name: client.name || null,
+        username: client.username,
+        password: hashedPassword,
+        email: client.email || null,
+        mobile: client.mobile || null,
+        role: "client",
+        planId: plan.id,
+        package: plan.name,
+        planVersionId: plan.currentVersionId,
+        parentId: parentId || null,
+        position: position || null,
+        status: "pending_payment",
+        paymentReference,
+        mustChangePassword: true,
+      })
+      .returning();
+    return user;
+  }
+
+  async activateClient(id: string): Promise<User | null> {
+    const [user] = await this.db
+      .update(users)
+      .set({ status: "active" })
+      .where(and(eq(users.id, id), eq(users.status, "pending_payment")))
+      .returning();
+    return user || null;
+  }
+
+  async updateMembership(id: string, membership: Partial<Pick<User, "status" | "planExpiresAt">>): Promise<User | null> {
+    if (Object.keys(membership).length === 0) {
+      return await this.getUserById(id);
+    }
+    const [user] = await this.db.update(users).set(membership).where(eq(users.id, id)).returning();
+    return user || null;
+  }
+
+  async getPendingClients(): Promise<User[]> {
+    return await this.db.select().from(users).where(eq(users.status, "pending_payment")).orderBy(users.createdAt);
+  }
+
+  async getAdmins(): Promise<User[]> {
+    return await this.db.select().from(users).where(eq(users.role, "admin")).orderBy(users.createdAt);
+  }
+
+  async createAdmin(admin: CreateAdminRequest, password: string): Promise<User> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...admin, password: hashedPassword, role: "admin", mustChangePassword: true })
+      .returning();
+    return user;
+  }
+
+  async updateAdmin(id: string, changes: Partial<Pick<User, "adminRole" | "status">>): Promise<User | null> {
+    if (Object.keys(changes).length === 0) {
+      return await this.getUserById(id);
+    }
+    const [user] = await this.db
+      .update(users)
+      .set(changes)
+      .where(and(eq(users.id, id), eq(users.role, "admin")))
+      .returning();
+    return user || null;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async validateUser(username: string, password: string, role: string): Promise<User | null> {
+    const user = await this.getUserByUsername(username);
+    if (!user || user.role !== role) {
+      return null;
+    }
+
+    const isValid = await bcrypt.compare(password, user.password);
+    return isValid ? user : null;
+  }
+
+  async createLoginAttempt(attemptData: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [attempt] = await this.db.insert(loginAttempts).values(attemptData).returning();
+    return attempt;
+  }
+
+  async getLoginAttempts(filter: { ip?: string; userId?: string; since?: Date }): Promise<LoginAttempt[]> {
+    return await this.db
+      .select()
+      .from(loginAttempts)
+      .where(and(
+        filter.ip ? eq(loginAttempts.ip, filter.ip) : undefined,
+        filter.userId ? eq(loginAttempts.userId, filter.userId) : undefined,
+        filter.since ? gte(loginAttempts.createdAt, filter.since) : undefined,
+      ))
+      .orderBy(desc(loginAttempts.createdAt));
+  }
+
+  // Incremented in SQL so concurrent failures are all counted
+  async recordFailedLogin(userId: string, at: Date): Promise<User | null> {
+    const [user] = await this.db
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1`, lastFailedLoginAt: at })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || null;
+  }
+
+  async lockUser(userId: string, until: Date): Promise<User | null> {
+    const [user] = await this.db.update(users).set({ lockedUntil: until }).where(eq(users.id, userId)).returning();
+    return user || null;
+  }
+
+  async clearFailedLogins(userId: string): Promise<User | null> {
+    const [user] = await this.db
+      .update(users)
+      .set({ failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || null;
+  }
+
+  async getLockedUsers(now: Date): Promise<User[]> {
+    return await this.db.select().from(users).where(gt(users.lockedUntil, now)).orderBy(users.username);
+  }
+
+  async setPassword(userId: string, password: string, mustChangePassword: boolean): Promise<User | null> {
+    const [user] = await this.db
+      .update(users)
+      .set({ password: await bcrypt.hash(password, 10), mustChangePassword, sessionVersion: sql`${users.sessionVersion} + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || null;
+  }
+
+  async markMobileVerified(userId: string, at: Date): Promise<User | null> {
+    const [user] = await this.db.update(users).set({ mobileVerifiedAt: at }).where(eq(users.id, userId)).returning();
+    return user || null;
+  }
+
+  async createOtpCode(otpData: InsertOtpCode): Promise<OtpCode> {
+    const [otp] = await this.db.insert(otpCodes).values(otpData).returning();
+    return otp;
+  }
+
+  async getLatestOtpCode(userId: string, purpose: OtpPurpose): Promise<OtpCode | undefined> {
+    const [otp] = await this.db
+      .select()
+      .from(otpCodes)
+      .where(and(eq(otpCodes.userId, userId), eq(otpCodes.purpose, purpose)))
+      .orderBy(desc(otpCodes.createdAt))
+      .limit(1);
+    return otp;
+  }
+
+  async recordOtpAttempt(id: string): Promise<OtpCode | null> {
+    const [otp] = await this.db
+      .update(otpCodes)
+      .set({ attempts: sql`${otpCodes.attempts} + 1` })
+      .where(eq(otpCodes.id, id))
+      .returning();
+    return otp || null;
+  }
+
+  async consumeOtpCode(id: string, at: Date): Promise<OtpCode | null> {
+    const [otp] = await this.db
+      .update(otpCodes)
+      .set({ consumedAt: at })
+      .where(and(eq(otpCodes.id, id), isNull(otpCodes.consumedAt)))
+      .returning();
+    return otp || null;
+  }
+
+  async getTwoFactorSecret(userId: string): Promise<TwoFactorSecret | undefined> {
+    const [twoFactor] = await this.db.select().from(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    return twoFactor;
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<TwoFactorSecret> {
+    const reset = { secret, enabledAt: null, lastUsedStep: null, backupCodeHashes: [], createdAt: new Date() };
+    const [twoFactor] = await this.db
+      .insert(twoFactorSecrets)
+      .values({ userId, ...reset })
+      .onConflictDoUpdate({ target: twoFactorSecrets.userId, set: reset })
+      .returning();
+    return twoFactor;
+  }
+
+  async enableTwoFactor(userId: string, at: Date, backupCodeHashes: string[]): Promise<TwoFactorSecret | null> {
+    const [twoFactor] = await this.db
+      .update(twoFactorSecrets)
+      .set({ enabledAt: at, backupCodeHashes })
+      .where(eq(twoFactorSecrets.userId, userId))
+      .returning();
+    return twoFactor || null;
+  }
+
+  async setBackupCodes(userId: string, backupCodeHashes: string[]): Promise<TwoFactorSecret | null> {
+    const [twoFactor] = await this.db
+      .update(twoFactorSecrets)
+      .set({ backupCodeHashes })
+      .where(eq(twoFactorSecrets.userId, userId))
+      .returning();
+    return twoFactor || null;
+  }
+
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step)),
+      ))
+      .returning({ userId: twoFactorSecrets.userId });
+    return updated.length > 0;
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    // jsonb "-" drops the matching array element; the exists check makes a used code fail
+    const updated = await this.db
+      .update(twoFactorSecrets)
+      .set({ backupCodeHashes: sql`${twoFactorSecrets.backupCodeHashes} - ${codeHash}::text` })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        sql`jsonb_exists(${twoFactorSecrets.backupCodeHashes}, ${codeHash})`,
+      ))
+      .returning({ userId: twoFactorSecrets.userId });
+    return updated.length > 0;
+  }
+
+  async deleteTwoFactorSecret(userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId)).returning({ userId: twoFactorSecrets.userId });
+    return deleted.length > 0;
+  }
+
+  async getAllClients(): Promise<User[]> {
+    return await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.role, "client"), ne(users.status, "pending_payment")))
+      .orderBy(users.createdAt);
+  }
+
+  async getClientsByParent(parentId: string): Promise<User[]> {
+    return await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.parentId, parentId), ne(users.status, "pending_payment")))
+      .orderBy(users.createdAt);
+  }
+
+  async getClientDownline(clientId: string): Promise<User[]> {
+    return await this.db
+      .select()
+      .from(users)
+      .where(and(ne(users.status, "pending_payment"), sql`${users.id} IN (
+        WITH RECURSIVE downline AS (
+          SELECT id FROM ${users} WHERE parent_id = ${clientId}
+          UNION ALL
+          SELECT u.id FROM ${users} u INNER JOIN downline d ON u.parent_id = d.id
+        )
+        SELECT id FROM downline
+      )`))
+      .orderBy(users.createdAt);
+  }
+
+  async getAvailablePositions(parentId: string): Promise<("left" | "right")[]> {
+    const children = await this.db
+      .select({ position: users.position })
+      .from(users)
+      .where(eq(users.parentId, parentId));
+    const occupiedPositions = children.map(child => child.position).filter(Boolean);
+
+    const allPositions: ("left" | "right")[] = ["left", "right"];
+    return allPositions.filter(pos => !occupiedPositions.includes(pos));
+  }
+
+  async getClientStats(): Promise<ClientStats> {
+    const rows = await this.db
+      .select({ planId: users.planId, count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(and(eq(users.role, "client"), ne(users.status, "pending_payment")))
+      .groupBy(users.planId);
+
+    return {
+      total: rows.reduce((sum, row) => sum + row.count, 0),
+      byPlan: (await this.getAllPlans()).map(plan => ({
+        planId: plan.id,
+        name: plan.name,
+        count: rows.find(row => row.planId === plan.id)?.count ?? 0,
+      })),
+    };
+  }
+
+
+  async getAllPlans(): Promise<Plan[]> {
+    return await this.db.select().from(plans).orderBy(plans.createdAt);
+  }
+
+  async getPlanById(id: string): Promise<Plan | null> {
+    const [plan] = await this.db.select().from(plans).where(eq(plans.id, id));
+    return plan || null;
+  }
+
+  async createPlan(planData: InsertPlan): Promise<Plan> {
+    return await this.db.transaction(async (tx) => {
+      const [plan] = await tx
+        .insert(plans)
+        .values({ ...planData, status: planData.status || "active" })
+        .returning();
+      return await this.addPlanVersion(tx, plan);
+    });
+  }
+
+  // Snapshots the plan's terms as its next version and points the plan at it
+  private async addPlanVersion(tx: Transaction, plan: Plan): Promise<Plan> {
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`coalesce(max(${planVersions.version}), 0)::int` })
+      .from(planVersions)
+      .where(eq(planVersions.planId, plan.id));
+    const [version] = await tx
+      .insert(planVersions)
+      .values({
+        planId: plan.id,
+        version: latest + 1,
+        price: plan.price,
+        currency: plan.currency,
+        businessVolume: plan.businessVolume,
+        referralCommission: plan.referralCommission,
+        treeCommission: plan.treeCommission,
+        levelIncome: plan.levelIncome,
+        dailyPairCap: plan.dailyPairCap,
+        weeklyIncomeCap: plan.weeklyIncomeCap,
+        monthlyIncomeCap: plan.monthlyIncomeCap,
+        lifetimeCapMultiple: plan.lifetimeCapMultiple,
+        capOverflow: plan.capOverflow,
+        validityDays: plan.validityDays,
+      })
+      .returning();
+    const [updated] = await tx.update(plans).set({ currentVersionId: version.id }).where(eq(plans.id, plan.id)).returning();
+    return updated;
+  }
+
+  async updatePlan(id: string, planData: UpdatePlan): Promise<Plan | null> {
+    if (Object.keys(planData).length === 0) {
+      return this.getPlanById(id);
+    }
+    return await this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(plans).where(eq(plans.id, id)).for("update");
+      if (!existing) return null;
+
+      let [plan] = await tx.update(plans).set(planData).where(eq(plans.id, id)).returning();
+      // Changed terms apply to new sign-ups only; existing members keep the version they bought
+      if (planTermsChanged(existing, plan)) {
+        plan = await this.addPlanVersion(tx, plan);
+      }
+      // Members display the plan under its current name
+      if (planData.name) {
+        await tx.update(users).set({ package: plan.name }).where(eq(users.planId, id));
+      }
+      return plan;
+    });
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(plans).where(eq(plans.id, id)).returning({ id: plans.id });
+    return deleted.length > 0;
+  }
+
+  async countPlanMembers(planId: string): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(users).where(eq(users.planId, planId));
+    return row.count;
+  }
+
+  async migratePlanMembers(fromPlanId: string, toPlan: Plan): Promise<number> {
+    const migrated = await this.db
+      .update(users)
+      .set({ planId: toPlan.id, package: toPlan.name, planVersionId: toPlan.currentVersionId })
+      .where(eq(users.planId, fromPlanId))
+      .returning({ id: users.id });
+    return migrated.length;
+  }
+
+  async getPlanVersions(planId: string): Promise<PlanVersion[]> {
+    return await this.db.select().from(planVersions).where(eq(planVersions.planId, planId)).orderBy(desc(planVersions.version));
+  }
+
+  async getPlanVersionById(id: string): Promise<PlanVersion | null> {
+    const [version] = await this.db.select().from(planVersions).where(eq(planVersions.id, id));
+    return version || null;
+  }
+
+  async createEarning(earningData: InsertEarning): Promise<Earning> {
+    const [earning] = await this.db.insert(earnings).values(earningData).returning();
+    return earning;
+  }
+
+  async getEarningsByUser(userId: string): Promise<Earning[]> {
+    return await this.db.select().from(earnings).where(eq(earnings.userId, userId)).orderBy(earnings.createdAt);
+  }
+
+  async getAllEarnings(): Promise<Earning[]> {
+    return await this.db.select().from(earnings).orderBy(earnings.createdAt);
+  }
+
+  async getCarriedEarnings(): Promise<Earning[]> {
+    return await this.db.select().from(earnings).where(gt(earnings.carriedForward, 0)).orderBy(earnings.createdAt);
+  }
+
+  async releaseCarriedForward(id: string, amount: number, carriedForward: number): Promise<Earning | null> {
+    const [earning] = await this.db
+      .update(earnings)
+      .set({ carriedForward: sql`greatest(${earnings.carriedForward} - ${amount}, 0)` })
+      .where(and(eq(earnings.id, id), eq(earnings.carriedForward, carriedForward)))
+      .returning();
+    return earning || null;
+  }
+
+  async getBusinessVolume(userId: string): Promise<BusinessVolume | null> {
+    const [volume] = await this.db.select().from(businessVolumes).where(eq(businessVolumes.userId, userId));
+    return volume || null;
+  }
+
+  async getAllBusinessVolumes(): Promise<BusinessVolume[]> {
+    return await this.db.select().from(businessVolumes);
+  }
+
+  async addBusinessVolume(userId: string, leg: "left" | "right", volume: number): Promise<BusinessVolume> {
+    const increment = leg === "left"
+      ? {
+          leftVolume: sql`${businessVolumes.leftVolume} + ${volume}`,
+          leftCarryForward: sql`${businessVolumes.leftCarryForward} + ${volume}`,
+        }
+      : {
+          rightVolume: sql`${businessVolumes.rightVolume} + ${volume}`,
+          rightCarryForward: sql`${businessVolumes.rightCarryForward} + ${volume}`,
+        };
+    const initial = leg === "left"
+      ? { leftVolume: volume, leftCarryForward: volume }
+      : { rightVolume: volume, rightCarryForward: volume };
+
+    const [row] = await this.db
+      .insert(businessVolumes)
+      .values({ userId, ...initial })
+      .onConflictDoUpdate({
+        target: businessVolumes.userId,
+        set: { ...increment, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async addLegMember(userId: string, leg: "left" | "right"): Promise<BusinessVolume> {
+    const [row] = await this.db
+      .insert(businessVolumes)
+      .values(leg === "left" ? { userId, leftMembers: 1 } : { userId, rightMembers: 1 })
+      .onConflictDoUpdate({
+        target: businessVolumes.userId,
+        set: {
+          ...(leg === "left"
+            ? { leftMembers: sql`${businessVolumes.leftMembers} + 1` }
+            : { rightMembers: sql`${businessVolumes.rightMembers} + 1` }),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  // Matched BV is taken from both legs' carry-forward
+  async recordPairMatch(userId: string, matchedVolume: number): Promise<PairMatch> {
+    return await this.db.transaction(async (tx) => {
+      const updated = await tx
+        .update(businessVolumes)
+        .set({
+          leftCarryForward: sql`${businessVolumes.leftCarryForward} - ${matchedVolume}`,
+          rightCarryForward: sql`${businessVolumes.rightCarryForward} - ${matchedVolume}`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(businessVolumes.userId, userId),
+          gte(businessVolumes.leftCarryForward, matchedVolume),
+          gte(businessVolumes.rightCarryForward, matchedVolume),
+        ))
+        .returning({ userId: businessVolumes.userId });
+      if (updated.length === 0) {
+        throw new Error("Not enough unmatched volume");
+      }
+
+      const [match] = await tx.insert(pairMatches).values({ userId, matchedVolume }).returning();
+      return match;
+    });
+  }
+
+  async getPairMatches(userId: string, since?: Date): Promise<PairMatch[]> {
+    const condition = since
+      ? and(eq(pairMatches.userId, userId), gte(pairMatches.createdAt, since))
+      : eq(pairMatches.userId, userId);
+    return await this.db.select().from(pairMatches).where(condition).orderBy(pairMatches.createdAt);
+  }
+
+  async getUserWallet(userId: string): Promise<Wallet> {
+    await this.db.insert(wallets).values({ userId }).onConflictDoNothing({ target: wallets.userId });
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.userId, userId));
+    return wallet;
+  }
+
+  async lockUserWallet(userId: string): Promise<Wallet> {
+    await this.db.insert(wallets).values({ userId }).onConflictDoNothing({ target: wallets.userId });
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.userId, userId)).for("update");
+    return wallet;
+  }
+
+  async getSystemWallet(code: SystemWalletCode): Promise<Wallet> {
+    await this.db.insert(wallets).values({ code }).onConflictDoNothing({ target: wallets.code });
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.code, code));
+    return wallet;
+  }
+
+  async postLedgerTransaction(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    assertBalanced(entries);
+
+    const transactionId = randomUUID();
+    return await this.db
+      .insert(ledgerEntries)
+      .values(entries.map(entry => ({ ...entry, transactionId })))
+      .returning();
+  }
+
+  async getLedgerEntries(walletId: string): Promise<LedgerEntry[]> {
+    return await this.db.select().from(ledgerEntries).where(eq(ledgerEntries.walletId, walletId)).orderBy(ledgerEntries.createdAt);
+  }
+
+  async getWalletBalance(walletId: string): Promise<number> {
+    const [row] = await this.db
+      .select({ balance: sql<number>`coalesce(sum(${ledgerEntries.amount}), 0)::int` })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.walletId, walletId));
+    return row.balance;
+  }
+
+  async createPayoutAccount(userId: string, accountData: InsertPayoutAccount): Promise<PayoutAccount> {
+    const [account] = await this.db.insert(payoutAccounts).values({ ...accountData, userId }).returning();
+    return account;
+  }
+
+  async getPayoutAccounts(userId: string): Promise<PayoutAccount[]> {
+    return await this.db.select().from(payoutAccounts).where(eq(payoutAccounts.userId, userId)).orderBy(payoutAccounts.createdAt);
+  }
+
+  async getPayoutAccountById(id: string): Promise<PayoutAccount | null> {
+    const [account] = await this.db.select().from(payoutAccounts).where(eq(payoutAccounts.id, id));
+    return account || null;
+  }
+
+  async createWithdrawal(withdrawalData: InsertWithdrawal): Promise<Withdrawal> {
+    const [withdrawal] = await this.db.insert(withdrawals).values(withdrawalData).returning();
+    return withdrawal;
+  }
+
+  async getWithdrawalById(id: string): Promise<Withdrawal | null> {
+    const [withdrawal] = await this.db.select().from(withdrawals).where(eq(withdrawals.id, id));
+    return withdrawal || null;
+  }
+
+  async getWithdrawalsByUser(userId: string): Promise<Withdrawal[]> {
+    return await this.db.select().from(withdrawals).where(eq(withdrawals.userId, userId)).orderBy(desc(withdrawals.createdAt));
+  }
+
+  async getAllWithdrawals(status?: string): Promise<Withdrawal[]> {
+    const query = this.db.select().from(withdrawals);
+    return await (status ? query.where(eq(withdrawals.status, status)) : query).orderBy(desc(withdrawals.createdAt));
+  }
+
+  async updateWithdrawal(id: string, withdrawalData: Partial<InsertWithdrawal>, fromStatuses: string[]): Promise<Withdrawal | null> {
+    const [withdrawal] = await this.db
+      .update(withdrawals)
+      .set(withdrawalData)
+      .where(and(eq(withdrawals.id, id), inArray(withdrawals.status, fromStatuses)))
+      .returning();
+    return withdrawal || null;
+  }
+
+  async createDeposit(depositData: InsertDeposit): Promise<Deposit> {
+    const [deposit] = await this.db.insert(deposits).values(depositData).onConflictDoNothing().returning();
+    if (!deposit) {
+      throw new Error("A deposit with this UPI transaction reference already exists");
+    }
+    return deposit;
+  }
+
+  async getDepositById(id: string): Promise<Deposit | null> {
+    const [deposit] = await this.db.select().from(deposits).where(eq(deposits.id, id));
+    return deposit || null;
+  }
+
+  async getDepositByReference(upiTransactionRef: string): Promise<Deposit | null> {
+    const [deposit] = await this.db.select().from(deposits).where(eq(deposits.upiTransactionRef, upiTransactionRef));
+    return deposit || null;
+  }
+
+  async getDepositsByClient(clientId: string): Promise<Deposit[]> {
+    return await this.db.select().from(deposits).where(eq(deposits.clientId, clientId)).orderBy(desc(deposits.createdAt));
+  }
+
+  async getAllDeposits(status?: string): Promise<Deposit[]> {
+    const query = this.db.select().from(deposits);
+    return await (status ? query.where(eq(deposits.status, status)) : query).orderBy(desc(deposits.createdAt));
+  }
+
+  async updateDeposit(id: string, depositData: Partial<InsertDeposit>, fromStatuses: string[]): Promise<Deposit | null> {
+    const [deposit] = await this.db
+      .update(deposits)
+      .set(depositData)
+      .where(and(eq(deposits.id, id), inArray(deposits.status, fromStatuses)))
+      .returning();
+    return deposit || null;
+  }
+
+  async createPlanUpgrade(upgradeData: InsertPlanUpgrade): Promise<PlanUpgrade> {
+    const [upgrade] = await this.db.insert(planUpgrades).values(upgradeData).returning();
+    return upgrade;
+  }
+
+  async getPlanUpgradeById(id: string): Promise<PlanUpgrade | null> {
+    const [upgrade] = await this.db.select().from(planUpgrades).where(eq(planUpgrades.id, id));
+    return upgrade || null;
+  }
+
+  async getPlanUpgradesByUser(userId: string): Promise<PlanUpgrade[]> {
+    return await this.db.select().from(planUpgrades).where(eq(planUpgrades.userId, userId)).orderBy(planUpgrades.createdAt);
+  }
+
+  async getAllPlanUpgrades(status?: string): Promise<PlanUpgrade[]> {
+    const query = this.db.select().from(planUpgrades);
+    return await (status ? query.where(eq(planUpgrades.status, status)) : query).orderBy(desc(planUpgrades.createdAt));
+  }
+
+  async cancelPlanUpgrade(id: string): Promise<PlanUpgrade | null> {
+    const [upgrade] = await this.db
+      .update(planUpgrades)
+      .set({ status: "cancelled" })
+      .where(and(eq(planUpgrades.id, id), eq(planUpgrades.status, "pending_payment")))
+      .returning();
+    return upgrade || null;
+  }
+
+  // Marks the upgrade completed and moves the client onto the new plan
+  async completePlanUpgrade(id: string, plan: Plan): Promise<PlanUpgrade | null> {
+    return await this.db.transaction(async (tx) => {
+      const [upgrade] = await tx
+        .update(planUpgrades)
+        .set({ status: "completed", completedAt: new Date() })
+        .where(and(eq(planUpgrades.id, id), eq(planUpgrades.status, "pending_payment")))
+        .returning();
+      if (!upgrade) return null;
+
+      await tx
+        .update(users)
+        .set({ planId: plan.id, package: plan.name, planVersionId: upgrade.toPlanVersionId })
+        .where(eq(users.id, upgrade.userId));
+      return upgrade;
+    });
+  }
+
+  async createPlanRenewal(renewalData: InsertPlanRenewal): Promise<PlanRenewal> {
+    const [renewal] = await this.db.insert(planRenewals).values(renewalData).returning();
+    return renewal;
+  }
+
+  async getPlanRenewalById(id: string): Promise<PlanRenewal | null> {
+    const [renewal] = await this.db.select().from(planRenewals).where(eq(planRenewals.id, id));
+    return renewal || null;
+  }
+
+  async getPlanRenewalsByUser(userId: string): Promise<PlanRenewal[]> {
+    return await this.db.select().from(planRenewals).where(eq(planRenewals.userId, userId)).orderBy(planRenewals.createdAt);
+  }
+
+  async getAllPlanRenewals(status?: string): Promise<PlanRenewal[]> {
+    const query = this.db.select().from(planRenewals);
+    return await (status ? query.where(eq(planRenewals.status, status)) : query).orderBy(desc(planRenewals.createdAt));
+  }
+
+  async cancelPlanRenewal(id: string): Promise<PlanRenewal | null> {
+    const [renewal] = await this.db
+      .update(planRenewals)
+      .set({ status: "cancelled" })
+      .where(and(eq(planRenewals.id, id), eq(planRenewals.status, "pending_payment")))
+      .returning();
+    return renewal || null;
+  }
+
+  // Marks the renewal completed and puts the member back in force until the new expiry
+  async completePlanRenewal(id: string, renewedUntil: Date): Promise<PlanRenewal | null> {
+    return await this.db.transaction(async (tx) => {
+      const [renewal] = await tx
+        .update(planRenewals)
+        .set({ status: "completed", renewedUntil, completedAt: new Date() })
+        .where(and(eq(planRenewals.id, id), eq(planRenewals.status, "pending_payment")))
+        .returning();
+      if (!renewal) return null;
+
+      await tx
+        .update(users)
+        .set({ status: "active", planExpiresAt: renewedUntil })
+        .where(eq(users.id, renewal.userId));
+      return renewal;
+    });
+  }
+
+  async getAllCoupons(): Promise<Coupon[]> {
+    return await this.db.select().from(coupons).orderBy(desc(coupons.createdAt));
+  }
+
+  async getCouponById(id: string): Promise<Coupon | null> {
+    const [coupon] = await this.db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon || null;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    const [coupon] = await this.db.select().from(coupons).where(eq(coupons.code, code));
+    return coupon || null;
+  }
+
+  async createCoupon(couponData: InsertCoupon): Promise<Coupon> {
+    const [coupon] = await this.db.insert(coupons).values(couponData).onConflictDoNothing().returning();
+    if (!coupon) {
+      throw new Error("A coupon with this code already exists");
+    }
+    return coupon;
+  }
+
+  async updateCoupon(id: string, couponData: UpdateCoupon): Promise<Coupon | null> {
+    const [coupon] = await this.db.update(coupons).set(couponData).where(eq(coupons.id, id)).returning();
+    return coupon || null;
+  }
+
+  async deleteCoupon(id: string): Promise<boolean> {
+    const result = await this.db.delete(coupons).where(eq(coupons.id, id)).returning({ id: coupons.id });
+    return result.length > 0;
+  }
+
+  async countCouponRedemptions(couponId: string): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(couponRedemptions).where(eq(couponRedemptions.couponId, couponId));
+    return row.count;
+  }
+
+  // The coupon row stays locked from counting its redemptions to the insert, so concurrent
+  // registrations cannot take it past its usage limit
+  async createCouponRedemption(redemptionData: InsertCouponRedemption): Promise<CouponRedemption> {
+    return await this.db.transaction(async (tx) => {
+      const [coupon] = await tx.select().from(coupons).where(eq(coupons.id, redemptionData.couponId)).for("update");
+      if (coupon && coupon.maxUses > 0) {
+        const [row] = await tx.select({ count: sql<number>`count(*)::int` }).from(couponRedemptions).where(eq(couponRedemptions.couponId, coupon.id));
+        if (row.count >= coupon.maxUses) {
+          throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+        }
+      }
+
+      const [redemption] = await tx.insert(couponRedemptions).values(redemptionData).onConflictDoNothing().returning();
+      if (!redemption) {
+        throw new Error("A coupon has already been applied to this registration");
+      }
+      return redemption;
+    });
+  }
+
+  async getCouponRedemptionByUser(userId: string): Promise<CouponRedemption | null> {
+    const [redemption] = await this.db.select().from(couponRedemptions).where(eq(couponRedemptions.userId, userId));
+    return redemption || null;
+  }
+
+  async deleteCouponRedemption(userId: string): Promise<boolean> {
+    const result = await this.db.delete(couponRedemptions).where(eq(couponRedemptions.userId, userId)).returning({ id: couponRedemptions.id });
+    return result.length > 0;
+  }
+}
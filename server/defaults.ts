@@ -0,0 +1,39 @@
+import { type InsertPlan } from "@shared/schema";
+
+// Account created on first start (MemStorage) or by `npm run db:seed`
+export const defaultAdmin = {
+  name: "System Admin",
+  username: "admin",
+  email: "admin@nappinghand.com",
+  adminRole: "super_admin",
+};
+
+export const defaultPlans: InsertPlan[] = [
+  {
+    name: "Silver",
+    price: 51000,
+    currency: "INR",
+    businessVolume: "100",
+    referralCommission: 10000,
+    treeCommission: 20000,
+    status: "active",
+  },
+  {
+    name: "Gold",
+    price: 101000,
+    currency: "INR",
+    businessVolume: "200",
+    referralCommission: 20000,
+    treeCommission: 40000,
+    status: "active",
+  },
+  {
+    name: "Diamond",
+    price: 151000,
+    currency: "INR",
+    businessVolume: "300",
+    referralCommission: 30000,
+    treeCommission: 60000,
+    status: "active",
+  },
+];
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+import { recordDeposit, approveDeposit, rejectDeposit } from "./deposits";
+
+// An active sponsor and a member registered under them who has not paid yet
+async function createPendingMember() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const silver = (await storage.getAllPlans()).find(plan => plan.name === "Silver")!;
+
+  const register = async (username: string, parentId: string) => await createPendingRegistration(storage, admin.id, {
+    name: username,
+    username,
+    password: "member123",
+    email: `${username}@example.com`,
+    mobile: "9999999999",
+    planId: silver.id,
+    parentId,
+    position: "left",
+  });
+  const sponsor = await activateRegistration(storage, (await register("sponsor", admin.id)).id);
+  const member = await register("member", sponsor.id);
+
+  const record = async (upiTransactionRef: string) => await recordDeposit(storage, admin.id, {
+    clientId: member.id,
+    amount: silver.price,
+    upiTransactionRef,
+    payerName: "Member",
+  });
+  const balanceOf = async (userId: string) => await storage.getWalletBalance((await storage.getUserWallet(userId)).id);
+  return { storage, admin, silver, sponsor, member, record, balanceOf };
+}
+
+test("approving a deposit activates the member and pays the sponsor", async () => {
+  const { storage, admin, silver, sponsor, member, record, balanceOf } = await createPendingMember();
+  const deposit = await record("UPI001");
+  await approveDeposit(storage, deposit.id, admin.id);
+
+  assert.equal((await storage.getUserById(member.id))?.status, "active");
+  assert.equal(await balanceOf(sponsor.id), silver.referralCommission);
+  await assert.rejects(approveDeposit(storage, deposit.id, admin.id), /already approved/);
+  await assert.rejects(record("UPI002"), /already active/);
+});
+
+test("a deposit approved twice at once activates and pays once", async () => {
+  const { storage, admin, silver, sponsor, record, balanceOf } = await createPendingMember();
+  const deposit = await record("UPI001");
+
+  const results = await Promise.allSettled([approveDeposit(storage, deposit.id, admin.id), approveDeposit(storage, deposit.id, admin.id)]);
+  assert.deepEqual(results.map(result => result.status).sort(), ["fulfilled", "rejected"]);
+  assert.equal(await balanceOf(sponsor.id), silver.referralCommission);
+});
+
+test("a rejected deposit leaves the member pending and can be recorded again", async () => {
+  const { storage, admin, member, record } = await createPendingMember();
+  const rejected = await record("UPI001");
+  await assert.rejects(record("UPI002"), /already been recorded/);
+
+  await rejectDeposit(storage, rejected.id, admin.id, "No such UPI transaction");
+  assert.equal((await storage.getUserById(member.id))?.status, "pending_payment");
+  await assert.rejects(approveDeposit(storage, rejected.id, admin.id), /already rejected/);
+
+  const retry = await record("UPI002");
+  await approveDeposit(storage, retry.id, admin.id);
+  assert.equal((await storage.getUserById(member.id))?.status, "active");
+});
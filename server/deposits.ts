@@ -0,0 +1,145 @@
+import { type User, type Deposit, type DepositDetails, type PlanUpgrade, type PlanRenewal, type RecordDepositRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { activateRegistration } from "./registrations";
+import { getPendingUpgrade, completeUpgrade } from "./upgrades";
+import { getRegistrationPrice } from "./coupons";
+import { getPendingRenewal, completeRenewal } from "./renewals";
+
+// The deposit must pay for a registration that is still awaiting payment and cover its price after any coupon
+async function getPayableClient(storage: IStorage, clientId: string, amount: number): Promise<User> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.status !== "pending_payment") {
+    throw new Error("Client registration not found or already active");
+  }
+  if (amount < (await getRegistrationPrice(storage, client)).amount) {
+    throw new Error("Deposit amount does not cover the plan price");
+  }
+  return client;
+}
+
+// An upgrade payment must be for the client's pending upgrade and cover the price difference
+async function getPayableUpgrade(storage: IStorage, upgradeId: string, clientId: string, amount: number): Promise<PlanUpgrade> {
+  const upgrade = await getPendingUpgrade(storage, upgradeId);
+  if (upgrade.userId !== clientId) {
+    throw new Error("Upgrade does not belong to this client");
+  }
+  if (amount < upgrade.amount) {
+    throw new Error("Deposit amount does not cover the upgrade price");
+  }
+  return upgrade;
+}
+
+// A renewal payment must be for the client's pending renewal and cover the plan price
+async function getPayableRenewal(storage: IStorage, renewalId: string, clientId: string, amount: number): Promise<PlanRenewal> {
+  const renewal = await getPendingRenewal(storage, renewalId);
+  if (renewal.userId !== clientId) {
+    throw new Error("Renewal does not belong to this client");
+  }
+  if (amount < renewal.amount) {
+    throw new Error("Deposit amount does not cover the renewal price");
+  }
+  return renewal;
+}
+
+export async function recordDeposit(storage: IStorage, adminId: string, request: RecordDepositRequest): Promise<Deposit> {
+  let plan: string;
+  if (request.upgradeId) {
+    const upgrade = await getPayableUpgrade(storage, request.upgradeId, request.clientId, request.amount);
+    plan = (await storage.getPlanById(upgrade.toPlanId))?.name ?? "";
+  } else if (request.renewalId) {
+    const renewal = await getPayableRenewal(storage, request.renewalId, request.clientId, request.amount);
+    plan = (await storage.getPlanById(renewal.planId))?.name ?? "";
+  } else {
+    plan = (await getPayableClient(storage, request.clientId, request.amount)).package!;
+  }
+
+  // One payment per registration, upgrade or renewal; a rejected one can be recorded again
+  const existing = (await storage.getDepositsByClient(request.clientId))
+    .filter(deposit => deposit.upgradeId === (request.upgradeId || null) && deposit.renewalId === (request.renewalId || null));
+  if (existing.some(deposit => deposit.status !== "rejected")) {
+    throw new Error(`A payment has already been recorded for this ${request.upgradeId ? "upgrade" : request.renewalId ? "renewal" : "client"}`);
+  }
+
+  return await storage.createDeposit({
+    ...request,
+    upgradeId: request.upgradeId || null,
+    renewalId: request.renewalId || null,
+    plan,
+    upiTransactionRef: request.upiTransactionRef.toUpperCase(),
+    payerVpa: request.payerVpa || null,
+    status: "pending",
+    recordedById: adminId,
+  });
+}
+
+async function getPendingDeposit(storage: IStorage, id: string): Promise<Deposit> {
+  const deposit = await storage.getDepositById(id);
+  if (!deposit) {
+    throw new Error("Deposit not found");
+  }
+  if (deposit.status !== "pending") {
+    throw new Error(`Deposit is already ${deposit.status}`);
+  }
+  return deposit;
+}
+
+// Approving confirms the payment, which activates the client or completes the upgrade or renewal it was recorded for.
+// The deposit only moves out of pending once, and the payment it confirms commits with it.
+export async function approveDeposit(storage: IStorage, id: string, adminId: string): Promise<Deposit> {
+  const deposit = await getPendingDeposit(storage, id);
+  if (!deposit.clientId) {
+    throw new Error("Deposit is not linked to a client registration");
+  }
+  const clientId = deposit.clientId;
+  if (deposit.upgradeId) {
+    await getPayableUpgrade(storage, deposit.upgradeId, clientId, deposit.amount);
+  } else if (deposit.renewalId) {
+    await getPayableRenewal(storage, deposit.renewalId, clientId, deposit.amount);
+  } else {
+    await getPayableClient(storage, clientId, deposit.amount);
+  }
+
+  return await storage.transaction(async (tx) => {
+    const approved = await tx.updateDeposit(id, {
+      status: "approved",
+      reviewedById: adminId,
+      reviewedAt: new Date(),
+    }, ["pending"]);
+    if (!approved) {
+      throw new Error("Deposit has already been reviewed");
+    }
+    if (deposit.upgradeId) {
+      await completeUpgrade(tx, deposit.upgradeId);
+    } else if (deposit.renewalId) {
+      await completeRenewal(tx, deposit.renewalId);
+    } else {
+      await activateRegistration(tx, clientId);
+    }
+    return approved;
+  });
+}
+
+export async function rejectDeposit(storage: IStorage, id: string, adminId: string, reason: string): Promise<Deposit> {
+  await getPendingDeposit(storage, id);
+  const rejected = await storage.updateDeposit(id, {
+    status: "rejected",
+    rejectionReason: reason,
+    reviewedById: adminId,
+    reviewedAt: new Date(),
+  }, ["pending"]);
+  if (!rejected) {
+    throw new Error("Deposit has already been reviewed");
+  }
+  return rejected;
+}
+
+// Adds the paying client for the reconciliation views
+export async function withDepositDetails(storage: IStorage, list: Deposit[]): Promise<DepositDetails[]> {
+  return Promise.all(list.map(async (deposit) => {
+    const client = deposit.clientId ? await storage.getUserById(deposit.clientId) : null;
+    return {
+      ...deposit,
+      client: client ? { id: client.id, name: client.name, username: client.username, status: client.status, paymentReference: client.paymentReference } : null,
+    };
+  }));
+}
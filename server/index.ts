@@ -1,28 +1,26 @@
 import express, { type Request, Response, NextFunction } from "express";
-import session from "express-session";
-import MemoryStore from "memorystore";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { runPairMatching } from "./volume";
+import { expireStaleRegistrations } from "./registrations";
+import { releaseCarriedIncome } from "./caps";
+import { expireLapsedPlans } from "./renewals";
+import { config } from "./config";
+import { createSessionMiddleware } from "./session";
+import { getMessageSender } from "./messaging";
 
 const app = express();
+// Behind the hosting proxy in production; req.ip then reflects the client for login throttling
+if (app.get("env") === "production") {
+  app.set("trust proxy", 1);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Configure session middleware
-const MemStore = MemoryStore(session);
-app.use(session({
-  secret: process.env.SESSION_SECRET || 'fallback-secret-key',
-  resave: false,
-  saveUninitialized: false,
-  store: new MemStore({
-    checkPeriod: 86400000 // prune expired entries every 24h
-  }),
-  cookie: {
-    secure: false, // set to true in production with HTTPS
-    httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
-  }
-}));
+app.use(createSessionMiddleware(app.get("env")));
+// Refuses to start without a usable OTP sender rather than failing on the first code sent
+getMessageSender();
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -86,4 +84,48 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Periodically pair left vs. right business volume
+  setInterval(() => {
+    runPairMatching(storage)
+      .then(({ usersMatched, volumeMatched }) => {
+        if (usersMatched > 0) {
+          log(`pair matching: ${volumeMatched} BV matched for ${usersMatched} users`);
+        }
+      })
+      .catch((error) => log(`pair matching failed: ${error instanceof Error ? error.message : error}`));
+  }, config.pairMatchingIntervalMs);
+
+  // Pay out capped income that was carried forward into a new day, week or month
+  setInterval(() => {
+    releaseCarriedIncome(storage)
+      .then(({ released, flushed }) => {
+        if (released > 0 || flushed > 0) {
+          log(`carried income: ${released} released, ${flushed} dropped at the lifetime cap`);
+        }
+      })
+      .catch((error) => log(`carried income release failed: ${error instanceof Error ? error.message : error}`));
+  }, config.carriedIncomeReleaseIntervalMs);
+
+  // Drop registrations whose payment never arrived so their tree positions are freed
+  setInterval(() => {
+    expireStaleRegistrations(storage)
+      .then((expired) => {
+        if (expired > 0) {
+          log(`expired ${expired} pending registrations`);
+        }
+      })
+      .catch((error) => log(`registration expiry failed: ${error instanceof Error ? error.message : error}`));
+  }, config.pendingClientSweepIntervalMs);
+
+  // Mark members whose plan period has ended as expired until they renew
+  setInterval(() => {
+    expireLapsedPlans(storage)
+      .then((expired) => {
+        if (expired > 0) {
+          log(`${expired} member plans expired`);
+        }
+      })
+      .catch((error) => log(`plan expiry failed: ${error instanceof Error ? error.message : error}`));
+  }, config.planExpirySweepIntervalMs);
 })();
@@ -0,0 +1,120 @@
+import { type InsertLedgerEntry, type Earning, type LedgerEntry, type Withdrawal, type WalletStatement } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getCappedSummary } from "./caps";
+
+// Every transaction must move money between at least two wallets and net to zero
+export function assertBalanced(entries: InsertLedgerEntry[]) {
+  if (entries.length < 2) {
+    throw new Error("A ledger transaction needs at least two entries");
+  }
+  if (entries.some(entry => !Number.isInteger(entry.amount) || entry.amount === 0)) {
+    throw new Error("Ledger amounts must be non-zero whole paise");
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger transaction (off by ${total})`);
+  }
+}
+
+// Commission paid out of the company's commission account into the member's wallet
+export async function postCommission(storage: IStorage, earning: Earning): Promise<LedgerEntry[]> {
+  const wallet = await storage.getUserWallet(earning.userId);
+  const commissions = await storage.getSystemWallet("commissions");
+  const description = earning.description || `${earning.type} commission`;
+
+  return storage.postLedgerTransaction([
+    { walletId: commissions.id, amount: -earning.amount, type: "commission", description, referenceId: earning.id },
+    { walletId: wallet.id, amount: earning.amount, type: "commission", description, referenceId: earning.id },
+  ]);
+}
+
+// Manual correction by an admin; a negative amount takes money out of the wallet, but never
+// more than the wallet holds
+export async function postAdjustment(storage: IStorage, userId: string, amount: number, description: string): Promise<LedgerEntry[]> {
+  return await storage.transaction(async (tx) => {
+    const wallet = await tx.lockUserWallet(userId);
+    if (amount < 0 && await tx.getWalletBalance(wallet.id) + amount < 0) {
+      throw new Error("Adjustment would leave the wallet with a negative balance");
+    }
+    const adjustments = await tx.getSystemWallet("adjustments");
+
+    return tx.postLedgerTransaction([
+      { walletId: adjustments.id, amount: -amount, type: "adjustment", description },
+      { walletId: wallet.id, amount, type: "adjustment", description },
+    ]);
+  });
+}
+
+// Fee charged to a member and kept by the company
+export async function postFee(storage: IStorage, userId: string, amount: number, description: string, referenceId?: string): Promise<LedgerEntry[]> {
+  const wallet = await storage.getUserWallet(userId);
+  const fees = await storage.getSystemWallet("fees");
+
+  return storage.postLedgerTransaction([
+    { walletId: wallet.id, amount: -amount, type: "fee", description, referenceId: referenceId || null },
+    { walletId: fees.id, amount, type: "fee", description, referenceId: referenceId || null },
+  ]);
+}
+
+// Reserves a requested payout so the same money cannot be requested twice
+export async function postWithdrawalHold(storage: IStorage, withdrawal: Withdrawal): Promise<LedgerEntry[]> {
+  const wallet = await storage.getUserWallet(withdrawal.userId);
+  const holds = await storage.getSystemWallet("withdrawal_holds");
+  const description = "Withdrawal requested";
+
+  return storage.postLedgerTransaction([
+    { walletId: wallet.id, amount: -withdrawal.amount, type: "withdrawal", description, referenceId: withdrawal.id },
+    { walletId: holds.id, amount: withdrawal.amount, type: "withdrawal", description, referenceId: withdrawal.id },
+  ]);
+}
+
+// Returns a held amount to the member when the request is rejected
+export async function releaseWithdrawalHold(storage: IStorage, withdrawal: Withdrawal): Promise<LedgerEntry[]> {
+  const wallet = await storage.getUserWallet(withdrawal.userId);
+  const holds = await storage.getSystemWallet("withdrawal_holds");
+  const description = "Withdrawal rejected, amount released";
+
+  return storage.postLedgerTransaction([
+    { walletId: holds.id, amount: -withdrawal.amount, type: "withdrawal", description, referenceId: withdrawal.id },
+    { walletId: wallet.id, amount: withdrawal.amount, type: "withdrawal", description, referenceId: withdrawal.id },
+  ]);
+}
+
+// Money leaving for an external payout; TDS and the admin fee stay with the company
+export async function postWithdrawal(storage: IStorage, withdrawal: Withdrawal): Promise<LedgerEntry[]> {
+  const source = withdrawal.held
+    ? await storage.getSystemWallet("withdrawal_holds")
+    : await storage.getUserWallet(withdrawal.userId);
+  const payouts = await storage.getSystemWallet("payouts");
+  const description = `Withdrawal paid (ref ${withdrawal.paymentReference})`;
+  const referenceId = withdrawal.id;
+
+  const entries: InsertLedgerEntry[] = [
+    { walletId: source.id, amount: -withdrawal.amount, type: "withdrawal", description, referenceId },
+    { walletId: payouts.id, amount: withdrawal.netAmount, type: "withdrawal", description, referenceId },
+  ];
+  if (withdrawal.tdsAmount > 0) {
+    const tds = await storage.getSystemWallet("tds");
+    entries.push({ walletId: tds.id, amount: withdrawal.tdsAmount, type: "fee", description: "TDS on withdrawal", referenceId });
+  }
+  if (withdrawal.adminFee > 0) {
+    const fees = await storage.getSystemWallet("fees");
+    entries.push({ walletId: fees.id, amount: withdrawal.adminFee, type: "fee", description: "Withdrawal admin fee", referenceId });
+  }
+
+  return storage.postLedgerTransaction(entries);
+}
+
+// Balance plus every entry, newest first, and the income withheld by caps
+export async function getStatement(storage: IStorage, userId: string): Promise<WalletStatement> {
+  const wallet = await storage.getUserWallet(userId);
+  const entries = await storage.getLedgerEntries(wallet.id);
+
+  return {
+    walletId: wallet.id,
+    userId,
+    balance: await storage.getWalletBalance(wallet.id),
+    entries: [...entries].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    capped: await getCappedSummary(storage, userId),
+  };
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { config } from "./config";
+import { MemStorage } from "./storage";
+import { getLoginBlock, recordLoginFailure } from "./login-guard";
+
+test("an account whose lock has expired starts its failure count afresh", async () => {
+  const storage = new MemStorage();
+  const start = new Date("2026-01-01T00:00:00Z");
+  const ip = "203.0.113.1";
+  let user = await storage.createUser({ username: "member1", password: "member123", role: "client" });
+
+  for (let i = 0; i < config.login.lockoutThreshold; i++) {
+    await recordLoginFailure(storage, user.username, user, ip, "invalid_credentials", start);
+    user = (await storage.getUserById(user.id))!;
+  }
+  assert.equal((await getLoginBlock(storage, user, "203.0.113.2", start))?.reason, "locked");
+
+  const afterLock = new Date(user.lockedUntil!.getTime() + 1000);
+  assert.equal(await getLoginBlock(storage, user, "203.0.113.2", afterLock), null);
+
+  // One more wrong password after the lock is the first of a new run, not a fresh lock
+  await recordLoginFailure(storage, user.username, user, "203.0.113.2", "invalid_credentials", afterLock);
+  user = (await storage.getUserById(user.id))!;
+  assert.equal(user.failedLoginCount, 1);
+  assert.equal(user.lockedUntil, null);
+  assert.equal((await getLoginBlock(storage, user, "203.0.113.3", afterLock))?.reason, "throttled");
+});
@@ -0,0 +1,118 @@
+import { type User, type LoginFailureReason, type LockedAccount } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+
+export type LoginBlock = {
+  reason: "throttled" | "locked";
+  message: string;
+  retryAfterMs: number;
+};
+
+// Wrong passwords and wrong authenticator codes are guesses; refusals of blocked attempts are not
+function isGuess(reason: LoginFailureReason | string): boolean {
+  return reason === "invalid_credentials" || reason === "invalid_second_factor";
+}
+
+// Wait after `failures` failed attempts: base, 2×base, 4×base... up to the maximum
+function backoffMs(failures: number): number {
+  return failures > 0 ? Math.min(config.login.backoffBaseMs * 2 ** (failures - 1), config.login.backoffMaxMs) : 0;
+}
+
+// A lock that has run out has served as the wait, and the next failure starts the count afresh
+function hasExpiredLock(user: User, now: Date): boolean {
+  return !!user.lockedUntil && user.lockedUntil <= now;
+}
+
+function describeWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 120 ? `${seconds} second${seconds === 1 ? "" : "s"}` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+/**
+ * Decides whether a login may be tried before the password is checked, so throttled attempts
+ * never reach bcrypt. The account is refused while locked or within the backoff after its last
+ * failure; the IP address is refused once it reaches the failure limit for the window, and
+ * otherwise within the backoff after its last failure.
+ */
+export async function getLoginBlock(storage: IStorage, user: User | undefined, ip: string, now: Date = new Date()): Promise<LoginBlock | null> {
+  if (user?.lockedUntil && user.lockedUntil > now) {
+    const retryAfterMs = user.lockedUntil.getTime() - now.getTime();
+    return {
+      reason: "locked",
+      message: `Account locked after too many failed logins. Try again in ${describeWait(retryAfterMs)} or ask an administrator to unlock it.`,
+      retryAfterMs,
+    };
+  }
+
+  const windowStart = new Date(now.getTime() - config.login.ipWindowMinutes * 60 * 1000);
+  const ipFailures = (await storage.getLoginAttempts({ ip, since: windowStart }))
+    .filter(attempt => isGuess(attempt.reason));
+  const waits = [
+    user?.lastFailedLoginAt && !hasExpiredLock(user, now) ? user.lastFailedLoginAt.getTime() + backoffMs(user.failedLoginCount) - now.getTime() : 0,
+    ipFailures.length > 0 ? ipFailures[0].createdAt.getTime() + backoffMs(ipFailures.length) - now.getTime() : 0,
+  ];
+  if (ipFailures.length >= config.login.ipMaxFailures) {
+    // Blocked until enough failures have aged out of the window
+    const oldestCounted = ipFailures[config.login.ipMaxFailures - 1];
+    waits.push(oldestCounted.createdAt.getTime() - windowStart.getTime());
+  }
+
+  const retryAfterMs = Math.max(...waits);
+  return retryAfterMs > 0
+    ? { reason: "throttled", message: `Too many failed logins. Try again in ${describeWait(retryAfterMs)}.`, retryAfterMs }
+    : null;
+}
+
+// Audits a refused login; wrong passwords and codes also count towards the account's backoff and lockout
+export async function recordLoginFailure(
+  storage: IStorage,
+  username: string,
+  user: User | undefined,
+  ip: string,
+  reason: LoginFailureReason,
+  now: Date = new Date(),
+): Promise<void> {
+  await storage.createLoginAttempt({ username, userId: user?.id ?? null, ip, reason });
+  if (!user || !isGuess(reason)) {
+    return;
+  }
+
+  if (hasExpiredLock(user, now)) {
+    await storage.clearFailedLogins(user.id);
+  }
+  const updated = await storage.recordFailedLogin(user.id, now);
+  if (updated && updated.failedLoginCount >= config.login.lockoutThreshold) {
+    await storage.lockUser(user.id, new Date(now.getTime() + config.login.lockoutMinutes * 60 * 1000));
+  }
+}
+
+export async function recordLoginSuccess(storage: IStorage, user: User): Promise<void> {
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.clearFailedLogins(user.id);
+  }
+}
+
+export async function getLockedAccounts(storage: IStorage, now: Date = new Date()): Promise<LockedAccount[]> {
+  return Promise.all((await storage.getLockedUsers(now)).map(async (user) => {
+    const [lastAttempt] = await storage.getLoginAttempts({ userId: user.id });
+    return {
+      id: user.id,
+      name: user.name,
+      username: user.username,
+      role: user.role,
+      failedLoginCount: user.failedLoginCount,
+      lockedUntil: user.lockedUntil!.toISOString(),
+      lastFailedLoginAt: user.lastFailedLoginAt?.toISOString() ?? null,
+      lastIp: lastAttempt?.ip ?? null,
+    };
+  }));
+}
+
+// Lifts the lock and resets the failure count; IP throttling is unaffected
+export async function unlockAccount(storage: IStorage, userId: string): Promise<User> {
+  const user = await storage.clearFailedLogins(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
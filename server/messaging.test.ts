@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMessageSender, TwilioSender, ConsoleSender } from "./messaging";
+
+const settings = {
+  accountSid: "AC123",
+  authToken: "secret",
+  fromNumber: "+15005550006",
+  sendgridApiKey: "SG.key",
+  emailFrom: "codes@example.com",
+};
+
+test("production refuses the console and file senders", () => {
+  assert.throws(() => createMessageSender("", "production"), /OTP_SENDER=console is for local runs only/);
+  assert.throws(() => createMessageSender("console", "production"), /local runs only/);
+  assert.throws(() => createMessageSender("file", "production"), /OTP_SENDER=file is for local runs only/);
+  assert.ok(createMessageSender("", "development") instanceof ConsoleSender);
+});
+
+test("the Twilio sender needs its credentials", () => {
+  assert.throws(() => createMessageSender("twilio", "production"), /OTP_SENDER=twilio needs TWILIO_ACCOUNT_SID/);
+});
+
+test("the Twilio sender sends SMS through Twilio and email through SendGrid", async (t) => {
+  const requests: { url: string; init: RequestInit }[] = [];
+  t.mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    return new Response(null, { status: 202 });
+  });
+  const sender = new TwilioSender(settings);
+
+  await sender.send({ channel: "sms", to: "9876543210", subject: "Code", text: "Your code is 123456" });
+  assert.equal(requests[0].url, "https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json");
+  const form = requests[0].init.body as URLSearchParams;
+  assert.equal(form.get("To"), "+919876543210");
+  assert.equal(form.get("From"), settings.fromNumber);
+
+  await sender.send({ channel: "email", to: "admin@example.com", subject: "Code", text: "Your code is 123456" });
+  assert.equal(requests[1].url, "https://api.sendgrid.com/v3/mail/send");
+  const email = JSON.parse(requests[1].init.body as string);
+  assert.deepEqual(email.personalizations, [{ to: [{ email: "admin@example.com" }] }]);
+  assert.equal(email.from.email, settings.emailFrom);
+});
+
+test("a refused message is reported", async (t) => {
+  t.mock.method(globalThis, "fetch", async () => new Response(null, { status: 401 }));
+  await assert.rejects(
+    new TwilioSender(settings).send({ channel: "sms", to: "9876543210", subject: "Code", text: "123456" }),
+    /Could not send the SMS \(provider answered 401\)/,
+  );
+});
@@ -0,0 +1,107 @@
+import { appendFile } from "fs/promises";
+import { type OtpChannel } from "@shared/schema";
+import { config } from "./config";
+
+export interface OutgoingMessage {
+  channel: OtpChannel;
+  to: string; // Mobile number for SMS, address for email
+  subject: string; // Email subject; SMS gateways ignore it
+  text: string;
+}
+
+// Delivers SMS and email; add an implementation per provider and select it in createMessageSender
+export interface MessageSender {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Local runs: the message, code included, goes to the server log
+export class ConsoleSender implements MessageSender {
+  async send(message: OutgoingMessage): Promise<void> {
+    console.log(`[${message.channel}] to ${message.to}: ${message.text}`);
+  }
+}
+
+// Local runs and tests: one JSON line per message, so codes can be read back from the file
+export class FileSender implements MessageSender {
+  constructor(private readonly path: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await appendFile(this.path, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+  }
+}
+
+export type TwilioSettings = typeof config.otp.twilio;
+
+// Production: SMS through Twilio's Messages API and email through SendGrid, Twilio's email service
+export class TwilioSender implements MessageSender {
+  constructor(private readonly settings: TwilioSettings) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const response = message.channel === "sms" ? await this.sendSms(message) : await this.sendEmail(message);
+    if (!response.ok) {
+      throw new Error(`Could not send the ${message.channel === "sms" ? "SMS" : "email"} (provider answered ${response.status})`);
+    }
+  }
+
+  private async sendSms(message: OutgoingMessage): Promise<Response> {
+    const { accountSid, authToken, fromNumber } = this.settings;
+    // Mobile numbers are stored as 10-digit Indian numbers; Twilio wants them in E.164
+    const to = /^[0-9]{10}$/.test(message.to) ? `+91${message.to}` : message.to;
+    return await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: { Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}` },
+      body: new URLSearchParams({ To: to, From: fromNumber, Body: message.text }),
+    });
+  }
+
+  private async sendEmail(message: OutgoingMessage): Promise<Response> {
+    return await fetch("https://api.sendgrid.com/v3/mail/send", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.settings.sendgridApiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: this.settings.emailFrom },
+        subject: message.subject,
+        content: [{ type: "text/plain", value: message.text }],
+      }),
+    });
+  }
+}
+
+function requireTwilioSettings(settings: TwilioSettings): TwilioSettings {
+  const missing = Object.entries({
+    TWILIO_ACCOUNT_SID: settings.accountSid,
+    TWILIO_AUTH_TOKEN: settings.authToken,
+    TWILIO_FROM_NUMBER: settings.fromNumber,
+    SENDGRID_API_KEY: settings.sendgridApiKey,
+    OTP_EMAIL_FROM: settings.emailFrom,
+  }).filter(([, value]) => !value).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`OTP_SENDER=twilio needs ${missing.join(", ")} to be set`);
+  }
+  return settings;
+}
+
+export function createMessageSender(kind: string = config.otp.sender, env: string = process.env.NODE_ENV || "development"): MessageSender {
+  switch (kind || "console") {
+    case "twilio":
+      return new TwilioSender(requireTwilioSettings(config.otp.twilio));
+    case "console":
+    case "file":
+      // Both leave the codes readable to anyone with access to the server, who could take over accounts
+      if (env === "production") {
+        throw new Error(`OTP_SENDER=${kind || "console"} is for local runs only; set OTP_SENDER=twilio in production`);
+      }
+      return kind === "file" ? new FileSender(config.otp.outboxFile) : new ConsoleSender();
+    default:
+      throw new Error(`Unknown OTP_SENDER "${kind}"`);
+  }
+}
+
+let messageSender: MessageSender | undefined;
+
+// Built on first use, so importing this module never fails; the server calls it at startup to
+// refuse a bad OTP_SENDER before serving anything
+export function getMessageSender(): MessageSender {
+  return messageSender ??= createMessageSender();
+}
@@ -0,0 +1,129 @@
+import bcrypt from "bcrypt";
+import { randomInt } from "crypto";
+import { otpLength, type User, type OtpCode, type OtpPurpose, type OtpChannel, type OtpIssued } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MessageSender } from "./messaging";
+import { config } from "./config";
+
+const messages: Record<OtpPurpose, { subject: string; text: (code: string, minutes: number) => string }> = {
+  password_reset: {
+    subject: "Password reset code",
+    text: (code, minutes) => `Your Napping Hand Academy password reset code is ${code}. It expires in ${minutes} minutes. If you did not ask to reset your password, ignore this message.`,
+  },
+  mobile_verification: {
+    subject: "Verification code",
+    text: (code, minutes) => `Your Napping Hand Academy verification code is ${code}. It expires in ${minutes} minutes.`,
+  },
+};
+
+function generateCode(): string {
+  return String(randomInt(0, 10 ** otpLength)).padStart(otpLength, "0");
+}
+
+// "******3210" for mobiles, "a***@example.com" for emails
+export function maskDestination(channel: OtpChannel, destination: string): string {
+  if (channel === "sms") {
+    return destination.slice(-4).padStart(destination.length, "*");
+  }
+  const [local, domain] = destination.split("@");
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+// Time left before another code may be sent to the user for this purpose
+export async function getOtpCooldownMs(storage: IStorage, userId: string, purpose: OtpPurpose, now: Date = new Date()): Promise<number> {
+  const latest = await storage.getLatestOtpCode(userId, purpose);
+  if (!latest || latest.consumedAt) {
+    return 0;
+  }
+  return Math.max(0, latest.createdAt.getTime() + config.otp.resendCooldownSeconds * 1000 - now.getTime());
+}
+
+// Sends a new code, which replaces any earlier one for the same purpose
+export async function issueOtp(
+  storage: IStorage,
+  sender: MessageSender,
+  user: User,
+  purpose: OtpPurpose,
+  channel: OtpChannel,
+  now: Date = new Date(),
+): Promise<OtpIssued> {
+  const destination = channel === "sms" ? user.mobile : user.email;
+  if (!destination) {
+    throw new Error(channel === "sms" ? "No mobile number on file" : "No email address on file");
+  }
+  const cooldownMs = await getOtpCooldownMs(storage, user.id, purpose, now);
+  if (cooldownMs > 0) {
+    throw new Error(`Please wait ${Math.ceil(cooldownMs / 1000)} seconds before requesting another code`);
+  }
+
+  const code = generateCode();
+  const expiresAt = new Date(now.getTime() + config.otp.ttlMinutes * 60 * 1000);
+  await storage.createOtpCode({
+    userId: user.id,
+    purpose,
+    channel,
+    destination,
+    codeHash: await bcrypt.hash(code, 10),
+    expiresAt,
+  });
+  await sender.send({
+    channel,
+    to: destination,
+    subject: messages[purpose].subject,
+    text: messages[purpose].text(code, config.otp.ttlMinutes),
+  });
+
+  return { channel, destination: maskDestination(channel, destination), expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Checks a code against the user's newest code for the purpose and uses it up on success.
+ * Each wrong entry counts against the code; at OTP_MAX_ATTEMPTS it is void and a new one
+ * has to be requested.
+ */
+export async function verifyOtp(storage: IStorage, userId: string, purpose: OtpPurpose, code: string, now: Date = new Date()): Promise<OtpCode> {
+  const otp = await storage.getLatestOtpCode(userId, purpose);
+  if (!otp || otp.consumedAt || otp.expiresAt <= now) {
+    throw new Error("The code has expired or was not requested. Request a new one.");
+  }
+  if (otp.attempts >= config.otp.maxAttempts) {
+    throw new Error("Too many wrong codes. Request a new one.");
+  }
+
+  if (!(await bcrypt.compare(code, otp.codeHash))) {
+    const updated = await storage.recordOtpAttempt(otp.id);
+    const attemptsLeft = config.otp.maxAttempts - (updated?.attempts ?? config.otp.maxAttempts);
+    throw new Error(attemptsLeft > 0
+      ? `Incorrect code. ${attemptsLeft} attempt${attemptsLeft === 1 ? "" : "s"} left.`
+      : "Too many wrong codes. Request a new one.");
+  }
+
+  const consumed = await storage.consumeOtpCode(otp.id, now);
+  if (!consumed) {
+    throw new Error("The code has already been used. Request a new one.");
+  }
+  return consumed;
+}
+
+export async function sendMobileVerificationCode(storage: IStorage, sender: MessageSender, clientId: string): Promise<OtpIssued> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.role !== "client") {
+    throw new Error("Client not found");
+  }
+  if (client.mobileVerifiedAt) {
+    throw new Error("Mobile number is already verified");
+  }
+  return issueOtp(storage, sender, client, "mobile_verification", "sms");
+}
+
+export async function verifyMobile(storage: IStorage, clientId: string, code: string): Promise<User> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.role !== "client") {
+    throw new Error("Client not found");
+  }
+  if (client.mobileVerifiedAt) {
+    return client;
+  }
+  const otp = await verifyOtp(storage, clientId, "mobile_verification", code);
+  return (await storage.markMobileVerified(clientId, otp.consumedAt!))!;
+}
@@ -0,0 +1,76 @@
+import bcrypt from "bcrypt";
+import { randomBytes } from "crypto";
+import { type User, type ChangePasswordRequest, type PasswordReset, type OtpPasswordResetRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MessageSender } from "./messaging";
+import { issueOtp, verifyOtp, getOtpCooldownMs } from "./otp";
+
+// Letters and digits without look-alikes (0/O, 1/l/I) so the password can be read out or copied by hand
+const temporaryPasswordAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+
+export function generateTemporaryPassword(length = 10): string {
+  return Array.from(randomBytes(length), byte => temporaryPasswordAlphabet[byte % temporaryPasswordAlphabet.length]).join("");
+}
+
+// Self-service change; also clears a forced rotation
+export async function changePassword(storage: IStorage, userId: string, data: ChangePasswordRequest): Promise<User> {
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  if (!(await bcrypt.compare(data.currentPassword, user.password))) {
+    throw new Error("Current password is incorrect");
+  }
+  if (data.currentPassword === data.newPassword) {
+    throw new Error("New password must be different from the current one");
+  }
+
+  return (await storage.setPassword(userId, data.newPassword, false))!;
+}
+
+/**
+ * Replaces another user's password with a one-time temporary password that must be changed at
+ * their next login. A reset also lifts any login lockout, since it is the usual way back in for
+ * a user who has forgotten their password.
+ */
+export async function resetPassword(storage: IStorage, adminId: string, userId: string): Promise<PasswordReset> {
+  if (adminId === userId) {
+    throw new Error("Use change password for your own account");
+  }
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  await storage.setPassword(userId, temporaryPassword, true);
+  const { password: _, ...updated } = (await storage.clearFailedLogins(userId))!;
+  return { user: updated, temporaryPassword };
+}
+
+/**
+ * Forgot-password: sends a code to the account's mobile, or its email when there is no mobile.
+ * Unknown usernames, accounts without contact details and repeat requests within the resend
+ * cooldown are skipped silently, so the response never reveals whether an account exists.
+ */
+export async function requestPasswordResetCode(storage: IStorage, sender: MessageSender, username: string): Promise<void> {
+  const user = await storage.getUserByUsername(username);
+  if (!user || user.status === "pending_payment" || (!user.mobile && !user.email)) {
+    return;
+  }
+  if (await getOtpCooldownMs(storage, user.id, "password_reset") > 0) {
+    return;
+  }
+  await issueOtp(storage, sender, user, "password_reset", user.mobile ? "sms" : "email");
+}
+
+// Completes forgot-password; the new password is the user's own, and any login lockout is lifted
+export async function resetPasswordWithCode(storage: IStorage, data: OtpPasswordResetRequest): Promise<void> {
+  const user = await storage.getUserByUsername(data.username);
+  if (!user) {
+    throw new Error("The code has expired or was not requested. Request a new one.");
+  }
+  await verifyOtp(storage, user.id, "password_reset", data.code);
+  await storage.setPassword(user.id, data.newPassword, false);
+  await storage.clearFailedLogins(user.id);
+}
@@ -0,0 +1,83 @@
+import { type User, type Plan, type PlanVersion, type CatalogPlan } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Plan a new client can sign up for; disabled plans are no longer sold
+export async function getActivePlan(storage: IStorage, planId: string): Promise<Plan> {
+  const plan = await storage.getPlanById(planId);
+  if (!plan || plan.status !== "active") {
+    throw new Error("Selected plan is not available");
+  }
+  return plan;
+}
+
+// Plans on sale, cheapest first, without admin-only fields
+export async function getPlanCatalog(storage: IStorage): Promise<CatalogPlan[]> {
+  return (await storage.getAllPlans())
+    .filter(plan => plan.status === "active")
+    .sort((a, b) => a.price - b.price)
+    .map(({ id, name, price, currency, businessVolume, referralCommission, treeCommission, levelIncome, validityDays }) => (
+      { id, name, price, currency, businessVolume, referralCommission, treeCommission, levelIncome, validityDays }
+    ));
+}
+
+// Terms a client signing up today buys
+export async function getCurrentPlanVersion(storage: IStorage, plan: Plan): Promise<PlanVersion> {
+  const version = plan.currentVersionId ? await storage.getPlanVersionById(plan.currentVersionId) : null;
+  if (!version) {
+    throw new Error(`Plan ${plan.name} has no terms on record`);
+  }
+  return version;
+}
+
+// Terms the client bought; later edits to the plan do not change them
+export async function getUserPlanVersion(storage: IStorage, user: User): Promise<PlanVersion | null> {
+  return user.planVersionId ? await storage.getPlanVersionById(user.planVersionId) : null;
+}
+
+// When a plan period on these terms starting at `from` ends; null when the terms never lapse
+export function planPeriodEnd(terms: PlanVersion, from: Date): Date | null {
+  return terms.validityDays > 0 ? new Date(from.getTime() + terms.validityDays * 24 * 60 * 60 * 1000) : null;
+}
+
+// Whether the member's plan is in force; members whose plan has lapsed earn nothing until they renew
+export function hasActivePlan(user: User, now: Date = new Date()): boolean {
+  return user.status === "active" && (!user.planExpiresAt || user.planExpiresAt > now);
+}
+
+// Only plans nobody has bought can be removed; the rest are archived so their members stay valid
+export async function deletePlan(storage: IStorage, plan: Plan): Promise<void> {
+  const upgrades = await storage.getAllPlanUpgrades();
+  if (upgrades.some(upgrade => upgrade.fromPlanId === plan.id || upgrade.toPlanId === plan.id)) {
+    throw new Error(`${plan.name} appears in members' package history; archive it instead`);
+  }
+  const renewals = await storage.getAllPlanRenewals();
+  if (renewals.some(renewal => renewal.planId === plan.id)) {
+    throw new Error(`${plan.name} appears in members' renewal history; archive it instead`);
+  }
+  await storage.deletePlan(plan.id);
+}
+
+// Moves every member of one plan onto another plan's current terms. No payment is taken
+// and no commission is paid; future earnings follow the new plan.
+export async function migratePlanMembers(storage: IStorage, fromPlanId: string, toPlanId: string): Promise<number> {
+  const fromPlan = await storage.getPlanById(fromPlanId);
+  if (!fromPlan) {
+    throw new Error("Plan not found");
+  }
+  if (fromPlanId === toPlanId) {
+    throw new Error("Choose a different plan to move members to");
+  }
+  const toPlan = await getActivePlan(storage, toPlanId);
+  await getCurrentPlanVersion(storage, toPlan);
+
+  const pending = (await storage.getAllPlanUpgrades("pending_payment")).filter(upgrade => upgrade.fromPlanId === fromPlanId);
+  if (pending.length > 0) {
+    throw new Error(`${pending.length} upgrade(s) from ${fromPlan.name} are awaiting payment; complete or cancel them first`);
+  }
+  const renewals = (await storage.getAllPlanRenewals("pending_payment")).filter(renewal => renewal.planId === fromPlanId);
+  if (renewals.length > 0) {
+    throw new Error(`${renewals.length} renewal(s) of ${fromPlan.name} are awaiting payment; complete or cancel them first`);
+  }
+
+  return await storage.migratePlanMembers(fromPlanId, toPlan);
+}
@@ -0,0 +1,120 @@
+import { type User, type CreateClientRequest, type ClientRegistration, type UpiPaymentRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { creditActivationCommissions } from "./commissions";
+import { addActivationVolume } from "./volume";
+import { generatePaymentReference, createUpiPaymentRequest } from "./upi";
+import { getActivePlan } from "./plans";
+import { checkRegistrationCoupon, redeemCoupon, getRegistrationPrice } from "./coupons";
+import { startPlanPeriod } from "./renewals";
+
+function expiresAt(client: User): Date {
+  return new Date(client.createdAt.getTime() + config.pendingClientTtlHours * 60 * 60 * 1000);
+}
+
+// Creates the client in pending_payment state; it holds its tree position until paid or expired.
+// Without a parent the client is placed under the member registering them.
+export async function createPendingRegistration(storage: IStorage, registeredById: string, clientData: CreateClientRequest): Promise<User> {
+  if (await storage.getUserByUsername(clientData.username)) {
+    throw new Error("Username already exists");
+  }
+
+  const parentId = clientData.parentId || registeredById;
+  if (!await storage.getUserById(parentId)) {
+    throw new Error("Parent user not found");
+  }
+
+  const plan = await getActivePlan(storage, clientData.planId);
+  const coupon = clientData.couponCode ? await checkRegistrationCoupon(storage, clientData.couponCode, plan) : null;
+  // A registration whose coupon cannot be redeemed is not created
+  return await storage.transaction(async (tx) => {
+    const client = await tx.createPendingClient({ ...clientData, parentId }, plan, generatePaymentReference(), registeredById);
+    if (coupon) {
+      await redeemCoupon(tx, coupon.coupon, client, coupon.quote);
+    }
+    return client;
+  });
+}
+
+// A client registering a member directly below themselves: the member takes one of the client's
+// own free positions, never a spill-over slot elsewhere in the tree, and is activated by its deposit
+export async function createDownlineRegistration(storage: IStorage, sponsorId: string, clientData: CreateClientRequest): Promise<User> {
+  const available = await storage.getAvailablePositions(sponsorId);
+  const position = clientData.position || available[0];
+  if (!position || !available.includes(position)) {
+    throw new Error(available.length === 0 ? "Both of your downline positions are taken" : `Your ${position} position is already taken`);
+  }
+  return await createPendingRegistration(storage, sponsorId, { ...clientData, parentId: sponsorId, position });
+}
+
+// UPI request for the price due, tagged with the registration's payment reference
+export async function getRegistrationPaymentRequest(storage: IStorage, clientId: string): Promise<UpiPaymentRequest> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.status !== "pending_payment" || !client.paymentReference) {
+    throw new Error("Client registration not found or already active");
+  }
+
+  const price = await getRegistrationPrice(storage, client);
+  if (price.currency !== "INR") {
+    throw new Error("UPI payments are only available for INR plans");
+  }
+
+  return await createUpiPaymentRequest(price.amount, client.paymentReference, `${client.package} plan for ${client.username}`);
+}
+
+export async function getRegistration(storage: IStorage, clientId: string): Promise<ClientRegistration | null> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.role !== "client") {
+    return null;
+  }
+
+  // The payment currently on file; a rejected one can be recorded again
+  const deposits = (await storage.getDepositsByClient(clientId)).filter(deposit => !deposit.upgradeId && !deposit.renewalId);
+  const deposit = deposits.find(deposit => deposit.status !== "rejected") || deposits[0];
+  // Priced at the terms in force when the client registered
+  const price = await getRegistrationPrice(storage, client);
+  const { password: _, ...clientWithoutPassword } = client;
+  return {
+    client: clientWithoutPassword,
+    ...price,
+    deposit: deposit || null,
+    expiresAt: client.status === "pending_payment" ? expiresAt(client).toISOString() : null,
+  };
+}
+
+// Runs once the client's payment is confirmed: the client joins the tree, their first plan
+// period starts and uplines are paid. All of it commits together, and only the call that moves
+// the client out of pending_payment goes on to pay, so a retry cannot pay twice.
+export async function activateRegistration(storage: IStorage, clientId: string): Promise<User> {
+  return await storage.transaction(async (tx) => {
+    const activated = await tx.activateClient(clientId);
+    if (!activated) {
+      throw new Error("Client registration not found or already active");
+    }
+    const client = await startPlanPeriod(tx, activated);
+
+    await creditActivationCommissions(tx, client);
+    await addActivationVolume(tx, client);
+    return client;
+  });
+}
+
+// Removes pending registrations past their TTL, unless a payment for them is still being reconciled
+export async function expireStaleRegistrations(storage: IStorage, now = new Date()): Promise<number> {
+  let expired = 0;
+  for (const client of await storage.getPendingClients()) {
+    if (expiresAt(client) > now) {
+      continue;
+    }
+
+    const deposits = await storage.getDepositsByClient(client.id);
+    if (deposits.some(deposit => deposit.status === "pending")) {
+      continue;
+    }
+
+    if (await storage.deleteUser(client.id)) {
+      expired++;
+    }
+  }
+  return expired;
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+import { requestUpgrade, cancelUpgrade } from "./upgrades";
+import { requestRenewal, completeRenewal, expireLapsedPlans } from "./renewals";
+import { hasActivePlan } from "./plans";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createMember() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const yearly = await storage.createPlan({
+    name: "Yearly",
+    price: 51000,
+    currency: "INR",
+    businessVolume: "100",
+    referralCommission: 10000,
+    treeCommission: 20000,
+    validityDays: 365,
+    status: "active",
+  });
+  const pending = await createPendingRegistration(storage, admin.id, {
+    name: "Member",
+    username: "member",
+    password: "member123",
+    email: "member@example.com",
+    mobile: "9999999999",
+    planId: yearly.id,
+    parentId: admin.id,
+    position: "left",
+  });
+  const member = await activateRegistration(storage, pending.id);
+  const gold = (await storage.getAllPlans()).find(plan => plan.name === "Gold")!;
+  return { storage, member, gold };
+}
+
+test("a lapsed plan expires the member and a renewal restores a full period from today", async () => {
+  const { storage, member } = await createMember();
+  const later = new Date(member.planExpiresAt!.getTime() + DAY_MS);
+  assert.equal(await expireLapsedPlans(storage, later), 1);
+  assert.equal((await storage.getUserById(member.id))?.status, "expired");
+
+  const renewal = await requestRenewal(storage, member.id, member.id);
+  await completeRenewal(storage, renewal.id, later);
+  const renewed = (await storage.getUserById(member.id))!;
+  assert.equal(renewed.status, "active");
+  assert.equal(renewed.planExpiresAt?.getTime(), later.getTime() + 365 * DAY_MS);
+  assert.ok(hasActivePlan(renewed, later));
+});
+
+test("a renewal and an upgrade cannot both await payment", async () => {
+  const { storage, member, gold } = await createMember();
+  const upgrade = await requestUpgrade(storage, member.id, member.id, gold.id);
+  await assert.rejects(requestRenewal(storage, member.id, member.id), /upgrade is awaiting payment/);
+
+  await cancelUpgrade(storage, upgrade.id);
+  await requestRenewal(storage, member.id, member.id);
+  await assert.rejects(requestUpgrade(storage, member.id, member.id, gold.id), /renewal is awaiting payment/);
+});
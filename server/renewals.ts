@@ -0,0 +1,167 @@
+import { type User, type PlanVersion, type PlanRenewal, type PlanRenewalDetails, type MembershipStatus, type ExpiringMember, type UpiPaymentRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { getUserPlanVersion, planPeriodEnd, hasActivePlan } from "./plans";
+import { generatePaymentReference, createUpiPaymentRequest } from "./upi";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days until the plan expires, rounded up; 0 or less once it has lapsed
+function daysUntil(expiresAt: Date, now: Date): number {
+  return Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+}
+
+// Starts a plan period on the terms the member now holds; runs on activation and after an upgrade.
+// A member whose plan lapsed while the upgrade payment was reconciled is active again, as after a renewal.
+export async function startPlanPeriod(storage: IStorage, client: User, now: Date = new Date()): Promise<User> {
+  const terms = await getUserPlanVersion(storage, client);
+  const planExpiresAt = terms ? planPeriodEnd(terms, now) : null;
+  return (await storage.updateMembership(client.id, { status: "active", planExpiresAt })) ?? client;
+}
+
+// The member with the terms they hold, which the renewal price and period come from
+async function getRenewableClient(storage: IStorage, clientId: string): Promise<{ client: User; terms: PlanVersion }> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.role !== "client" || client.status === "pending_payment") {
+    throw new Error("Only active or expired members can renew their plan");
+  }
+  const terms = await getUserPlanVersion(storage, client);
+  if (!terms) {
+    throw new Error("Client plan not found");
+  }
+  if (terms.validityDays <= 0) {
+    throw new Error(`The ${client.package} plan does not expire`);
+  }
+  return { client, terms };
+}
+
+// Renewals are priced at the terms the member holds and pay no commission or BV
+export async function requestRenewal(storage: IStorage, requesterId: string, clientId: string): Promise<PlanRenewal> {
+  const { client, terms } = await getRenewableClient(storage, clientId);
+
+  const renewals = await storage.getPlanRenewalsByUser(client.id);
+  if (renewals.some(renewal => renewal.status === "pending_payment")) {
+    throw new Error("A renewal is already awaiting payment for this client");
+  }
+  const upgrades = await storage.getPlanUpgradesByUser(client.id);
+  if (upgrades.some(upgrade => upgrade.status === "pending_payment")) {
+    throw new Error("An upgrade is awaiting payment for this client; complete or cancel it first");
+  }
+
+  return await storage.createPlanRenewal({
+    userId: client.id,
+    planId: terms.planId,
+    planVersionId: terms.id,
+    amount: terms.price,
+    currency: terms.currency,
+    paymentReference: generatePaymentReference(),
+    status: "pending_payment",
+    requestedById: requesterId,
+  });
+}
+
+// Adds the plan name, the client and the payment on file for the renewal views
+export async function withRenewalDetails(storage: IStorage, list: PlanRenewal[]): Promise<PlanRenewalDetails[]> {
+  const plans = await storage.getAllPlans();
+
+  return Promise.all(list.map(async (renewal) => {
+    const client = await storage.getUserById(renewal.userId);
+    const deposits = (await storage.getDepositsByClient(renewal.userId)).filter(deposit => deposit.renewalId === renewal.id);
+    return {
+      ...renewal,
+      planName: plans.find(plan => plan.id === renewal.planId)?.name ?? "Unknown",
+      client: client ? { id: client.id, name: client.name, username: client.username, email: client.email, mobile: client.mobile } : null,
+      deposit: deposits.find(deposit => deposit.status !== "rejected") || deposits[0] || null,
+    };
+  }));
+}
+
+export async function getPendingRenewal(storage: IStorage, id: string): Promise<PlanRenewal> {
+  const renewal = await storage.getPlanRenewalById(id);
+  if (!renewal || renewal.status !== "pending_payment") {
+    throw new Error("Renewal not found or no longer awaiting payment");
+  }
+  return renewal;
+}
+
+// UPI request for the renewal price, tagged with the renewal's payment reference
+export async function getRenewalPaymentRequest(storage: IStorage, id: string): Promise<UpiPaymentRequest> {
+  const renewal = await getPendingRenewal(storage, id);
+  if (renewal.currency !== "INR") {
+    throw new Error("UPI payments are only available for INR plans");
+  }
+
+  const [details] = await withRenewalDetails(storage, [renewal]);
+  return await createUpiPaymentRequest(renewal.amount, renewal.paymentReference, `${details.planName} renewal for ${details.client?.username}`);
+}
+
+export async function cancelRenewal(storage: IStorage, id: string): Promise<PlanRenewal> {
+  const renewal = await getPendingRenewal(storage, id);
+  const deposits = await storage.getDepositsByClient(renewal.userId);
+  if (deposits.some(deposit => deposit.renewalId === id && deposit.status === "pending")) {
+    throw new Error("A payment for this renewal is still being reconciled");
+  }
+  return (await storage.cancelPlanRenewal(id))!;
+}
+
+// Runs once the renewal payment is confirmed. Renewing early extends the current period;
+// a plan that has already lapsed starts a new period today and the member earns again.
+export async function completeRenewal(storage: IStorage, id: string, now: Date = new Date()): Promise<PlanRenewal> {
+  const pending = await getPendingRenewal(storage, id);
+  const client = await storage.getUserById(pending.userId);
+  const terms = await storage.getPlanVersionById(pending.planVersionId);
+  if (!client || !terms) {
+    throw new Error("Renewal client or plan not found");
+  }
+
+  const from = client.planExpiresAt && client.planExpiresAt > now ? client.planExpiresAt : now;
+  const renewedUntil = planPeriodEnd(terms, from);
+  const renewal = renewedUntil && await storage.completePlanRenewal(id, renewedUntil);
+  if (!renewal) {
+    throw new Error("Renewal not found or no longer awaiting payment");
+  }
+  return renewal;
+}
+
+// Marks members whose plan period has ended as expired; they stay in the tree but stop earning
+export async function expireLapsedPlans(storage: IStorage, now: Date = new Date()): Promise<number> {
+  let expired = 0;
+  for (const client of await storage.getAllClients()) {
+    if (client.status === "active" && client.planExpiresAt && client.planExpiresAt <= now) {
+      await storage.updateMembership(client.id, { status: "expired" });
+      expired++;
+    }
+  }
+  return expired;
+}
+
+export async function getMembershipStatus(storage: IStorage, client: User, now: Date = new Date()): Promise<MembershipStatus> {
+  const terms = await getUserPlanVersion(storage, client);
+  const daysLeft = client.planExpiresAt ? daysUntil(client.planExpiresAt, now) : null;
+  // Reported as expired as soon as the period ends, even before the sweep marks it
+  const status = client.status === "active" && !hasActivePlan(client, now) ? "expired" : client.status;
+  return {
+    status,
+    planExpiresAt: client.planExpiresAt?.toISOString() ?? null,
+    daysLeft,
+    expiringSoon: status === "expired" || (daysLeft !== null && daysLeft <= config.planExpiryWarningDays),
+    warningDays: config.planExpiryWarningDays,
+    renewable: client.status !== "pending_payment" && (terms?.validityDays ?? 0) > 0,
+  };
+}
+
+// Members whose plan expires within `days`, plus those already lapsed, soonest first
+export async function getExpiringMembers(storage: IStorage, days: number, now: Date = new Date()): Promise<ExpiringMember[]> {
+  return (await storage.getAllClients())
+    .filter((client): client is User & { planExpiresAt: Date } => !!client.planExpiresAt && daysUntil(client.planExpiresAt, now) <= days)
+    .sort((a, b) => a.planExpiresAt.getTime() - b.planExpiresAt.getTime())
+    .map(client => ({
+      id: client.id,
+      name: client.name,
+      username: client.username,
+      package: client.package,
+      status: client.status,
+      planExpiresAt: client.planExpiresAt.toISOString(),
+      daysLeft: daysUntil(client.planExpiresAt, now),
+    }));
+}
@@ -0,0 +1,72 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { createSessionMiddleware } from "./session";
+import type { AdminRole } from "@shared/schema";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(createSessionMiddleware("development"));
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Signs in a new admin with the given role and returns the session cookie
+async function signInAdmin(username: string, adminRole: AdminRole) {
+  await storage.createUser({ username, password: "admin123", role: "admin", adminRole });
+  const res = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "admin123", role: "admin" }),
+  });
+  assert.equal(res.status, 200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function statusOf(cookie: string, path: string) {
+  return (await fetch(`${baseUrl}${path}`, { headers: { Cookie: cookie } })).status;
+}
+
+test("each admin role reaches only the pages its permissions allow", async () => {
+  const paths = ["/api/stats", "/api/clients", "/api/plans", "/api/deposits", "/api/admins"];
+  const expected: Record<AdminRole, number[]> = {
+    super_admin: [200, 200, 200, 200, 200],
+    finance: [200, 200, 200, 200, 403],
+    support: [200, 200, 200, 403, 403],
+    viewer: [200, 403, 200, 200, 403],
+  };
+
+  for (const [adminRole, statuses] of Object.entries(expected)) {
+    const cookie = await signInAdmin(`matrix-${adminRole}`, adminRole as AdminRole);
+    const actual = [];
+    for (const path of paths) {
+      actual.push(await statusOf(cookie, path));
+    }
+    assert.deepEqual(actual, statuses, adminRole);
+  }
+});
+
+test("an admin disabled mid-session is refused on routes that need no permission", async () => {
+  const cookie = await signInAdmin("disabled-admin", "viewer");
+  assert.equal(await statusOf(cookie, "/api/wallet"), 200);
+
+  const admin = (await storage.getUserByUsername("disabled-admin"))!;
+  await storage.updateAdmin(admin.id, { status: "disabled" });
+  assert.equal(await statusOf(cookie, "/api/wallet"), 403);
+  // The session is gone, so re-enabling the account does not revive it
+  await storage.updateAdmin(admin.id, { status: "active" });
+  assert.equal(await statusOf(cookie, "/api/wallet"), 401);
+});
@@ -1,45 +1,194 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { loginSchema, createClientSchema, paymentConfirmationSchema, insertPlanSchema, updatePlanSchema } from "@shared/schema";
+import { runPairMatching, getVolumeSummary } from "./volume";
+import { getStatement, postAdjustment } from "./ledger";
+import { recordDeposit, approveDeposit, rejectDeposit, withDepositDetails } from "./deposits";
+import { createPendingRegistration, createDownlineRegistration, getRegistration, getRegistrationPaymentRequest } from "./registrations";
+import { getPlanCatalog, deletePlan, migratePlanMembers } from "./plans";
+import { quoteCoupon, applyRegistrationCoupon, removeRegistrationCoupon, createCoupon, updateCoupon, deleteCoupon, withCouponUsage } from "./coupons";
+import { getUpgradeOptions, requestUpgrade, withUpgradeDetails, getUpgradePaymentRequest, cancelUpgrade } from "./upgrades";
+import { requestRenewal, withRenewalDetails, getRenewalPaymentRequest, cancelRenewal, getMembershipStatus, getExpiringMembers } from "./renewals";
+import { config } from "./config";
+import { getLoginBlock, recordLoginFailure, recordLoginSuccess, getLockedAccounts, unlockAccount } from "./login-guard";
+import { changePassword, resetPassword, requestPasswordResetCode, resetPasswordWithCode } from "./passwords";
+import { sendMobileVerificationCode, verifyMobile } from "./otp";
+import { getMessageSender } from "./messaging";
+import { getTwoFactorStatus, isTwoFactorEnabled, isTwoFactorSetupRequired, startTwoFactorEnrollment, confirmTwoFactorEnrollment, verifySecondFactor, regenerateBackupCodes, disableTwoFactor } from "./two-factor";
+import { listAdmins, createAdmin, updateAdmin } from "./admins";
+import { getWithdrawalSettings, getAvailableBalance, requestWithdrawal, approveWithdrawal, rejectWithdrawal, markWithdrawalPaid, withDetails } from "./withdrawals";
+import { type User, type AdminPermission, hasAdminPermission, createAdminSchema, updateAdminSchema, loginSchema, twoFactorCodeSchema, changePasswordSchema, forgotPasswordRequestSchema, otpPasswordResetSchema, mobileVerificationRequestSchema, verifyMobileSchema, createClientSchema, insertPlanSchema, updatePlanSchema, ledgerAdjustmentSchema, insertPayoutAccountSchema, withdrawalRequestSchema, rejectWithdrawalSchema, markWithdrawalPaidSchema, recordDepositSchema, rejectDepositSchema, planUpgradeRequestSchema, planRenewalRequestSchema, migratePlanMembersSchema, insertCouponSchema, updateCouponSchema, couponQuoteRequestSchema, applyCouponSchema } from "@shared/schema";
 import { z } from "zod";
 
 declare module "express-session" {
   interface SessionData {
     userId?: string;
     role?: string;
+    mustChangePassword?: boolean;
+    twoFactorSetupRequired?: boolean;
+    // The user's session version at login; a password change since then ends the session
+    sessionVersion?: number;
+    // Password accepted; waiting for the admin's authenticator code
+    pendingTwoFactor?: { userId: string; expiresAt: number };
   }
 }
 
+// Sessions started before the user's password last changed (here or on another device) are
+// signed out, so a reset locks out whoever else knew the old password. So are the open sessions
+// of an admin who has been disabled.
+async function checkSessionCurrent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await storage.getUserById(req.session.userId!);
+    if (!user || user.sessionVersion !== req.session.sessionVersion) {
+      return req.session.destroy(() => {
+        res.status(401).json({ message: "Your session has ended. Please sign in again." });
+      });
+    }
+    if (user.status === "disabled") {
+      return req.session.destroy(() => {
+        res.status(403).json({ message: "This account has been disabled" });
+      });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+// Middleware to check login only; for the endpoints still open while a password change or
+// two-factor setup is pending
+const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  checkSessionCurrent(req, res, next);
+};
+
+// Set at login when the user has to finish securing their account before anything else
+function getPendingSetup(req: Request): string | null {
+  if (req.session.mustChangePassword) return "Password change required";
+  if (req.session.twoFactorSetupRequired) return "Two-factor authentication setup required";
+  return null;
+}
+
 // Middleware to check authentication
 const requireAuth = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.userId) {
     return res.status(401).json({ message: "Authentication required" });
   }
-  next();
+  const pendingSetup = getPendingSetup(req);
+  if (pendingSetup) {
+    return res.status(403).json({ message: pendingSetup });
+  }
+  checkSessionCurrent(req, res, next);
 };
 
-// Middleware to check admin role
+// Middleware to check admin role, for what every admin may do to their own account
 const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.userId || req.session.role !== "admin") {
     return res.status(403).json({ message: "Admin access required" });
   }
-  next();
+  const pendingSetup = getPendingSetup(req);
+  if (pendingSetup) {
+    return res.status(403).json({ message: pendingSetup });
+  }
+  checkSessionCurrent(req, res, next);
 };
 
+// The account is read again on each request, so a changed role or a disabled admin applies at once
+async function checkAdminPermission(req: Request, res: Response, next: NextFunction, permission: AdminPermission) {
+  try {
+    const admin = await storage.getUserById(req.session.userId!);
+    if (!admin || admin.role !== "admin" || admin.status === "disabled") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    if (!hasAdminPermission(admin.adminRole, permission)) {
+      return res.status(403).json({ message: "Your admin role does not allow this" });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+// Middleware to check that the admin's role grants the permission
+const requirePermission = (permission: AdminPermission) => (req: Request, res: Response, next: NextFunction) => {
+  requireAdmin(req, res, () => checkAdminPermission(req, res, next, permission));
+};
+
+// For endpoints shared with clients: admins also need the permission, clients are checked by the handler
+const requirePermissionForAdmins = (permission: AdminPermission) => (req: Request, res: Response, next: NextFunction) => {
+  requireAuth(req, res, () => req.session.role === "admin" ? checkAdminPermission(req, res, next, permission) : next());
+};
+
+// Issues a new session ID whenever the session gains privileges, so an ID planted in the victim's
+// browser beforehand (session fixation) is worthless. The signed-in user, if any, carries over.
+function regenerateSession(req: Request): Promise<void> {
+  const { userId, role, mustChangePassword, twoFactorSetupRequired, sessionVersion } = req.session;
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) {
+        return reject(err);
+      }
+      Object.assign(req.session, { userId, role, mustChangePassword, twoFactorSetupRequired, sessionVersion });
+      resolve();
+    });
+  });
+}
+
+async function startSession(req: Request, user: User): Promise<void> {
+  await regenerateSession(req);
+  delete req.session.pendingTwoFactor;
+  req.session.userId = user.id;
+  req.session.role = user.role;
+  req.session.sessionVersion = user.sessionVersion;
+  // Everything but the auth endpoints is refused until the password is changed and, under
+  // ADMIN_2FA_REQUIRED, until the admin has enrolled an authenticator app
+  req.session.mustChangePassword = user.mustChangePassword;
+  req.session.twoFactorSetupRequired = await isTwoFactorSetupRequired(storage, user);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Login endpoint
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { username, password, role } = loginSchema.parse(req.body);
-      
+      const ip = req.ip || "unknown";
+
+      // Throttled and locked attempts are refused before the password is checked
+      const account = await storage.getUserByUsername(username);
+      const block = await getLoginBlock(storage, account, ip);
+      if (block) {
+        await recordLoginFailure(storage, username, account, ip, block.reason);
+        res.set("Retry-After", String(Math.ceil(block.retryAfterMs / 1000)));
+        return res.status(429).json({ message: block.message });
+      }
+
       const user = await storage.validateUser(username, password, role);
       if (!user) {
+        await recordLoginFailure(storage, username, account, ip, "invalid_credentials");
         return res.status(401).json({ message: "Invalid credentials" });
       }
+      // Members whose plan has expired can still sign in to renew it
+      if (user.status === "pending_payment") {
+        return res.status(403).json({ message: "Account is awaiting payment confirmation" });
+      }
+      if (user.status === "disabled") {
+        return res.status(403).json({ message: "This account has been disabled" });
+      }
+
+      // Admins with an authenticator app finish at /api/auth/login/verify
+      if (await isTwoFactorEnabled(storage, user)) {
+        await regenerateSession(req);
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + config.login.twoFactorTimeoutMinutes * 60 * 1000,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
 
-      req.session.userId = user.id;
-      req.session.role = user.role;
+      await recordLoginSuccess(storage, user);
+      await startSession(req, user);
 
       // Return user without password
       const { password: _, ...userWithoutPassword } = user;
@@ -52,6 +201,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step for admins with two-factor authentication
+  app.post("/api/auth/login/verify", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const ip = req.ip || "unknown";
+      const pending = req.session.pendingTwoFactor;
+      const user = pending && pending.expiresAt > Date.now() ? await storage.getUserById(pending.userId) : null;
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign-in timed out. Enter your password again." });
+      }
+
+      // Wrong codes share the password's backoff and lockout
+      const block = await getLoginBlock(storage, user, ip);
+      if (block) {
+        await recordLoginFailure(storage, user.username, user, ip, block.reason);
+        res.set("Retry-After", String(Math.ceil(block.retryAfterMs / 1000)));
+        return res.status(429).json({ message: block.message });
+      }
+      if (!(await verifySecondFactor(storage, user.id, code))) {
+        await recordLoginFailure(storage, user.username, user, ip, "invalid_second_factor");
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await recordLoginSuccess(storage, user);
+      await startSession(req, user);
+      const { password: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
@@ -62,13 +247,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  app.post("/api/auth/change-password", requireSession, async (req, res) => {
+    try {
+      const data = changePasswordSchema.parse(req.body);
+      const { password: _, ...user } = await changePassword(storage, req.session.userId!, data);
+      await regenerateSession(req);
+      // Other sessions of the user end; this one carries on
+      req.session.sessionVersion = user.sessionVersion;
+      req.session.mustChangePassword = false;
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to change password" });
+    }
+  });
+
+  // Forgot password: the same answer whether or not the account exists
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { username } = forgotPasswordRequestSchema.parse(req.body);
+      await requestPasswordResetCode(storage, getMessageSender(), username);
+      res.json({ message: "If the account exists, a code has been sent to its registered mobile number or email" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      await resetPasswordWithCode(storage, otpPasswordResetSchema.parse(req.body));
+      res.json({ message: "Password changed. Sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reset password" });
+    }
+  });
+
   // Get current user
-  app.get("/api/auth/me", requireAuth, async (req, res) => {
+  app.get("/api/auth/me", requireSession, async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      // An admin disabled during the session is signed out when the dashboard next loads
+      if (user.status === "disabled") {
+        return res.status(403).json({ message: "This account has been disabled" });
+      }
       
       const { password: _, ...userWithoutPassword } = user;
       res.json(userWithoutPassword);
@@ -77,93 +309,214 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin: Get all clients
-  app.get("/api/clients", requireAdmin, async (req, res) => {
+  // Two-factor authentication for the signed-in admin; open while setup is pending
+  app.get("/api/auth/2fa", requireSession, async (req, res) => {
     try {
-      const clients = await storage.getAllClients();
-      const clientsWithoutPasswords = clients.map(({ password: _, ...client }) => client);
-      res.json(clientsWithoutPasswords);
+      res.json(await getTwoFactorStatus(storage, req.session.userId!));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Admin: Create new client with payment confirmation
-  app.post("/api/clients/create-with-payment", requireAdmin, async (req, res) => {
+  app.post("/api/auth/2fa/setup", requireSession, async (req, res) => {
     try {
-      const paymentData = paymentConfirmationSchema.parse(req.body);
-      
-      if (!paymentData.paymentConfirmed) {
-        return res.status(400).json({ message: "Payment confirmation required" });
+      const user = await storage.getUserById(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+      res.json(await startTwoFactorEnrollment(storage, user));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start two-factor setup" });
+    }
+  });
 
-      const { clientData } = paymentData;
-      
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(clientData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+  app.post("/api/auth/2fa/enable", requireSession, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const backupCodes = await confirmTwoFactorEnrollment(storage, req.session.userId!, code);
+      await regenerateSession(req);
+      req.session.twoFactorSetupRequired = false;
+      res.json(backupCodes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/backup-codes", requireAdmin, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      res.json(await regenerateBackupCodes(storage, req.session.userId!, code));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create backup codes" });
+    }
+  });
 
-      // Verify the parent user exists (should be the current admin)
-      const parentUser = await storage.getUserById(clientData.parentId || req.session.userId!);
-      if (!parentUser) {
-        return res.status(400).json({ message: "Parent user not found" });
+  app.post("/api/auth/2fa/disable", requireAdmin, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      await disableTwoFactor(storage, req.session.userId!, code);
+      res.json(await getTwoFactorStatus(storage, req.session.userId!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Admin: Accounts whose logins are refused after too many failures
+  app.get("/api/users/locked", requirePermission("clients.view"), async (req, res) => {
+    try {
+      res.json(await getLockedAccounts(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Ensure parentId is properly set in client data
-      const finalClientData = {
-        ...clientData,
-        parentId: clientData.parentId || req.session.userId!
-      };
+  app.post("/api/users/:id/unlock", requirePermission("clients.manage"), async (req, res) => {
+    try {
+      const { password: _, ...user } = await unlockAccount(storage, req.params.id);
+      res.json(user);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to unlock account" });
+    }
+  });
 
-      // Create client with proper parent-child relationship
-      const client = await storage.createClientWithPayment(finalClientData, req.session.userId);
-      const { password: _, ...clientWithoutPassword } = client;
-      
-      res.status(201).json({
-        ...clientWithoutPassword,
-        message: "Client created successfully after payment confirmation"
-      });
+  // Admin: One-time temporary password, shown once; the user must change it at their next login
+  app.post("/api/users/:id/reset-password", requirePermission("clients.manage"), async (req, res) => {
+    try {
+      res.json(await resetPassword(storage, req.session.userId!, req.params.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reset password" });
+    }
+  });
+
+  // Super-admin: Admin accounts and their roles
+  app.get("/api/admins", requirePermission("admins.manage"), async (req, res) => {
+    try {
+      res.json(await listAdmins(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The temporary password is shown once; the new admin must change it at their first login
+  app.post("/api/admins", requirePermission("admins.manage"), async (req, res) => {
+    try {
+      res.status(201).json(await createAdmin(storage, createAdminSchema.parse(req.body)));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(400).json({ 
-        message: error instanceof Error ? error.message : "Failed to create client" 
-      });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create admin" });
+    }
+  });
+
+  app.put("/api/admins/:id", requirePermission("admins.manage"), async (req, res) => {
+    try {
+      const data = updateAdminSchema.parse(req.body);
+      const { password: _, ...admin } = await updateAdmin(storage, req.session.userId!, req.params.id, data);
+      res.json(admin);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update admin" });
+    }
+  });
+
+  // Admin: Get all clients
+  app.get("/api/clients", requirePermission("clients.view"), async (req, res) => {
+    try {
+      const clients = await storage.getAllClients();
+      const clientsWithoutPasswords = clients.map(({ password: _, ...client }) => client);
+      res.json(clientsWithoutPasswords);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Admin: Create new client (legacy endpoint for direct creation)
-  app.post("/api/clients", requireAdmin, async (req, res) => {
+  // Admin: Register a client awaiting payment; it is activated when its deposit is approved
+  app.post("/api/registrations", requirePermission("clients.manage"), async (req, res) => {
     try {
       const clientData = createClientSchema.parse(req.body);
-      
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(clientData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+      const client = await createPendingRegistration(storage, req.session.userId!, clientData);
+      res.status(201).json(await getRegistration(storage, client.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to register client" });
+    }
+  });
+
+  // Registrations still awaiting payment: admins see all, clients those in their own positions
+  app.get("/api/registrations", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const pending = (await storage.getPendingClients())
+        .filter(client => req.session.role === "admin" || client.parentId === req.session.userId);
+      res.json(await Promise.all(pending.map(client => getRegistration(storage, client.id))));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/registrations/:id", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const registration = await getRegistration(storage, req.params.id);
+      if (!registration || (req.session.role === "client" && registration.client.parentId !== req.session.userId)) {
+        return res.status(404).json({ message: "Registration not found or expired" });
       }
+      res.json(registration);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Ensure parentId is set to current user (admin) if not provided
-      const finalClientData = {
-        ...clientData,
-        parentId: clientData.parentId || req.session.userId!
-      };
+  // UPI intent and QR code for a pending registration's plan price; clients pay for their own downline
+  app.get("/api/registrations/:id/upi", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getUserById(req.params.id);
+      if (!client || (req.session.role === "client" && client.parentId !== req.session.userId)) {
+        return res.status(404).json({ message: "Registration not found or expired" });
+      }
+      res.json(await getRegistrationPaymentRequest(storage, client.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create UPI payment request" });
+    }
+  });
 
-      const client = await storage.createClient(finalClientData, req.session.userId);
-      const { password: _, ...clientWithoutPassword } = client;
-      res.status(201).json(clientWithoutPassword);
+  // Admin: Apply a coupon to a registration before its payment is recorded
+  app.post("/api/registrations/:id/coupon", requirePermission("clients.manage"), async (req, res) => {
+    try {
+      const { code } = applyCouponSchema.parse(req.body);
+      await applyRegistrationCoupon(storage, req.params.id, code);
+      res.json(await getRegistration(storage, req.params.id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create client" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to apply coupon" });
+    }
+  });
+
+  app.delete("/api/registrations/:id/coupon", requirePermission("clients.manage"), async (req, res) => {
+    try {
+      await removeRegistrationCoupon(storage, req.params.id);
+      res.json(await getRegistration(storage, req.params.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to remove coupon" });
     }
   });
 
-  // Client: Create downline client
+  // Client: Register a member in one of their own positions; like any registration it awaits
+  // payment and is activated when its deposit is approved
   app.post("/api/clients/downline", requireAuth, async (req, res) => {
     try {
       if (req.session.role !== "client") {
@@ -171,19 +524,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const clientData = createClientSchema.parse(req.body);
-      
-      // Set the parent to be the current user
-      clientData.parentId = req.session.userId;
-
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(clientData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
-      }
-
-      const client = await storage.createClient(clientData, req.session.userId);
-      const { password: _, ...clientWithoutPassword } = client;
-      res.status(201).json(clientWithoutPassword);
+      const client = await createDownlineRegistration(storage, req.session.userId!, clientData);
+      res.status(201).json(await getRegistration(storage, client.id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -204,7 +546,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get available positions for a parent
-  app.get("/api/clients/:parentId/positions", requireAuth, async (req, res) => {
+  app.get("/api/clients/:parentId/positions", requirePermissionForAdmins("clients.view"), async (req, res) => {
     try {
       const { parentId } = req.params;
       
@@ -220,84 +562,681 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get client statistics
-  app.get("/api/stats", requireAdmin, async (req, res) => {
+  // Get a client's commission credits
+  app.get("/api/clients/:id/earnings", requirePermissionForAdmins("clients.view"), async (req, res) => {
     try {
-      const stats = await storage.getClientStats();
-      res.json(stats);
+      const { id } = req.params;
+
+      if (req.session.role === "client" && req.session.userId !== id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const earnings = await storage.getEarningsByUser(id);
+      res.json(earnings);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Plans management endpoints
-  // Get all plans
-  app.get("/api/plans", requireAdmin, async (req, res) => {
+  // Get a user's left/right business volume and carry-forward
+  app.get("/api/clients/:id/volume", requirePermissionForAdmins("clients.view"), async (req, res) => {
     try {
-      const plans = await storage.getAllPlans();
-      res.json(plans);
+      const { id } = req.params;
+
+      if (req.session.role === "client" && req.session.userId !== id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const user = await storage.getUserById(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await getVolumeSummary(storage, id));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get plan by ID
-  app.get("/api/plans/:id", requireAdmin, async (req, res) => {
+  // Admin: Run the pair matching job now instead of waiting for the schedule
+  app.post("/api/volume/match", requirePermission("finance.manage"), async (req, res) => {
     try {
-      const plan = await storage.getPlanById(req.params.id);
-      if (!plan) {
-        return res.status(404).json({ message: "Plan not found" });
-      }
-      res.json(plan);
+      const result = await runPairMatching(storage);
+      res.json(result);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Create new plan
-  app.post("/api/plans", requireAdmin, async (req, res) => {
+  // Current user's wallet balance and ledger entries
+  app.get("/api/wallet", requireAuth, async (req, res) => {
     try {
-      const planData = insertPlanSchema.parse(req.body);
-      const plan = await storage.createPlan(planData);
-      res.status(201).json(plan);
+      res.json(await getStatement(storage, req.session.userId!));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Admin: Any user's wallet statement
+  app.get("/api/clients/:id/statement", requirePermission("clients.view"), async (req, res) => {
+    try {
+      const user = await storage.getUserById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+
+      res.json(await getStatement(storage, user.id));
+    } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update plan
-  app.put("/api/plans/:id", requireAdmin, async (req, res) => {
+  // Admin: Post a manual credit (positive) or debit (negative) to a user's wallet
+  app.post("/api/clients/:id/adjustments", requirePermission("finance.manage"), async (req, res) => {
     try {
-      const planData = updatePlanSchema.parse(req.body);
-      const plan = await storage.updatePlan(req.params.id, planData);
-      if (!plan) {
-        return res.status(404).json({ message: "Plan not found" });
+      const { amount, description } = ledgerAdjustmentSchema.parse(req.body);
+
+      const user = await storage.getUserById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(plan);
+
+      await postAdjustment(storage, user.id, amount, description);
+      res.status(201).json(await getStatement(storage, user.id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to post adjustment" });
+    }
+  });
+
+  // Saved payout destinations of the current client
+  app.get("/api/payout-accounts", requireAuth, async (req, res) => {
+    try {
+      const accounts = await storage.getPayoutAccounts(req.session.userId!);
+      res.json(accounts);
+    } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Delete plan
-  app.delete("/api/plans/:id", requireAdmin, async (req, res) => {
+  app.post("/api/payout-accounts", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deletePlan(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Plan not found" });
+      if (req.session.role !== "client") {
+        return res.status(403).json({ message: "Only clients can save payout accounts" });
       }
-      res.json({ message: "Plan deleted successfully" });
+
+      const accountData = insertPayoutAccountSchema.parse(req.body);
+      const account = await storage.createPayoutAccount(req.session.userId!, accountData);
+      res.status(201).json(account);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Withdrawal rules plus the current user's withdrawable balance
+  app.get("/api/withdrawals/settings", requireAuth, async (req, res) => {
+    try {
+      res.json({
+        ...getWithdrawalSettings(),
+        availableBalance: await getAvailableBalance(storage, req.session.userId!),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Withdrawals: admins see the whole queue (optionally by ?status=), clients their own requests
+  app.get("/api/withdrawals", requirePermissionForAdmins("finance.view"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const withdrawals = req.session.role === "admin"
+        ? await storage.getAllWithdrawals(status)
+        : await storage.getWithdrawalsByUser(req.session.userId!);
+      res.json(await withDetails(storage, withdrawals));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Client: Request a payout from the wallet
+  app.post("/api/withdrawals", requireAuth, async (req, res) => {
+    try {
+      if (req.session.role !== "client") {
+        return res.status(403).json({ message: "Only clients can request withdrawals" });
+      }
+
+      const request = withdrawalRequestSchema.parse(req.body);
+      const withdrawal = await requestWithdrawal(storage, req.session.userId!, request);
+      res.status(201).json(withdrawal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to request withdrawal" });
+    }
+  });
+
+  // Admin: Approve a pending withdrawal
+  app.post("/api/withdrawals/:id/approve", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const withdrawal = await approveWithdrawal(storage, req.params.id, req.session.userId!);
+      res.json(withdrawal);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to approve withdrawal" });
+    }
+  });
+
+  // Admin: Reject a withdrawal with a reason; any held amount returns to the wallet
+  app.post("/api/withdrawals/:id/reject", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const { reason } = rejectWithdrawalSchema.parse(req.body);
+      const withdrawal = await rejectWithdrawal(storage, req.params.id, req.session.userId!, reason);
+      res.json(withdrawal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reject withdrawal" });
+    }
+  });
+
+  // Admin: Record the payout of an approved withdrawal
+  app.post("/api/withdrawals/:id/paid", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const { paymentReference } = markWithdrawalPaidSchema.parse(req.body);
+      const withdrawal = await markWithdrawalPaid(storage, req.params.id, req.session.userId!, paymentReference);
+      res.json(withdrawal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to mark withdrawal paid" });
+    }
+  });
+
+  // Admin: Deposits for reconciliation, optionally by ?status=
+  app.get("/api/deposits", requirePermission("finance.view"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      res.json(await withDepositDetails(storage, await storage.getAllDeposits(status)));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/deposits/:id", requirePermission("finance.view"), async (req, res) => {
+    try {
+      const deposit = await storage.getDepositById(req.params.id);
+      if (!deposit) {
+        return res.status(404).json({ message: "Deposit not found" });
+      }
+      const [details] = await withDepositDetails(storage, [deposit]);
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Admin: Record a UPI payment received for a plan
+  app.post("/api/deposits", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const request = recordDepositSchema.parse(req.body);
+      const deposit = await recordDeposit(storage, req.session.userId!, request);
+      res.status(201).json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record deposit" });
+    }
+  });
+
+  // Admin: Approve a deposit once it is matched against the bank statement
+  app.post("/api/deposits/:id/approve", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const deposit = await approveDeposit(storage, req.params.id, req.session.userId!);
+      res.json(deposit);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to approve deposit" });
+    }
+  });
+
+  app.post("/api/deposits/:id/reject", requirePermission("finance.manage"), async (req, res) => {
+    try {
+      const { reason } = rejectDepositSchema.parse(req.body);
+      const deposit = await rejectDeposit(storage, req.params.id, req.session.userId!, reason);
+      res.json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reject deposit" });
+    }
+  });
+
+  // Plans the client can move up to, with the price difference; admins pass ?clientId=
+  app.get("/api/upgrades/options", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? String(req.query.clientId || "") : req.session.userId!;
+      res.json(await getUpgradeOptions(storage, clientId));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to load upgrade options" });
+    }
+  });
+
+  // Upgrades: admins see all (optionally by ?status= or ?clientId=), clients their own package history
+  app.get("/api/upgrades", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      let upgrades;
+      if (req.session.role === "admin") {
+        const status = typeof req.query.status === "string" ? req.query.status : undefined;
+        upgrades = typeof req.query.clientId === "string"
+          ? (await storage.getPlanUpgradesByUser(req.query.clientId)).filter(upgrade => !status || upgrade.status === status)
+          : await storage.getAllPlanUpgrades(status);
+      } else {
+        upgrades = await storage.getPlanUpgradesByUser(req.session.userId!);
+      }
+      res.json(await withUpgradeDetails(storage, upgrades));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/upgrades/:id", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const upgrade = await storage.getPlanUpgradeById(req.params.id);
+      if (!upgrade || (req.session.role === "client" && upgrade.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Upgrade not found" });
+      }
+      const [details] = await withUpgradeDetails(storage, [upgrade]);
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // UPI QR code for the price difference of a pending upgrade
+  app.get("/api/upgrades/:id/upi", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const upgrade = await storage.getPlanUpgradeById(req.params.id);
+      if (!upgrade || (req.session.role === "client" && upgrade.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Upgrade not found" });
+      }
+      res.json(await getUpgradePaymentRequest(storage, upgrade.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create UPI payment request" });
+    }
+  });
+
+  // Request an upgrade: clients for themselves, admins for any client
+  app.post("/api/upgrades", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const request = planUpgradeRequestSchema.parse(req.body);
+      const clientId = req.session.role === "admin" ? request.clientId : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client is required" });
+      }
+
+      const upgrade = await requestUpgrade(storage, req.session.userId!, clientId, request.toPlanId);
+      const [details] = await withUpgradeDetails(storage, [upgrade]);
+      res.status(201).json(details);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to request upgrade" });
+    }
+  });
+
+  app.post("/api/upgrades/:id/cancel", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const upgrade = await storage.getPlanUpgradeById(req.params.id);
+      if (!upgrade || (req.session.role === "client" && upgrade.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Upgrade not found" });
+      }
+      res.json(await cancelUpgrade(storage, upgrade.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel upgrade" });
+    }
+  });
+
+  // Where the client's plan period stands; admins pass ?clientId=
+  app.get("/api/renewals/status", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const clientId = req.session.role === "admin" ? String(req.query.clientId || "") : req.session.userId!;
+      const client = await storage.getUserById(clientId);
+      if (!client || client.role !== "client") {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await getMembershipStatus(storage, client));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Mobile verification: sends a code by SMS to the client's number
+  app.post("/api/mobile-verification", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const request = mobileVerificationRequestSchema.parse(req.body);
+      const clientId = req.session.role === "admin" ? request.clientId : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client is required" });
+      }
+      res.json(await sendMobileVerificationCode(storage, getMessageSender(), clientId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to send code" });
+    }
+  });
+
+  app.post("/api/mobile-verification/verify", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const request = verifyMobileSchema.parse(req.body);
+      const clientId = req.session.role === "admin" ? request.clientId : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client is required" });
+      }
+      const { password: _, ...client } = await verifyMobile(storage, clientId, request.code);
+      res.json(client);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to verify mobile number" });
+    }
+  });
+
+  // Members whose plan expires within ?days= (default PLAN_EXPIRY_WARNING_DAYS) or has lapsed
+  app.get("/api/renewals/expiring", requirePermission("clients.view"), async (req, res) => {
+    try {
+      const days = parseInt(String(req.query.days ?? ""), 10);
+      res.json(await getExpiringMembers(storage, Number.isFinite(days) ? days : config.planExpiryWarningDays));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Renewals: admins see all (optionally by ?status= or ?clientId=), clients their own
+  app.get("/api/renewals", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      let renewals;
+      if (req.session.role === "admin") {
+        const status = typeof req.query.status === "string" ? req.query.status : undefined;
+        renewals = typeof req.query.clientId === "string"
+          ? (await storage.getPlanRenewalsByUser(req.query.clientId)).filter(renewal => !status || renewal.status === status)
+          : await storage.getAllPlanRenewals(status);
+      } else {
+        renewals = await storage.getPlanRenewalsByUser(req.session.userId!);
+      }
+      res.json(await withRenewalDetails(storage, renewals));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/renewals/:id", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const renewal = await storage.getPlanRenewalById(req.params.id);
+      if (!renewal || (req.session.role === "client" && renewal.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Renewal not found" });
+      }
+      const [details] = await withRenewalDetails(storage, [renewal]);
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // UPI QR code for the price of a pending renewal
+  app.get("/api/renewals/:id/upi", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const renewal = await storage.getPlanRenewalById(req.params.id);
+      if (!renewal || (req.session.role === "client" && renewal.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Renewal not found" });
+      }
+      res.json(await getRenewalPaymentRequest(storage, renewal.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create UPI payment request" });
+    }
+  });
+
+  // Request a renewal: clients for themselves, admins for any client
+  app.post("/api/renewals", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const request = planRenewalRequestSchema.parse(req.body);
+      const clientId = req.session.role === "admin" ? request.clientId : req.session.userId!;
+      if (!clientId) {
+        return res.status(400).json({ message: "Client is required" });
+      }
+
+      const renewal = await requestRenewal(storage, req.session.userId!, clientId);
+      const [details] = await withRenewalDetails(storage, [renewal]);
+      res.status(201).json(details);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to request renewal" });
+    }
+  });
+
+  app.post("/api/renewals/:id/cancel", requirePermissionForAdmins("clients.manage"), async (req, res) => {
+    try {
+      const renewal = await storage.getPlanRenewalById(req.params.id);
+      if (!renewal || (req.session.role === "client" && renewal.userId !== req.session.userId)) {
+        return res.status(404).json({ message: "Renewal not found" });
+      }
+      res.json(await cancelRenewal(storage, renewal.id));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel renewal" });
+    }
+  });
+
+  // Earnings: admins see every credit, clients only their own
+  app.get("/api/earnings", requirePermissionForAdmins("clients.view"), async (req, res) => {
+    try {
+      const earnings = req.session.role === "admin"
+        ? await storage.getAllEarnings()
+        : await storage.getEarningsByUser(req.session.userId!);
+      res.json(earnings);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get client statistics
+  app.get("/api/stats", requirePermission("dashboard.view"), async (req, res) => {
+    try {
+      const stats = await storage.getClientStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Public plan catalog: plans on sale with the fields customers see
+  app.get("/api/catalog/plans", async (req, res) => {
+    try {
+      res.json(await getPlanCatalog(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Plans management endpoints
+  // Get all plans
+  app.get("/api/plans", requirePermission("plans.view"), async (req, res) => {
+    try {
+      const plans = await storage.getAllPlans();
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get plan by ID
+  app.get("/api/plans/:id", requirePermission("plans.view"), async (req, res) => {
+    try {
+      const plan = await storage.getPlanById(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Terms history of a plan, newest first
+  app.get("/api/plans/:id/versions", requirePermission("plans.view"), async (req, res) => {
+    try {
+      const plan = await storage.getPlanById(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      res.json(await storage.getPlanVersions(plan.id));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create new plan
+  app.post("/api/plans", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const planData = insertPlanSchema.parse(req.body);
+      const plan = await storage.createPlan(planData);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update plan
+  app.put("/api/plans/:id", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const planData = updatePlanSchema.parse(req.body);
+      const plan = await storage.updatePlan(req.params.id, planData);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete plan; plans with members must be archived or emptied first
+  app.delete("/api/plans/:id", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const plan = await storage.getPlanById(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+
+      const memberCount = await storage.countPlanMembers(plan.id);
+      if (memberCount > 0) {
+        return res.status(409).json({
+          message: `${plan.name} has ${memberCount} member(s). Archive it or migrate its members first.`,
+          memberCount,
+        });
+      }
+
+      await deletePlan(storage, plan);
+      res.json({ message: "Plan deleted successfully" });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to delete plan" });
+    }
+  });
+
+  // Move all members of a plan onto another plan
+  app.post("/api/plans/:id/migrate", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const { toPlanId } = migratePlanMembersSchema.parse(req.body);
+      const migrated = await migratePlanMembers(storage, req.params.id, toPlanId);
+      res.json({ migrated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to migrate plan members" });
+    }
+  });
+
+  // Coupons management endpoints
+  app.get("/api/coupons", requirePermission("plans.view"), async (req, res) => {
+    try {
+      res.json(await withCouponUsage(storage, await storage.getAllCoupons()));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Price of a plan with a coupon, checked before the client is registered
+  app.post("/api/coupons/quote", requirePermission("plans.view"), async (req, res) => {
+    try {
+      res.json(await quoteCoupon(storage, couponQuoteRequestSchema.parse(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to check coupon" });
+    }
+  });
+
+  app.post("/api/coupons", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const coupon = await createCoupon(storage, insertCouponSchema.parse(req.body));
+      res.status(201).json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create coupon" });
+    }
+  });
+
+  app.put("/api/coupons/:id", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const couponData = updateCouponSchema.parse(req.body);
+      const coupon = await storage.getCouponById(req.params.id);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      res.json(await updateCoupon(storage, coupon, couponData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update coupon" });
+    }
+  });
+
+  app.delete("/api/coupons/:id", requirePermission("plans.manage"), async (req, res) => {
+    try {
+      const coupon = await storage.getCouponById(req.params.id);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      await deleteCoupon(storage, coupon);
+      res.json({ message: "Coupon deleted successfully" });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to delete coupon" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,57 @@
+import bcrypt from "bcrypt";
+import { pathToFileURL } from "url";
+import { users, plans } from "@shared/schema";
+import { createDb, type Database } from "./db";
+import { DbStorage } from "./db-storage";
+import { defaultAdmin, defaultPlans } from "./defaults";
+
+// Idempotent: existing admin and plans (matched by username / name) are left untouched
+export async function seed(db: Database, adminPassword: string) {
+  const hashedPassword = await bcrypt.hash(adminPassword, 10);
+  const insertedAdmins = await db
+    .insert(users)
+    .values({ ...defaultAdmin, password: hashedPassword, role: "admin", mustChangePassword: true })
+    .onConflictDoNothing({ target: users.username })
+    .returning({ id: users.id });
+
+  const existingPlanNames = new Set(
+    (await db.select({ name: plans.name }).from(plans)).map(plan => plan.name)
+  );
+  const missingPlans = defaultPlans.filter(plan => !existingPlanNames.has(plan.name));
+  // Created through the storage so each plan gets its first version
+  const storage = new DbStorage(db);
+  for (const plan of missingPlans) {
+    await storage.createPlan(plan);
+  }
+
+  return {
+    adminCreated: insertedAdmins.length > 0,
+    plansCreated: missingPlans.map(plan => plan.name),
+  };
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+  if (!process.env.ADMIN_PASSWORD) {
+    throw new Error("ADMIN_PASSWORD must be set to seed the admin account");
+  }
+
+  const result = await seed(createDb(process.env.DATABASE_URL), process.env.ADMIN_PASSWORD);
+  console.log(result.adminCreated ? "Created admin account" : "Admin account already exists");
+  console.log(
+    result.plansCreated.length > 0
+      ? `Created plans: ${result.plansCreated.join(", ")}`
+      : "Default plans already exist"
+  );
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,40 @@
+import session from "express-session";
+import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { createPool } from "./db";
+import { config } from "./config";
+
+const developmentSecret = "development-session-secret";
+
+// Sessions follow the storage: kept in Postgres when a database is configured so they survive
+// restarts, otherwise in memory. Cookies are Secure and SameSite=Strict in production; development
+// runs over plain HTTP, so they are sent without Secure and with SameSite=Lax.
+export function createSessionMiddleware(env: string) {
+  const isProduction = env === "production";
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && isProduction) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const store = process.env.DATABASE_URL
+    ? new (connectPgSimple(session))({
+        pool: createPool(process.env.DATABASE_URL),
+        tableName: "session", // Created by the migrations
+        pruneSessionInterval: config.session.pruneIntervalMs / 1000,
+      })
+    : new (MemoryStore(session))({ checkPeriod: config.session.pruneIntervalMs });
+
+  return session({
+    secret: secret || developmentSecret,
+    resave: false,
+    saveUninitialized: false,
+    store,
+    proxy: isProduction, // TLS ends at the hosting proxy; trust its X-Forwarded-Proto for Secure cookies
+    cookie: {
+      secure: isProduction,
+      sameSite: isProduction ? "strict" : "lax",
+      httpOnly: true,
+      maxAge: config.session.maxAgeMs,
+    },
+  });
+}
@@ -1,20 +1,66 @@
-import { type User, type InsertUser, type CreateClientRequest, type Plan, type InsertPlan, type UpdatePlan } from "@shared/schema";
+import { type User, type InsertUser, type CreateAdminRequest, type LoginAttempt, type InsertLoginAttempt, type OtpCode, type InsertOtpCode, type OtpPurpose, type TwoFactorSecret, type CreateClientRequest, type ClientStats, type Plan, type InsertPlan, type UpdatePlan, type PlanVersion, planTermsChanged, type Earning, type InsertEarning, type BusinessVolume, type PairMatch, type Wallet, type LedgerEntry, type InsertLedgerEntry, type SystemWalletCode, type PayoutAccount, type InsertPayoutAccount, type Withdrawal, type InsertWithdrawal, type Deposit, type InsertDeposit, type PlanUpgrade, type InsertPlanUpgrade, type PlanRenewal, type InsertPlanRenewal, type Coupon, type InsertCoupon, type UpdateCoupon, type CouponRedemption, type InsertCouponRedemption } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 import bcrypt from "bcrypt";
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+import { defaultAdmin, defaultPlans } from "./defaults";
+import { assertBalanced } from "./ledger";
 
 export interface IStorage {
+  // Runs the work against a storage whose writes all commit together, or not at all if it throws
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User management
   getUser(id: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | null>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createClient(client: CreateClientRequest, createdById?: string): Promise<User>;
-  createClientWithPayment(client: CreateClientRequest, createdById?: string): Promise<User>;
+  createPendingClient(client: CreateClientRequest, plan: Plan, paymentReference: string, createdById?: string): Promise<User>;
+  activateClient(id: string): Promise<User | null>;
+  updateMembership(id: string, membership: Partial<Pick<User, "status" | "planExpiresAt">>): Promise<User | null>;
+  getPendingClients(): Promise<User[]>;
+  deleteUser(id: string): Promise<boolean>;
+
+  // Admin accounts
+  getAdmins(): Promise<User[]>;
+  // Hashes the password; the new admin must change it at their first login
+  createAdmin(admin: CreateAdminRequest, password: string): Promise<User>;
+  updateAdmin(id: string, changes: Partial<Pick<User, "adminRole" | "status">>): Promise<User | null>;
   
   // Authentication
   validateUser(username: string, password: string, role: string): Promise<User | null>;
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginAttempts(filter: { ip?: string; userId?: string; since?: Date }): Promise<LoginAttempt[]>;
+  recordFailedLogin(userId: string, at: Date): Promise<User | null>;
+  lockUser(userId: string, until: Date): Promise<User | null>;
+  clearFailedLogins(userId: string): Promise<User | null>;
+  getLockedUsers(now: Date): Promise<User[]>;
+  // Hashes the password and bumps the session version; `mustChangePassword` forces the user to
+  // replace it at their next login
+  setPassword(userId: string, password: string, mustChangePassword: boolean): Promise<User | null>;
+  markMobileVerified(userId: string, at: Date): Promise<User | null>;
+
+  // One-time codes
+  createOtpCode(otp: InsertOtpCode): Promise<OtpCode>;
+  getLatestOtpCode(userId: string, purpose: OtpPurpose): Promise<OtpCode | undefined>;
+  recordOtpAttempt(id: string): Promise<OtpCode | null>;
+  // Null if the code was already used, so a code can only succeed once
+  consumeOtpCode(id: string, at: Date): Promise<OtpCode | null>;
+
+  // Admin two-factor authentication
+  getTwoFactorSecret(userId: string): Promise<TwoFactorSecret | undefined>;
+  // Starts (or restarts) enrollment with a new secret; two-factor is off until enableTwoFactor
+  saveTwoFactorSecret(userId: string, secret: string): Promise<TwoFactorSecret>;
+  enableTwoFactor(userId: string, at: Date, backupCodeHashes: string[]): Promise<TwoFactorSecret | null>;
+  setBackupCodes(userId: string, backupCodeHashes: string[]): Promise<TwoFactorSecret | null>;
+  // False if a code from this time step (or a later one) was already accepted
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+  // False if the backup code is unknown or already used
+  consumeBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteTwoFactorSecret(userId: string): Promise<boolean>;
   
-  // Hierarchical operations
+  // Hierarchical operations (active and expired clients; pending clients still hold their position)
   getAllClients(): Promise<User[]>;
   getClientsByParent(parentId: string): Promise<User[]>;
   getClientDownline(clientId: string): Promise<User[]>;
@@ -26,42 +72,195 @@ export interface IStorage {
   createPlan(plan: InsertPlan): Promise<Plan>;
   updatePlan(id: string, plan: UpdatePlan): Promise<Plan | null>;
   deletePlan(id: string): Promise<boolean>;
+  countPlanMembers(planId: string): Promise<number>;
+  migratePlanMembers(fromPlanId: string, toPlan: Plan): Promise<number>;
+  getPlanVersions(planId: string): Promise<PlanVersion[]>;
+  getPlanVersionById(id: string): Promise<PlanVersion | null>;
+  
+  // Earnings
+  createEarning(earning: InsertEarning): Promise<Earning>;
+  getEarningsByUser(userId: string): Promise<Earning[]>;
+  getAllEarnings(): Promise<Earning[]>;
+  getCarriedEarnings(): Promise<Earning[]>;
+  // Null unless the earning still carries `carriedForward`, so the same amount is released only once
+  releaseCarriedForward(id: string, amount: number, carriedForward: number): Promise<Earning | null>;
+  
+  // Business volume
+  getBusinessVolume(userId: string): Promise<BusinessVolume | null>;
+  getAllBusinessVolumes(): Promise<BusinessVolume[]>;
+  addBusinessVolume(userId: string, leg: "left" | "right", volume: number): Promise<BusinessVolume>;
+  // Counts one more activated member in the leg and returns the updated counts
+  addLegMember(userId: string, leg: "left" | "right"): Promise<BusinessVolume>;
+  recordPairMatch(userId: string, matchedVolume: number): Promise<PairMatch>;
+  getPairMatches(userId: string, since?: Date): Promise<PairMatch[]>;
+  
+  // Wallets & ledger (wallets are created on first use)
+  getUserWallet(userId: string): Promise<Wallet>;
+  // Holds the user's wallet until the surrounding transaction ends, so a balance check and the
+  // debit that relies on it cannot interleave with another debit of the same wallet
+  lockUserWallet(userId: string): Promise<Wallet>;
+  getSystemWallet(code: SystemWalletCode): Promise<Wallet>;
+  postLedgerTransaction(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]>;
+  getLedgerEntries(walletId: string): Promise<LedgerEntry[]>;
+  getWalletBalance(walletId: string): Promise<number>;
+  
+  // Withdrawals
+  createPayoutAccount(userId: string, account: InsertPayoutAccount): Promise<PayoutAccount>;
+  getPayoutAccounts(userId: string): Promise<PayoutAccount[]>;
+  getPayoutAccountById(id: string): Promise<PayoutAccount | null>;
+  createWithdrawal(withdrawal: InsertWithdrawal): Promise<Withdrawal>;
+  getWithdrawalById(id: string): Promise<Withdrawal | null>;
+  getWithdrawalsByUser(userId: string): Promise<Withdrawal[]>;
+  getAllWithdrawals(status?: string): Promise<Withdrawal[]>;
+  // Null unless the withdrawal is still in one of `fromStatuses`, so concurrent reviews cannot both succeed
+  updateWithdrawal(id: string, withdrawal: Partial<InsertWithdrawal>, fromStatuses: string[]): Promise<Withdrawal | null>;
+
+  // Deposits
+  createDeposit(deposit: InsertDeposit): Promise<Deposit>;
+  getDepositById(id: string): Promise<Deposit | null>;
+  getDepositByReference(upiTransactionRef: string): Promise<Deposit | null>;
+  getDepositsByClient(clientId: string): Promise<Deposit[]>;
+  getAllDeposits(status?: string): Promise<Deposit[]>;
+  // Null unless the deposit is still in one of `fromStatuses`, so concurrent reviews cannot both succeed
+  updateDeposit(id: string, deposit: Partial<InsertDeposit>, fromStatuses: string[]): Promise<Deposit | null>;
+
+  // Plan upgrades
+  createPlanUpgrade(upgrade: InsertPlanUpgrade): Promise<PlanUpgrade>;
+  getPlanUpgradeById(id: string): Promise<PlanUpgrade | null>;
+  getPlanUpgradesByUser(userId: string): Promise<PlanUpgrade[]>;
+  getAllPlanUpgrades(status?: string): Promise<PlanUpgrade[]>;
+  cancelPlanUpgrade(id: string): Promise<PlanUpgrade | null>;
+  completePlanUpgrade(id: string, plan: Plan): Promise<PlanUpgrade | null>;
+
+  // Plan renewals
+  createPlanRenewal(renewal: InsertPlanRenewal): Promise<PlanRenewal>;
+  getPlanRenewalById(id: string): Promise<PlanRenewal | null>;
+  getPlanRenewalsByUser(userId: string): Promise<PlanRenewal[]>;
+  getAllPlanRenewals(status?: string): Promise<PlanRenewal[]>;
+  cancelPlanRenewal(id: string): Promise<PlanRenewal | null>;
+  completePlanRenewal(id: string, renewedUntil: Date): Promise<PlanRenewal | null>;
+
+  // Coupons (a registration has at most one redemption)
+  getAllCoupons(): Promise<Coupon[]>;
+  getCouponById(id: string): Promise<Coupon | null>;
+  getCouponByCode(code: string): Promise<Coupon | null>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: string, coupon: UpdateCoupon): Promise<Coupon | null>;
+  deleteCoupon(id: string): Promise<boolean>;
+  countCouponRedemptions(couponId: string): Promise<number>;
+  // Refused once the coupon has reached its usage limit; the check and the insert are atomic
+  createCouponRedemption(redemption: InsertCouponRedemption): Promise<CouponRedemption>;
+  getCouponRedemptionByUser(userId: string): Promise<CouponRedemption | null>;
+  deleteCouponRedemption(userId: string): Promise<boolean>;
   
   // Statistics
-  getClientStats(): Promise<{
-    total: number;
-    silver: number;
-    gold: number;
-    diamond: number;
-  }>;
+  getClientStats(): Promise<ClientStats>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private loginAttempts: Map<string, LoginAttempt>;
+  private otpCodes: Map<string, OtpCode>;
+  private twoFactorSecrets: Map<string, TwoFactorSecret>;
   private plans: Map<string, Plan>;
+  private planVersions: Map<string, PlanVersion>;
+  private earnings: Map<string, Earning>;
+  private businessVolumes: Map<string, BusinessVolume>;
+  private pairMatches: Map<string, PairMatch>;
+  private wallets: Map<string, Wallet>;
+  private ledgerEntries: Map<string, LedgerEntry>;
+  private payoutAccounts: Map<string, PayoutAccount>;
+  private withdrawals: Map<string, Withdrawal>;
+  private deposits: Map<string, Deposit>;
+  private planUpgrades: Map<string, PlanUpgrade>;
+  private planRenewals: Map<string, PlanRenewal>;
+  private coupons: Map<string, Coupon>;
+  private couponRedemptions: Map<string, CouponRedemption>;
+  // Transactions run one at a time; work nested inside one joins it instead of queueing
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  private transactionScope = new AsyncLocalStorage<boolean>();
 
   constructor() {
     this.users = new Map();
+    this.loginAttempts = new Map();
+    this.otpCodes = new Map();
+    this.twoFactorSecrets = new Map();
     this.plans = new Map();
+    this.planVersions = new Map();
+    this.earnings = new Map();
+    this.businessVolumes = new Map();
+    this.pairMatches = new Map();
+    this.wallets = new Map();
+    this.ledgerEntries = new Map();
+    this.payoutAccounts = new Map();
+    this.withdrawals = new Map();
+    this.deposits = new Map();
+    this.planUpgrades = new Map();
+    this.planRenewals = new Map();
+    this.coupons = new Map();
+    this.couponRedemptions = new Map();
     this.initializeAdminUser();
     this.initializePlans();
   }
 
+  private get tables(): Map<string, unknown>[] {
+    return [
+      this.users, this.loginAttempts, this.otpCodes, this.twoFactorSecrets, this.plans, this.planVersions,
+      this.earnings, this.businessVolumes, this.pairMatches, this.wallets, this.ledgerEntries, this.payoutAccounts,
+      this.withdrawals, this.deposits, this.planUpgrades, this.planRenewals, this.coupons, this.couponRedemptions,
+    ];
+  }
+
+  // Records are replaced rather than changed in place, so copying the maps is enough to roll back
+  private async runRollingBack<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    const snapshot = this.tables.map(table => new Map(table));
+    try {
+      return await work(this);
+    } catch (error) {
+      this.tables.forEach((table, i) => {
+        table.clear();
+        snapshot[i].forEach((value, key) => table.set(key, value));
+      });
+      throw error;
+    }
+  }
+
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return await this.runRollingBack(work);
+    }
+    const result = this.transactionQueue.then(() => this.transactionScope.run(true, () => this.runRollingBack(work)));
+    this.transactionQueue = result.catch(() => undefined);
+    return await result;
+  }
+
   private async initializeAdminUser() {
     const adminExists = Array.from(this.users.values()).some(user => user.role === "admin");
     if (!adminExists) {
-      const hashedPassword = await bcrypt.hash("admin123", 10);
+      const hashedPassword = await bcrypt.hash(process.env.ADMIN_PASSWORD || "admin123", 10);
       const admin: User = {
         id: randomUUID(),
-        name: "System Admin",
-        username: "admin",
+        name: defaultAdmin.name,
+        username: defaultAdmin.username,
         password: hashedPassword,
-        email: "admin@nappinghand.com",
+        email: defaultAdmin.email,
         mobile: null,
         role: "admin",
+        adminRole: defaultAdmin.adminRole,
+        planId: null,
         package: null,
+        planVersionId: null,
         parentId: null,
         position: null,
+        status: "active",
+        planExpiresAt: null,
+        paymentReference: null,
+        failedLoginCount: 0,
+        sessionVersion: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        mustChangePassword: true,
+        mobileVerifiedAt: null,
         createdAt: new Date(),
       };
       this.users.set(admin.id, admin);
@@ -93,52 +292,28 @@ export class MemStorage implements IStorage {
       username: insertUser.username,
       password: hashedPassword,
       role: insertUser.role || "client",
+      adminRole: insertUser.adminRole || null,
+      planId: insertUser.planId || null,
       package: insertUser.package || null,
+      planVersionId: insertUser.planVersionId || null,
       parentId: insertUser.parentId || null,
       position: insertUser.position || null,
+      status: "active",
+      planExpiresAt: null,
+      paymentReference: null,
+      failedLoginCount: 0,
+      sessionVersion: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      mustChangePassword: false,
+      mobileVerifiedAt: null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
 
-  async createClient(client: CreateClientRequest, createdById?: string): Promise<User> {
-    const hashedPassword = await bcrypt.hash(client.password, 10);
-    const id = randomUUID();
-    
-    // Ensure parentId is set (fallback to createdById if not provided)
-    const parentId = client.parentId || createdById;
-    
-    // If parentId is provided, find available position
-    let position: string | null = null;
-    if (parentId) {
-      const availablePositions = await this.getAvailablePositions(parentId);
-      if (availablePositions.length === 0) {
-        throw new Error("Parent already has 2 children");
-      }
-      position = client.position || availablePositions[0];
-    }
-
-    const user: User = {
-      id,
-      name: client.name || null,
-      username: client.username,
-      password: hashedPassword,
-      email: client.email || null,
-      mobile: client.mobile || null,
-      role: "client",
-      package: client.package,
-      parentId: parentId || null,
-      position: position,
-      createdAt: new Date(),
-    };
-    
-    this.users.set(id, user);
-    return user;
-  }
-
-  // Enhanced client creation with payment confirmation and binary tree logic
-  async createClientWithPayment(client: CreateClientRequest, adminId?: string): Promise<User> {
+  async createPendingClient(client: CreateClientRequest, plan: Plan, paymentReference: string, adminId?: string): Promise<User> {
     const hashedPassword = await bcrypt.hash(client.password, 10);
     const id = randomUUID();
     
@@ -170,8 +345,8 @@ export class MemStorage implements IStorage {
           position = adminPositions.length > 0 ? adminPositions[0] : null;
         }
       } else {
-        // Assign to the first available position
-        position = availablePositions[0];
+        // Take the requested position if it is free, otherwise the first available one
+        position = client.position && availablePositions.includes(client.position) ? client.position : availablePositions[0];
       }
     }
 
@@ -183,9 +358,21 @@ export class MemStorage implements IStorage {
       email: client.email || null,
       mobile: client.mobile || null,
       role: "client",
-      package: client.package,
+      adminRole: null,
+      planId: plan.id,
+      package: plan.name,
+      planVersionId: plan.currentVersionId,
       parentId: parentId || null,
       position: position || null,
+      status: "pending_payment",
+      planExpiresAt: null,
+      paymentReference,
+      failedLoginCount: 0,
+      sessionVersion: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      mustChangePassword: true,
+      mobileVerifiedAt: null,
       createdAt: new Date(),
     };
     
@@ -193,6 +380,84 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async activateClient(id: string): Promise<User | null> {
+    const existing = this.users.get(id);
+    if (!existing || existing.status !== "pending_payment") return null;
+
+    const activated: User = { ...existing, status: "active" };
+    this.users.set(id, activated);
+    return activated;
+  }
+
+  async updateMembership(id: string, membership: Partial<Pick<User, "status" | "planExpiresAt">>): Promise<User | null> {
+    const existing = this.users.get(id);
+    if (!existing) return null;
+
+    const updated: User = { ...existing, ...membership };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getPendingClients(): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.status === "pending_payment");
+  }
+
+  async getAdmins(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role === "admin")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createAdmin(admin: CreateAdminRequest, password: string): Promise<User> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const id = randomUUID();
+    const user: User = {
+      id,
+      name: admin.name,
+      username: admin.username,
+      password: hashedPassword,
+      email: admin.email,
+      mobile: null,
+      role: "admin",
+      adminRole: admin.adminRole,
+      planId: null,
+      package: null,
+      planVersionId: null,
+      parentId: null,
+      position: null,
+      status: "active",
+      planExpiresAt: null,
+      paymentReference: null,
+      failedLoginCount: 0,
+      sessionVersion: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      mustChangePassword: true,
+      mobileVerifiedAt: null,
+      createdAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateAdmin(id: string, changes: Partial<Pick<User, "adminRole" | "status">>): Promise<User | null> {
+    const existing = this.users.get(id);
+    if (!existing || existing.role !== "admin") return null;
+
+    const updated: User = { ...existing, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    await this.deleteCouponRedemption(id);
+    for (const otp of Array.from(this.otpCodes.values())) {
+      if (otp.userId === id) this.otpCodes.delete(otp.id);
+    }
+    this.twoFactorSecrets.delete(id);
+    return this.users.delete(id);
+  }
+
   async validateUser(username: string, password: string, role: string): Promise<User | null> {
     const user = await this.getUserByUsername(username);
     if (!user || user.role !== role) {
@@ -203,12 +468,185 @@ export class MemStorage implements IStorage {
     return isValid ? user : null;
   }
 
+  async createLoginAttempt(attemptData: InsertLoginAttempt): Promise<LoginAttempt> {
+    const id = randomUUID();
+    const attempt: LoginAttempt = {
+      id,
+      username: attemptData.username,
+      userId: attemptData.userId || null,
+      ip: attemptData.ip,
+      reason: attemptData.reason,
+      createdAt: new Date(),
+    };
+    this.loginAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async getLoginAttempts(filter: { ip?: string; userId?: string; since?: Date }): Promise<LoginAttempt[]> {
+    return Array.from(this.loginAttempts.values())
+      .filter(attempt => (!filter.ip || attempt.ip === filter.ip)
+        && (!filter.userId || attempt.userId === filter.userId)
+        && (!filter.since || attempt.createdAt >= filter.since))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async recordFailedLogin(userId: string, at: Date): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) return null;
+
+    const updated: User = { ...existing, failedLoginCount: existing.failedLoginCount + 1, lastFailedLoginAt: at };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async lockUser(userId: string, until: Date): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) return null;
+
+    const updated: User = { ...existing, lockedUntil: until };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async clearFailedLogins(userId: string): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) return null;
+
+    const updated: User = { ...existing, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async getLockedUsers(now: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.lockedUntil && user.lockedUntil > now);
+  }
+
+  async setPassword(userId: string, password: string, mustChangePassword: boolean): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) return null;
+
+    const updated: User = {
+      ...existing,
+      password: await bcrypt.hash(password, 10),
+      mustChangePassword,
+      sessionVersion: existing.sessionVersion + 1,
+    };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async markMobileVerified(userId: string, at: Date): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) return null;
+
+    const updated: User = { ...existing, mobileVerifiedAt: at };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async createOtpCode(otpData: InsertOtpCode): Promise<OtpCode> {
+    const id = randomUUID();
+    const otp: OtpCode = {
+      id,
+      userId: otpData.userId,
+      purpose: otpData.purpose,
+      channel: otpData.channel,
+      destination: otpData.destination,
+      codeHash: otpData.codeHash,
+      attempts: 0,
+      expiresAt: otpData.expiresAt,
+      consumedAt: null,
+      createdAt: new Date(),
+    };
+    this.otpCodes.set(id, otp);
+    return otp;
+  }
+
+  async getLatestOtpCode(userId: string, purpose: OtpPurpose): Promise<OtpCode | undefined> {
+    return Array.from(this.otpCodes.values())
+      .filter(otp => otp.userId === userId && otp.purpose === purpose)
+      .reduce<OtpCode | undefined>((latest, otp) => !latest || otp.createdAt >= latest.createdAt ? otp : latest, undefined);
+  }
+
+  async recordOtpAttempt(id: string): Promise<OtpCode | null> {
+    const existing = this.otpCodes.get(id);
+    if (!existing) return null;
+
+    const updated: OtpCode = { ...existing, attempts: existing.attempts + 1 };
+    this.otpCodes.set(id, updated);
+    return updated;
+  }
+
+  async consumeOtpCode(id: string, at: Date): Promise<OtpCode | null> {
+    const existing = this.otpCodes.get(id);
+    if (!existing || existing.consumedAt) return null;
+
+    const updated: OtpCode = { ...existing, consumedAt: at };
+    this.otpCodes.set(id, updated);
+    return updated;
+  }
+
+  async getTwoFactorSecret(userId: string): Promise<TwoFactorSecret | undefined> {
+    return this.twoFactorSecrets.get(userId);
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<TwoFactorSecret> {
+    const twoFactor: TwoFactorSecret = {
+      userId,
+      secret,
+      enabledAt: null,
+      lastUsedStep: null,
+      backupCodeHashes: [],
+      createdAt: new Date(),
+    };
+    this.twoFactorSecrets.set(userId, twoFactor);
+    return twoFactor;
+  }
+
+  async enableTwoFactor(userId: string, at: Date, backupCodeHashes: string[]): Promise<TwoFactorSecret | null> {
+    const existing = this.twoFactorSecrets.get(userId);
+    if (!existing) return null;
+
+    const updated: TwoFactorSecret = { ...existing, enabledAt: at, backupCodeHashes };
+    this.twoFactorSecrets.set(userId, updated);
+    return updated;
+  }
+
+  async setBackupCodes(userId: string, backupCodeHashes: string[]): Promise<TwoFactorSecret | null> {
+    const existing = this.twoFactorSecrets.get(userId);
+    if (!existing) return null;
+
+    const updated: TwoFactorSecret = { ...existing, backupCodeHashes };
+    this.twoFactorSecrets.set(userId, updated);
+    return updated;
+  }
+
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const existing = this.twoFactorSecrets.get(userId);
+    if (!existing || (existing.lastUsedStep !== null && existing.lastUsedStep >= step)) return false;
+
+    this.twoFactorSecrets.set(userId, { ...existing, lastUsedStep: step });
+    return true;
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const existing = this.twoFactorSecrets.get(userId);
+    if (!existing || !existing.backupCodeHashes.includes(codeHash)) return false;
+
+    this.twoFactorSecrets.set(userId, { ...existing, backupCodeHashes: existing.backupCodeHashes.filter(hash => hash !== codeHash) });
+    return true;
+  }
+
+  async deleteTwoFactorSecret(userId: string): Promise<boolean> {
+    return this.twoFactorSecrets.delete(userId);
+  }
+
   async getAllClients(): Promise<User[]> {
-    return Array.from(this.users.values()).filter(user => user.role === "client");
+    return Array.from(this.users.values()).filter(user => user.role === "client" && user.status !== "pending_payment");
   }
 
   async getClientsByParent(parentId: string): Promise<User[]> {
-    return Array.from(this.users.values()).filter(user => user.parentId === parentId);
+    return Array.from(this.users.values()).filter(user => user.parentId === parentId && user.status !== "pending_payment");
   }
 
   async getClientDownline(clientId: string): Promise<User[]> {
@@ -225,59 +663,28 @@ export class MemStorage implements IStorage {
   }
 
   async getAvailablePositions(parentId: string): Promise<("left" | "right")[]> {
-    const children = await this.getClientsByParent(parentId);
+    const children = Array.from(this.users.values()).filter(user => user.parentId === parentId);
     const occupiedPositions = children.map(child => child.position).filter(Boolean);
     
     const allPositions: ("left" | "right")[] = ["left", "right"];
     return allPositions.filter(pos => !occupiedPositions.includes(pos));
   }
 
-  async getClientStats(): Promise<{ total: number; silver: number; gold: number; diamond: number; }> {
+  async getClientStats(): Promise<ClientStats> {
     const clients = await this.getAllClients();
     return {
       total: clients.length,
-      silver: clients.filter(c => c.package === "Silver").length,
-      gold: clients.filter(c => c.package === "Gold").length,
-      diamond: clients.filter(c => c.package === "Diamond").length,
+      byPlan: (await this.getAllPlans()).map(plan => ({
+        planId: plan.id,
+        name: plan.name,
+        count: clients.filter(c => c.planId === plan.id).length,
+      })),
     };
   }
 
   private async initializePlans() {
-    const defaultPlans: Plan[] = [
-      {
-        id: randomUUID(),
-        name: "Silver",
-        price: "₹510.00 INR",
-        businessVolume: "100",
-        referralCommission: "₹100.00 INR",
-        treeCommission: "₹200.00 INR",
-        status: "active",
-        createdAt: new Date(),
-      },
-      {
-        id: randomUUID(),
-        name: "Gold",
-        price: "₹1010.00 INR",
-        businessVolume: "200",
-        referralCommission: "₹200.00 INR",
-        treeCommission: "₹400.00 INR",
-        status: "active",
-        createdAt: new Date(),
-      },
-      {
-        id: randomUUID(),
-        name: "Diamond",
-        price: "₹1510.00 INR",
-        businessVolume: "300",
-        referralCommission: "₹300.00 INR",
-        treeCommission: "₹600.00 INR",
-        status: "active",
-        createdAt: new Date(),
-      }
-    ];
-
     for (const plan of defaultPlans) {
-      this.plans.set(plan.id, plan);
+      await this.createPlan(plan);
     }
   }
 
@@ -295,16 +702,53 @@ export class MemStorage implements IStorage {
       id,
       name: planData.name,
       price: planData.price,
+      currency: planData.currency || "INR",
       businessVolume: planData.businessVolume,
       referralCommission: planData.referralCommission,
       treeCommission: planData.treeCommission,
+      levelIncome: planData.levelIncome || [],
+      dailyPairCap: planData.dailyPairCap ?? 0,
+      weeklyIncomeCap: planData.weeklyIncomeCap ?? 0,
+      monthlyIncomeCap: planData.monthlyIncomeCap ?? 0,
+      lifetimeCapMultiple: planData.lifetimeCapMultiple ?? 0,
+      capOverflow: planData.capOverflow || "flush",
+      validityDays: planData.validityDays ?? 0,
       status: planData.status || "active",
+      currentVersionId: null,
       createdAt: new Date(),
     };
+    plan.currentVersionId = this.addPlanVersion(plan).id;
     this.plans.set(id, plan);
     return plan;
   }
 
+  // Snapshots the plan's current terms as its next version
+  private addPlanVersion(plan: Plan): PlanVersion {
+    const previous = Array.from(this.planVersions.values()).filter(version => version.planId === plan.id);
+    const now = new Date();
+    const version: PlanVersion = {
+      id: randomUUID(),
+      planId: plan.id,
+      version: previous.length + 1,
+      price: plan.price,
+      currency: plan.currency,
+      businessVolume: plan.businessVolume,
+      referralCommission: plan.referralCommission,
+      treeCommission: plan.treeCommission,
+      levelIncome: plan.levelIncome,
+      dailyPairCap: plan.dailyPairCap,
+      weeklyIncomeCap: plan.weeklyIncomeCap,
+      monthlyIncomeCap: plan.monthlyIncomeCap,
+      lifetimeCapMultiple: plan.lifetimeCapMultiple,
+      capOverflow: plan.capOverflow,
+      validityDays: plan.validityDays,
+      effectiveFrom: now,
+      createdAt: now,
+    };
+    this.planVersions.set(version.id, version);
+    return version;
+  }
+
   async updatePlan(id: string, planData: UpdatePlan): Promise<Plan | null> {
     const existingPlan = this.plans.get(id);
     if (!existingPlan) return null;
@@ -313,13 +757,538 @@ export class MemStorage implements IStorage {
       ...existingPlan,
       ...planData,
     };
+    // Changed terms apply to new sign-ups only; existing members keep the version they bought
+    if (planTermsChanged(existingPlan, updatedPlan)) {
+      updatedPlan.currentVersionId = this.addPlanVersion(updatedPlan).id;
+    }
     this.plans.set(id, updatedPlan);
+
+    // Members display the plan under its current name
+    if (planData.name && planData.name !== existingPlan.name) {
+      for (const user of Array.from(this.users.values())) {
+        if (user.planId === id) {
+          this.users.set(user.id, { ...user, package: planData.name });
+        }
+      }
+    }
     return updatedPlan;
   }
 
   async deletePlan(id: string): Promise<boolean> {
+    for (const version of Array.from(this.planVersions.values())) {
+      if (version.planId === id) {
+        this.planVersions.delete(version.id);
+      }
+    }
     return this.plans.delete(id);
   }
+
+  async countPlanMembers(planId: string): Promise<number> {
+    return Array.from(this.users.values()).filter(user => user.planId === planId).length;
+  }
+
+  async migratePlanMembers(fromPlanId: string, toPlan: Plan): Promise<number> {
+    let migrated = 0;
+    for (const user of Array.from(this.users.values())) {
+      if (user.planId === fromPlanId) {
+        this.users.set(user.id, { ...user, planId: toPlan.id, package: toPlan.name, planVersionId: toPlan.currentVersionId });
+        migrated++;
+      }
+    }
+    return migrated;
+  }
+
+  async getPlanVersions(planId: string): Promise<PlanVersion[]> {
+    return Array.from(this.planVersions.values())
+      .filter(version => version.planId === planId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getPlanVersionById(id: string): Promise<PlanVersion | null> {
+    return this.planVersions.get(id) || null;
+  }
+
+  async createEarning(earningData: InsertEarning): Promise<Earning> {
+    const id = randomUUID();
+    const earning: Earning = {
+      id,
+      userId: earningData.userId,
+      sourceUserId: earningData.sourceUserId || null,
+      type: earningData.type,
+      amount: earningData.amount,
+      description: earningData.description || null,
+      planVersionId: earningData.planVersionId || null,
+      cappedAmount: earningData.cappedAmount ?? 0,
+      carriedForward: earningData.carriedForward ?? 0,
+      capReason: earningData.capReason || null,
+      releasedFromId: earningData.releasedFromId || null,
+      createdAt: new Date(),
+    };
+    this.earnings.set(id, earning);
+    return earning;
+  }
+
+  async getCarriedEarnings(): Promise<Earning[]> {
+    return Array.from(this.earnings.values())
+      .filter(earning => earning.carriedForward > 0)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async releaseCarriedForward(id: string, amount: number, carriedForward: number): Promise<Earning | null> {
+    const earning = this.earnings.get(id);
+    if (!earning || earning.carriedForward !== carriedForward) return null;
+    const updated = { ...earning, carriedForward: Math.max(earning.carriedForward - amount, 0) };
+    this.earnings.set(id, updated);
+    return updated;
+  }
+
+  async getEarningsByUser(userId: string): Promise<Earning[]> {
+    return Array.from(this.earnings.values()).filter(earning => earning.userId === userId);
+  }
+
+  async getAllEarnings(): Promise<Earning[]> {
+    return Array.from(this.earnings.values());
+  }
+
+  async getBusinessVolume(userId: string): Promise<BusinessVolume | null> {
+    return this.businessVolumes.get(userId) || null;
+  }
+
+  async getAllBusinessVolumes(): Promise<BusinessVolume[]> {
+    return Array.from(this.businessVolumes.values());
+  }
+
+  private getOrCreateBusinessVolume(userId: string): BusinessVolume {
+    return this.businessVolumes.get(userId) || {
+      userId,
+      leftVolume: 0,
+      rightVolume: 0,
+      leftCarryForward: 0,
+      rightCarryForward: 0,
+      leftMembers: 0,
+      rightMembers: 0,
+      updatedAt: new Date(),
+    };
+  }
+
+  async addBusinessVolume(userId: string, leg: "left" | "right", volume: number): Promise<BusinessVolume> {
+    const existing = this.getOrCreateBusinessVolume(userId);
+
+    const updated: BusinessVolume = leg === "left"
+      ? { ...existing, leftVolume: existing.leftVolume + volume, leftCarryForward: existing.leftCarryForward + volume, updatedAt: new Date() }
+      : { ...existing, rightVolume: existing.rightVolume + volume, rightCarryForward: existing.rightCarryForward + volume, updatedAt: new Date() };
+    this.businessVolumes.set(userId, updated);
+    return updated;
+  }
+
+  async addLegMember(userId: string, leg: "left" | "right"): Promise<BusinessVolume> {
+    const existing = this.getOrCreateBusinessVolume(userId);
+    const updated: BusinessVolume = leg === "left"
+      ? { ...existing, leftMembers: existing.leftMembers + 1, updatedAt: new Date() }
+      : { ...existing, rightMembers: existing.rightMembers + 1, updatedAt: new Date() };
+    this.businessVolumes.set(userId, updated);
+    return updated;
+  }
+
+  // Matched BV is taken from both legs' carry-forward
+  async recordPairMatch(userId: string, matchedVolume: number): Promise<PairMatch> {
+    const existing = this.businessVolumes.get(userId);
+    if (!existing || existing.leftCarryForward < matchedVolume || existing.rightCarryForward < matchedVolume) {
+      throw new Error("Not enough unmatched volume");
+    }
+
+    this.businessVolumes.set(userId, {
+      ...existing,
+      leftCarryForward: existing.leftCarryForward - matchedVolume,
+      rightCarryForward: existing.rightCarryForward - matchedVolume,
+      updatedAt: new Date(),
+    });
+
+    const id = randomUUID();
+    const match: PairMatch = { id, userId, matchedVolume, createdAt: new Date() };
+    this.pairMatches.set(id, match);
+    return match;
+  }
+
+  async getPairMatches(userId: string, since?: Date): Promise<PairMatch[]> {
+    return Array.from(this.pairMatches.values()).filter(
+      match => match.userId === userId && (!since || match.createdAt >= since)
+    );
+  }
+
+  async getUserWallet(userId: string): Promise<Wallet> {
+    const existing = Array.from(this.wallets.values()).find(wallet => wallet.userId === userId);
+    if (existing) return existing;
+
+    const wallet: Wallet = { id: randomUUID(), userId, code: null, createdAt: new Date() };
+    this.wallets.set(wallet.id, wallet);
+    return wallet;
+  }
+
+  // Transactions already run one at a time here
+  async lockUserWallet(userId: string): Promise<Wallet> {
+    return await this.getUserWallet(userId);
+  }
+
+  async getSystemWallet(code: SystemWalletCode): Promise<Wallet> {
+    const existing = Array.from(this.wallets.values()).find(wallet => wallet.code === code);
+    if (existing) return existing;
+
+    const wallet: Wallet = { id: randomUUID(), userId: null, code, createdAt: new Date() };
+    this.wallets.set(wallet.id, wallet);
+    return wallet;
+  }
+
+  async postLedgerTransaction(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    assertBalanced(entries);
+
+    const transactionId = randomUUID();
+    const createdAt = new Date();
+    const posted = entries.map((entry): LedgerEntry => ({
+      id: randomUUID(),
+      transactionId,
+      walletId: entry.walletId,
+      amount: entry.amount,
+      type: entry.type,
+      description: entry.description || null,
+      referenceId: entry.referenceId || null,
+      createdAt,
+    }));
+
+    for (const entry of posted) {
+      this.ledgerEntries.set(entry.id, entry);
+    }
+    return posted;
+  }
+
+  async getLedgerEntries(walletId: string): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values()).filter(entry => entry.walletId === walletId);
+  }
+
+  async getWalletBalance(walletId: string): Promise<number> {
+    const entries = await this.getLedgerEntries(walletId);
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  async createPayoutAccount(userId: string, accountData: InsertPayoutAccount): Promise<PayoutAccount> {
+    const id = randomUUID();
+    const account: PayoutAccount = {
+      id,
+      userId,
+      type: accountData.type,
+      upiId: accountData.type === "upi" ? accountData.upiId : null,
+      accountHolder: accountData.type === "bank" ? accountData.accountHolder : null,
+      accountNumber: accountData.type === "bank" ? accountData.accountNumber : null,
+      ifsc: accountData.type === "bank" ? accountData.ifsc : null,
+      createdAt: new Date(),
+    };
+    this.payoutAccounts.set(id, account);
+    return account;
+  }
+
+  async getPayoutAccounts(userId: string): Promise<PayoutAccount[]> {
+    return Array.from(this.payoutAccounts.values()).filter(account => account.userId === userId);
+  }
+
+  async getPayoutAccountById(id: string): Promise<PayoutAccount | null> {
+    return this.payoutAccounts.get(id) || null;
+  }
+
+  async createWithdrawal(withdrawalData: InsertWithdrawal): Promise<Withdrawal> {
+    const id = randomUUID();
+    const withdrawal: Withdrawal = {
+      id,
+      userId: withdrawalData.userId,
+      payoutAccountId: withdrawalData.payoutAccountId,
+      amount: withdrawalData.amount,
+      tdsAmount: withdrawalData.tdsAmount ?? 0,
+      adminFee: withdrawalData.adminFee ?? 0,
+      netAmount: withdrawalData.netAmount,
+      held: withdrawalData.held ?? false,
+      status: withdrawalData.status || "pending",
+      rejectionReason: withdrawalData.rejectionReason || null,
+      paymentReference: withdrawalData.paymentReference || null,
+      reviewedById: withdrawalData.reviewedById || null,
+      reviewedAt: withdrawalData.reviewedAt || null,
+      paidAt: withdrawalData.paidAt || null,
+      createdAt: new Date(),
+    };
+    this.withdrawals.set(id, withdrawal);
+    return withdrawal;
+  }
+
+  async getWithdrawalById(id: string): Promise<Withdrawal | null> {
+    return this.withdrawals.get(id) || null;
+  }
+
+  async getWithdrawalsByUser(userId: string): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values()).filter(withdrawal => withdrawal.userId === userId);
+  }
+
+  async getAllWithdrawals(status?: string): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values()).filter(withdrawal => !status || withdrawal.status === status);
+  }
+
+  async updateWithdrawal(id: string, withdrawalData: Partial<InsertWithdrawal>, fromStatuses: string[]): Promise<Withdrawal | null> {
+    const existing = this.withdrawals.get(id);
+    if (!existing || !fromStatuses.includes(existing.status)) return null;
+
+    const updated: Withdrawal = { ...existing, ...withdrawalData };
+    this.withdrawals.set(id, updated);
+    return updated;
+  }
+
+  async createDeposit(depositData: InsertDeposit): Promise<Deposit> {
+    if (await this.getDepositByReference(depositData.upiTransactionRef)) {
+      throw new Error("A deposit with this UPI transaction reference already exists");
+    }
+
+    const id = randomUUID();
+    const deposit: Deposit = {
+      id,
+      amount: depositData.amount,
+      plan: depositData.plan,
+      upiTransactionRef: depositData.upiTransactionRef,
+      payerName: depositData.payerName,
+      payerVpa: depositData.payerVpa || null,
+      status: depositData.status || "pending",
+      rejectionReason: depositData.rejectionReason || null,
+      clientId: depositData.clientId || null,
+      upgradeId: depositData.upgradeId || null,
+      renewalId: depositData.renewalId || null,
+      recordedById: depositData.recordedById,
+      reviewedById: depositData.reviewedById || null,
+      reviewedAt: depositData.reviewedAt || null,
+      createdAt: new Date(),
+    };
+    this.deposits.set(id, deposit);
+    return deposit;
+  }
+
+  async getDepositById(id: string): Promise<Deposit | null> {
+    return this.deposits.get(id) || null;
+  }
+
+  async getDepositByReference(upiTransactionRef: string): Promise<Deposit | null> {
+    return Array.from(this.deposits.values()).find(deposit => deposit.upiTransactionRef === upiTransactionRef) || null;
+  }
+
+  async getDepositsByClient(clientId: string): Promise<Deposit[]> {
+    return Array.from(this.deposits.values())
+      .filter(deposit => deposit.clientId === clientId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAllDeposits(status?: string): Promise<Deposit[]> {
+    return Array.from(this.deposits.values())
+      .filter(deposit => !status || deposit.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateDeposit(id: string, depositData: Partial<InsertDeposit>, fromStatuses: string[]): Promise<Deposit | null> {
+    const existing = this.deposits.get(id);
+    if (!existing || !fromStatuses.includes(existing.status)) return null;
+
+    const updated: Deposit = { ...existing, ...depositData };
+    this.deposits.set(id, updated);
+    return updated;
+  }
+
+  async createPlanUpgrade(upgradeData: InsertPlanUpgrade): Promise<PlanUpgrade> {
+    const id = randomUUID();
+    const upgrade: PlanUpgrade = {
+      id,
+      userId: upgradeData.userId,
+      fromPlanId: upgradeData.fromPlanId,
+      toPlanId: upgradeData.toPlanId,
+      fromPlanVersionId: upgradeData.fromPlanVersionId,
+      toPlanVersionId: upgradeData.toPlanVersionId,
+      amount: upgradeData.amount,
+      currency: upgradeData.currency,
+      paymentReference: upgradeData.paymentReference,
+      status: upgradeData.status || "pending_payment",
+      requestedById: upgradeData.requestedById,
+      createdAt: new Date(),
+      completedAt: upgradeData.completedAt || null,
+    };
+    this.planUpgrades.set(id, upgrade);
+    return upgrade;
+  }
+
+  async getPlanUpgradeById(id: string): Promise<PlanUpgrade | null> {
+    return this.planUpgrades.get(id) || null;
+  }
+
+  async getPlanUpgradesByUser(userId: string): Promise<PlanUpgrade[]> {
+    return Array.from(this.planUpgrades.values())
+      .filter(upgrade => upgrade.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAllPlanUpgrades(status?: string): Promise<PlanUpgrade[]> {
+    return Array.from(this.planUpgrades.values())
+      .filter(upgrade => !status || upgrade.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async cancelPlanUpgrade(id: string): Promise<PlanUpgrade | null> {
+    const existing = this.planUpgrades.get(id);
+    if (!existing || existing.status !== "pending_payment") return null;
+
+    const cancelled: PlanUpgrade = { ...existing, status: "cancelled" };
+    this.planUpgrades.set(id, cancelled);
+    return cancelled;
+  }
+
+  // Marks the upgrade completed and moves the client onto the new plan
+  async completePlanUpgrade(id: string, plan: Plan): Promise<PlanUpgrade | null> {
+    const existing = this.planUpgrades.get(id);
+    const user = existing && this.users.get(existing.userId);
+    if (!existing || !user || existing.status !== "pending_payment") return null;
+
+    const completed: PlanUpgrade = { ...existing, status: "completed", completedAt: new Date() };
+    this.planUpgrades.set(id, completed);
+    this.users.set(user.id, { ...user, planId: plan.id, package: plan.name, planVersionId: existing.toPlanVersionId });
+    return completed;
+  }
+
+  async createPlanRenewal(renewalData: InsertPlanRenewal): Promise<PlanRenewal> {
+    const id = randomUUID();
+    const renewal: PlanRenewal = {
+      id,
+      userId: renewalData.userId,
+      planId: renewalData.planId,
+      planVersionId: renewalData.planVersionId,
+      amount: renewalData.amount,
+      currency: renewalData.currency,
+      paymentReference: renewalData.paymentReference,
+      status: renewalData.status || "pending_payment",
+      requestedById: renewalData.requestedById,
+      renewedUntil: renewalData.renewedUntil || null,
+      createdAt: new Date(),
+      completedAt: renewalData.completedAt || null,
+    };
+    this.planRenewals.set(id, renewal);
+    return renewal;
+  }
+
+  async getPlanRenewalById(id: string): Promise<PlanRenewal | null> {
+    return this.planRenewals.get(id) || null;
+  }
+
+  async getPlanRenewalsByUser(userId: string): Promise<PlanRenewal[]> {
+    return Array.from(this.planRenewals.values())
+      .filter(renewal => renewal.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAllPlanRenewals(status?: string): Promise<PlanRenewal[]> {
+    return Array.from(this.planRenewals.values())
+      .filter(renewal => !status || renewal.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async cancelPlanRenewal(id: string): Promise<PlanRenewal | null> {
+    const existing = this.planRenewals.get(id);
+    if (!existing || existing.status !== "pending_payment") return null;
+
+    const cancelled: PlanRenewal = { ...existing, status: "cancelled" };
+    this.planRenewals.set(id, cancelled);
+    return cancelled;
+  }
+
+  // Marks the renewal completed and puts the member back in force until the new expiry
+  async completePlanRenewal(id: string, renewedUntil: Date): Promise<PlanRenewal | null> {
+    const existing = this.planRenewals.get(id);
+    const user = existing && this.users.get(existing.userId);
+    if (!existing || !user || existing.status !== "pending_payment") return null;
+
+    const completed: PlanRenewal = { ...existing, status: "completed", renewedUntil, completedAt: new Date() };
+    this.planRenewals.set(id, completed);
+    this.users.set(user.id, { ...user, status: "active", planExpiresAt: renewedUntil });
+    return completed;
+  }
+
+  async getAllCoupons(): Promise<Coupon[]> {
+    return Array.from(this.coupons.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getCouponById(id: string): Promise<Coupon | null> {
+    return this.coupons.get(id) || null;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    return Array.from(this.coupons.values()).find(coupon => coupon.code === code) || null;
+  }
+
+  async createCoupon(couponData: InsertCoupon): Promise<Coupon> {
+    if (await this.getCouponByCode(couponData.code)) {
+      throw new Error("A coupon with this code already exists");
+    }
+
+    const id = randomUUID();
+    const coupon: Coupon = {
+      id,
+      code: couponData.code,
+      description: couponData.description || null,
+      discountType: couponData.discountType,
+      discountValue: couponData.discountValue,
+      currency: couponData.currency || "INR",
+      planIds: couponData.planIds || [],
+      validFrom: couponData.validFrom || null,
+      validUntil: couponData.validUntil || null,
+      maxUses: couponData.maxUses ?? 0,
+      commissionBasis: couponData.commissionBasis || "list",
+      status: couponData.status || "active",
+      createdAt: new Date(),
+    };
+    this.coupons.set(id, coupon);
+    return coupon;
+  }
+
+  async updateCoupon(id: string, couponData: UpdateCoupon): Promise<Coupon | null> {
+    const existing = this.coupons.get(id);
+    if (!existing) return null;
+
+    const updated: Coupon = { ...existing, ...couponData };
+    this.coupons.set(id, updated);
+    return updated;
+  }
+
+  async deleteCoupon(id: string): Promise<boolean> {
+    return this.coupons.delete(id);
+  }
+
+  async countCouponRedemptions(couponId: string): Promise<number> {
+    return Array.from(this.couponRedemptions.values()).filter(redemption => redemption.couponId === couponId).length;
+  }
+
+  async createCouponRedemption(redemptionData: InsertCouponRedemption): Promise<CouponRedemption> {
+    if (await this.getCouponRedemptionByUser(redemptionData.userId)) {
+      throw new Error("A coupon has already been applied to this registration");
+    }
+    const coupon = this.coupons.get(redemptionData.couponId);
+    if (coupon && coupon.maxUses > 0 && await this.countCouponRedemptions(coupon.id) >= coupon.maxUses) {
+      throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+    }
+
+    const id = randomUUID();
+    const redemption: CouponRedemption = { id, ...redemptionData, createdAt: new Date() };
+    this.couponRedemptions.set(id, redemption);
+    return redemption;
+  }
+
+  async getCouponRedemptionByUser(userId: string): Promise<CouponRedemption | null> {
+    return Array.from(this.couponRedemptions.values()).find(redemption => redemption.userId === userId) || null;
+  }
+
+  async deleteCouponRedemption(userId: string): Promise<boolean> {
+    const redemption = await this.getCouponRedemptionByUser(userId);
+    return !!redemption && this.couponRedemptions.delete(redemption.id);
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to PostgreSQL when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,194 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { type User, type TwoFactorStatus, type TwoFactorEnrollment, type TwoFactorBackupCodes } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+
+// RFC 6238 defaults, which every authenticator app supports
+const stepSeconds = 30;
+const digits = 6;
+// Codes from the previous and next step are accepted to allow for clock drift
+const driftSteps = 1;
+const issuer = "Napping Hand Academy";
+const backupCodeCount = 10;
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const backupCodeAlphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    value = (value << 5) | base32Alphabet.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP with dynamic truncation
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+function timeStep(now: Date): number {
+  return Math.floor(now.getTime() / 1000 / stepSeconds);
+}
+
+// Time step the code belongs to, or null when it matches none in the drift window
+function matchTotp(secret: string, code: string, now: Date): number | null {
+  if (!new RegExp(`^[0-9]{${digits}}$`).test(code)) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const current = timeStep(now);
+  for (let step = current - driftSteps; step <= current + driftSteps; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashBackupCode(code: string): string {
+  return createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+// "abcd-efgh" style codes, each usable once in place of an authenticator code
+function generateBackupCodes(): string[] {
+  return Array.from({ length: backupCodeCount }, () => {
+    const chars = Array.from(randomBytes(8), byte => backupCodeAlphabet[byte % backupCodeAlphabet.length]).join("");
+    return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+  });
+}
+
+async function getEnabledSecret(storage: IStorage, userId: string) {
+  const twoFactor = await storage.getTwoFactorSecret(userId);
+  if (!twoFactor?.enabledAt) {
+    throw new Error("Two-factor authentication is not enabled");
+  }
+  return twoFactor;
+}
+
+// Authenticator codes only; backup codes are for signing in
+async function checkTotp(storage: IStorage, userId: string, secret: string, code: string, now: Date): Promise<void> {
+  const step = matchTotp(secret, code.trim(), now);
+  if (step === null || !(await storage.recordTotpStep(userId, step))) {
+    throw new Error("Invalid authenticator code");
+  }
+}
+
+export async function getTwoFactorStatus(storage: IStorage, userId: string): Promise<TwoFactorStatus> {
+  const twoFactor = await storage.getTwoFactorSecret(userId);
+  return {
+    enabled: !!twoFactor?.enabledAt,
+    required: config.login.adminTwoFactorRequired,
+    backupCodesLeft: twoFactor?.enabledAt ? twoFactor.backupCodeHashes.length : 0,
+  };
+}
+
+export async function isTwoFactorEnabled(storage: IStorage, user: User): Promise<boolean> {
+  return user.role === "admin" && !!(await storage.getTwoFactorSecret(user.id))?.enabledAt;
+}
+
+// Admins who must enroll before anything else while ADMIN_2FA_REQUIRED is on
+export async function isTwoFactorSetupRequired(storage: IStorage, user: User): Promise<boolean> {
+  return user.role === "admin" && config.login.adminTwoFactorRequired && !(await isTwoFactorEnabled(storage, user));
+}
+
+// New secret for the authenticator app; replaces an unfinished enrollment
+export async function startTwoFactorEnrollment(storage: IStorage, user: User): Promise<TwoFactorEnrollment> {
+  if (user.role !== "admin") {
+    throw new Error("Two-factor authentication is only available for admin accounts");
+  }
+  if (await isTwoFactorEnabled(storage, user)) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  await storage.saveTwoFactorSecret(user.id, secret);
+  const label = encodeURIComponent(`${issuer}:${user.username}`);
+  const uri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${digits}&period=${stepSeconds}`;
+  return { secret, uri, qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 256 }) };
+}
+
+// The first code proves the app is set up; the backup codes are returned only this once
+export async function confirmTwoFactorEnrollment(storage: IStorage, userId: string, code: string, now: Date = new Date()): Promise<TwoFactorBackupCodes> {
+  const twoFactor = await storage.getTwoFactorSecret(userId);
+  if (!twoFactor) {
+    throw new Error("Start two-factor setup first");
+  }
+  if (twoFactor.enabledAt) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+  await checkTotp(storage, userId, twoFactor.secret, code, now);
+
+  const backupCodes = generateBackupCodes();
+  await storage.enableTwoFactor(userId, now, backupCodes.map(hashBackupCode));
+  return { backupCodes };
+}
+
+/**
+ * Second login step: an authenticator code, accepted once per time step, or an unused backup
+ * code. Returns false rather than throwing so the caller can count it as a failed login.
+ */
+export async function verifySecondFactor(storage: IStorage, userId: string, code: string, now: Date = new Date()): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactorSecret(userId);
+  if (!twoFactor?.enabledAt) {
+    return false;
+  }
+  const step = matchTotp(twoFactor.secret, code.trim(), now);
+  if (step !== null) {
+    return storage.recordTotpStep(userId, step);
+  }
+  return storage.consumeBackupCode(userId, hashBackupCode(code));
+}
+
+// Replaces all backup codes; the old ones stop working
+export async function regenerateBackupCodes(storage: IStorage, userId: string, code: string, now: Date = new Date()): Promise<TwoFactorBackupCodes> {
+  const twoFactor = await getEnabledSecret(storage, userId);
+  await checkTotp(storage, userId, twoFactor.secret, code, now);
+
+  const backupCodes = generateBackupCodes();
+  await storage.setBackupCodes(userId, backupCodes.map(hashBackupCode));
+  return { backupCodes };
+}
+
+export async function disableTwoFactor(storage: IStorage, userId: string, code: string, now: Date = new Date()): Promise<void> {
+  if (config.login.adminTwoFactorRequired) {
+    throw new Error("Two-factor authentication is required for admin accounts");
+  }
+  const twoFactor = await getEnabledSecret(storage, userId);
+  await checkTotp(storage, userId, twoFactor.secret, code, now);
+  await storage.deleteTwoFactorSecret(userId);
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+import { requestUpgrade } from "./upgrades";
+import { expireLapsedPlans } from "./renewals";
+import { recordDeposit, approveDeposit } from "./deposits";
+import { hasActivePlan } from "./plans";
+
+async function createMember() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const plans = await storage.getAllPlans();
+  const planId = (name: string) => plans.find(plan => plan.name === name)!.id;
+
+  const pending = await createPendingRegistration(storage, admin.id, {
+    name: "Member",
+    username: "member",
+    password: "member123",
+    email: "member@example.com",
+    mobile: "9999999999",
+    planId: planId("Silver"),
+    parentId: admin.id,
+    position: "left",
+  });
+  const member = await activateRegistration(storage, pending.id);
+  return { storage, admin, member, planId };
+}
+
+test("an upgrade paid for after the plan lapsed makes the member active again", async () => {
+  const { storage, admin, member, planId } = await createMember();
+  const upgrade = await requestUpgrade(storage, member.id, member.id, planId("Gold"));
+
+  // The plan runs out while the upgrade payment is being reconciled
+  await storage.updateMembership(member.id, { planExpiresAt: new Date(Date.now() - 1000) });
+  assert.equal(await expireLapsedPlans(storage), 1);
+
+  const deposit = await recordDeposit(storage, admin.id, {
+    clientId: member.id,
+    upgradeId: upgrade.id,
+    amount: upgrade.amount,
+    upiTransactionRef: "UPGRADE001",
+    payerName: "Member",
+  });
+  await approveDeposit(storage, deposit.id, admin.id);
+
+  const upgraded = (await storage.getUserById(member.id))!;
+  assert.equal(upgraded.package, "Gold");
+  assert.equal(upgraded.status, "active");
+  assert.ok(hasActivePlan(upgraded));
+});
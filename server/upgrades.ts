@@ -0,0 +1,135 @@
+import { type User, type PlanVersion, type PlanUpgrade, type PlanUpgradeDetails, type UpgradeOption, type UpiPaymentRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { creditUpgradeCommissions } from "./commissions";
+import { addUpgradeVolume } from "./volume";
+import { getActivePlan, getCurrentPlanVersion, getUserPlanVersion } from "./plans";
+import { generatePaymentReference, createUpiPaymentRequest } from "./upi";
+import { startPlanPeriod } from "./renewals";
+
+// The client with the plan terms they bought, which the upgrade price is measured from
+async function getUpgradableClient(storage: IStorage, clientId: string): Promise<{ client: User; terms: PlanVersion }> {
+  const client = await storage.getUserById(clientId);
+  if (!client || client.role !== "client" || client.status !== "active") {
+    throw new Error("Only active clients can upgrade their plan");
+  }
+  const terms = await getUserPlanVersion(storage, client);
+  if (!terms) {
+    throw new Error("Client plan not found");
+  }
+  return { client, terms };
+}
+
+// Active plans in the client's currency that cost more than the plan they hold
+export async function getUpgradeOptions(storage: IStorage, clientId: string): Promise<UpgradeOption[]> {
+  const { client, terms: current } = await getUpgradableClient(storage, clientId);
+  return (await storage.getAllPlans())
+    .filter(plan => plan.id !== client.planId && plan.status === "active" && plan.currency === current.currency && plan.price > current.price)
+    .sort((a, b) => a.price - b.price)
+    .map(plan => ({ planId: plan.id, name: plan.name, amount: plan.price - current.price, currency: plan.currency }));
+}
+
+export async function requestUpgrade(storage: IStorage, requesterId: string, clientId: string, toPlanId: string): Promise<PlanUpgrade> {
+  const { client, terms: fromTerms } = await getUpgradableClient(storage, clientId);
+  const toPlan = await getActivePlan(storage, toPlanId);
+  const toTerms = await getCurrentPlanVersion(storage, toPlan);
+
+  if (toTerms.currency !== fromTerms.currency) {
+    throw new Error("The new plan must be priced in the same currency");
+  }
+  if (toPlan.id === client.planId || toTerms.price <= fromTerms.price) {
+    throw new Error(`${toPlan.name} is not an upgrade from ${client.package}`);
+  }
+
+  const upgrades = await storage.getPlanUpgradesByUser(client.id);
+  if (upgrades.some(upgrade => upgrade.status === "pending_payment")) {
+    throw new Error("An upgrade is already awaiting payment for this client");
+  }
+  const renewals = await storage.getPlanRenewalsByUser(client.id);
+  if (renewals.some(renewal => renewal.status === "pending_payment")) {
+    throw new Error("A renewal is awaiting payment for this client; complete or cancel it first");
+  }
+
+  return await storage.createPlanUpgrade({
+    userId: client.id,
+    fromPlanId: fromTerms.planId,
+    fromPlanVersionId: fromTerms.id,
+    toPlanId: toPlan.id,
+    toPlanVersionId: toTerms.id,
+    amount: toTerms.price - fromTerms.price,
+    currency: toTerms.currency,
+    paymentReference: generatePaymentReference(),
+    status: "pending_payment",
+    requestedById: requesterId,
+  });
+}
+
+// Adds plan names, the client and the payment on file for the upgrade and history views
+export async function withUpgradeDetails(storage: IStorage, list: PlanUpgrade[]): Promise<PlanUpgradeDetails[]> {
+  const plans = await storage.getAllPlans();
+  const planName = (id: string) => plans.find(plan => plan.id === id)?.name ?? "Unknown";
+
+  return Promise.all(list.map(async (upgrade) => {
+    const client = await storage.getUserById(upgrade.userId);
+    const deposits = (await storage.getDepositsByClient(upgrade.userId)).filter(deposit => deposit.upgradeId === upgrade.id);
+    return {
+      ...upgrade,
+      fromPlanName: planName(upgrade.fromPlanId),
+      toPlanName: planName(upgrade.toPlanId),
+      client: client ? { id: client.id, name: client.name, username: client.username, email: client.email, mobile: client.mobile } : null,
+      deposit: deposits.find(deposit => deposit.status !== "rejected") || deposits[0] || null,
+    };
+  }));
+}
+
+export async function getPendingUpgrade(storage: IStorage, id: string): Promise<PlanUpgrade> {
+  const upgrade = await storage.getPlanUpgradeById(id);
+  if (!upgrade || upgrade.status !== "pending_payment") {
+    throw new Error("Upgrade not found or no longer awaiting payment");
+  }
+  return upgrade;
+}
+
+// UPI request for the price difference, tagged with the upgrade's payment reference
+export async function getUpgradePaymentRequest(storage: IStorage, id: string): Promise<UpiPaymentRequest> {
+  const upgrade = await getPendingUpgrade(storage, id);
+  if (upgrade.currency !== "INR") {
+    throw new Error("UPI payments are only available for INR plans");
+  }
+
+  const [details] = await withUpgradeDetails(storage, [upgrade]);
+  return await createUpiPaymentRequest(upgrade.amount, upgrade.paymentReference, `Upgrade to ${details.toPlanName} for ${details.client?.username}`);
+}
+
+export async function cancelUpgrade(storage: IStorage, id: string): Promise<PlanUpgrade> {
+  const upgrade = await getPendingUpgrade(storage, id);
+  const deposits = await storage.getDepositsByClient(upgrade.userId);
+  if (deposits.some(deposit => deposit.upgradeId === id && deposit.status === "pending")) {
+    throw new Error("A payment for this upgrade is still being reconciled");
+  }
+  return (await storage.cancelPlanUpgrade(id))!;
+}
+
+// Runs once the upgrade payment is confirmed: the client moves to the new plan, starting a
+// new plan period on its terms, and the extra BV and referral commission propagate up the tree
+export async function completeUpgrade(storage: IStorage, id: string): Promise<PlanUpgrade> {
+  const pending = await getPendingUpgrade(storage, id);
+  const [details] = await withUpgradeDetails(storage, [pending]);
+  const fromTerms = await storage.getPlanVersionById(pending.fromPlanVersionId);
+  const toTerms = await storage.getPlanVersionById(pending.toPlanVersionId);
+  const toPlan = await storage.getPlanById(pending.toPlanId);
+  if (!fromTerms || !toTerms || !toPlan) {
+    throw new Error("Upgrade plan not found");
+  }
+
+  const upgrade = await storage.completePlanUpgrade(id, toPlan);
+  const upgraded = await storage.getUserById(pending.userId);
+  if (!upgrade || !upgraded) {
+    throw new Error("Upgrade not found or no longer awaiting payment");
+  }
+  const client = await startPlanPeriod(storage, upgraded);
+
+  // Priced at the terms quoted when the upgrade was requested
+  await creditUpgradeCommissions(storage, client, { name: details.fromPlanName, terms: fromTerms }, { name: details.toPlanName, terms: toTerms });
+  await addUpgradeVolume(storage, client, fromTerms, toTerms);
+  return upgrade;
+}
@@ -0,0 +1,38 @@
+import { randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { type UpiPaymentRequest } from "@shared/schema";
+import { config } from "./config";
+
+// Short code carried in the UPI transaction note, e.g. "NH7F3A9C21"
+export function generatePaymentReference(): string {
+  return `NH${randomBytes(4).toString("hex").toUpperCase()}`;
+}
+
+// UPI deep link per the NPCI linking specification; amount is given in rupees with two decimals.
+// The VPA is left unescaped because some UPI apps do not decode "%40" in the payee address.
+export function buildUpiUri(amount: number, reference: string, note: string): string {
+  const params = [
+    `pa=${config.upi.payeeVpa}`,
+    `pn=${encodeURIComponent(config.upi.payeeName)}`,
+    `am=${(amount / 100).toFixed(2)}`,
+    "cu=INR",
+    `tr=${encodeURIComponent(reference)}`,
+    `tn=${encodeURIComponent(`${reference} ${note}`.slice(0, 80))}`,
+  ];
+  return `upi://pay?${params.join("&")}`;
+}
+
+export async function createUpiPaymentRequest(amount: number, reference: string, note: string): Promise<UpiPaymentRequest> {
+  if (!config.upi.payeeVpa) {
+    throw new Error("UPI payee VPA is not configured");
+  }
+
+  const uri = buildUpiUri(amount, reference, note);
+  return {
+    uri,
+    qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 256 }),
+    payeeVpa: config.upi.payeeVpa,
+    amount,
+    reference,
+  };
+}
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createPendingRegistration, activateRegistration } from "./registrations";
+import { runPairMatching, getVolumeSummary } from "./volume";
+
+test("BV climbs to client ancestors only and pair matching takes the weaker leg without paying income", async () => {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const plans = await storage.getAllPlans();
+  const planId = (name: string) => plans.find(plan => plan.name === name)!.id;
+
+  const join = async (username: string, plan: string, parentId: string, position: "left" | "right") => {
+    const pending = await createPendingRegistration(storage, admin.id, {
+      name: username,
+      username,
+      password: "member123",
+      email: `${username}@example.com`,
+      mobile: "9999999999",
+      planId: planId(plan),
+      parentId,
+      position,
+    });
+    return await activateRegistration(storage, pending.id);
+  };
+
+  const sponsor = await join("sponsor", "Silver", admin.id, "left");
+  await join("leftie", "Gold", sponsor.id, "left");
+  await join("rightie", "Silver", sponsor.id, "right");
+  assert.equal(await storage.getBusinessVolume(admin.id), null);
+
+  const earningsBefore = (await storage.getEarningsByUser(sponsor.id)).length;
+  assert.deepEqual(await runPairMatching(storage), { usersMatched: 1, volumeMatched: 100 });
+  assert.equal((await storage.getEarningsByUser(sponsor.id)).length, earningsBefore);
+
+  const summary = await getVolumeSummary(storage, sponsor.id);
+  assert.deepEqual(
+    [summary.leftVolume, summary.rightVolume, summary.leftCarryForward, summary.rightCarryForward, summary.matchedVolume],
+    [200, 100, 100, 0, 100],
+  );
+});
@@ -0,0 +1,99 @@
+import { type User, type PlanVersion } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { getUserPlanVersion } from "./plans";
+import { getPairsPaidToday } from "./caps";
+
+function planVolume(version: PlanVersion | null): number {
+  const volume = version ? parseInt(version.businessVolume, 10) : 0;
+  return Number.isFinite(volume) ? volume : 0;
+}
+
+/**
+ * Adds the BV of the client's plan to the matching leg of every client ancestor,
+ * walking up the binary tree via parentId/position. Admins at the root keep no BV.
+ */
+export async function addActivationVolume(storage: IStorage, client: User): Promise<void> {
+  await addVolumeUpTree(storage, client, planVolume(await getUserPlanVersion(storage, client)));
+}
+
+// An upgrade adds only the BV the new plan carries over the old one
+export async function addUpgradeVolume(storage: IStorage, client: User, from: PlanVersion, to: PlanVersion): Promise<void> {
+  await addVolumeUpTree(storage, client, planVolume(to) - planVolume(from));
+}
+
+async function addVolumeUpTree(storage: IStorage, client: User, volume: number): Promise<void> {
+  if (volume <= 0) {
+    return;
+  }
+
+  let child: User = client;
+  let ancestor = client.parentId ? await storage.getUserById(client.parentId) : null;
+  while (ancestor?.role === "client") {
+    if (child.position === "left" || child.position === "right") {
+      await storage.addBusinessVolume(ancestor.id, child.position, volume);
+    }
+    child = ancestor;
+    ancestor = ancestor.parentId ? await storage.getUserById(ancestor.parentId) : null;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Pairs each user's unmatched left BV against unmatched right BV. Whatever cannot
+ * be matched (the weaker leg ran out, or the daily cap was reached) stays in the
+ * carry-forward for the next run. Matching is for reporting only and credits no
+ * income: binary income is the tree commission paid per pair of members.
+ */
+export async function runPairMatching(storage: IStorage, now: Date = new Date()) {
+  let usersMatched = 0;
+  let volumeMatched = 0;
+
+  for (const volume of await storage.getAllBusinessVolumes()) {
+    let matchable = Math.min(volume.leftCarryForward, volume.rightCarryForward);
+
+    if (config.dailyMatchedVolumeCap > 0) {
+      const matchedToday = (await storage.getPairMatches(volume.userId, startOfDay(now)))
+        .reduce((sum, match) => sum + match.matchedVolume, 0);
+      matchable = Math.min(matchable, Math.max(config.dailyMatchedVolumeCap - matchedToday, 0));
+    }
+
+    if (matchable > 0) {
+      await storage.recordPairMatch(volume.userId, matchable);
+      usersMatched++;
+      volumeMatched += matchable;
+    }
+  }
+
+  return { usersMatched, volumeMatched };
+}
+
+// Volume summary exposed through /api/clients/:id/volume, with both daily limits: the BV that
+// pair matching may match and the tree commissions (pairs) the member's plan pays
+export async function getVolumeSummary(storage: IStorage, userId: string, now: Date = new Date()) {
+  const user = await storage.getUserById(userId);
+  const terms = user ? await getUserPlanVersion(storage, user) : null;
+  const volume = await storage.getBusinessVolume(userId);
+  const matches = await storage.getPairMatches(userId);
+  const todayStart = startOfDay(now);
+
+  return {
+    userId,
+    leftVolume: volume?.leftVolume ?? 0,
+    rightVolume: volume?.rightVolume ?? 0,
+    leftCarryForward: volume?.leftCarryForward ?? 0,
+    rightCarryForward: volume?.rightCarryForward ?? 0,
+    matchedVolume: matches.reduce((sum, match) => sum + match.matchedVolume, 0),
+    matchedToday: matches
+      .filter(match => new Date(match.createdAt) >= todayStart)
+      .reduce((sum, match) => sum + match.matchedVolume, 0),
+    dailyMatchedVolumeCap: config.dailyMatchedVolumeCap,
+    dailyPairCap: terms?.dailyPairCap ?? 0,
+    pairsPaidToday: await getPairsPaidToday(storage, userId, now),
+  };
+}
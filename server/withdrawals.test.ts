@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { postAdjustment } from "./ledger";
+import { getAvailableBalance, requestWithdrawal, approveWithdrawal, rejectWithdrawal, markWithdrawalPaid } from "./withdrawals";
+
+// A member with ₹2,000.00 in their wallet and a UPI payout account
+async function createFundedMember() {
+  const storage = new MemStorage();
+  const admin = await storage.createUser({ username: "root", password: "admin123", role: "admin" });
+  const member = await storage.createUser({ username: "member", password: "member123", role: "client" });
+  await postAdjustment(storage, member.id, 200000, "Opening balance");
+  const account = await storage.createPayoutAccount(member.id, { type: "upi", upiId: "member@okbank" });
+  const request = async (amount: number) => await requestWithdrawal(storage, member.id, { payoutAccountId: account.id, amount });
+  return { storage, admin, member, request };
+}
+
+test("a requested withdrawal holds its amount so it cannot be requested twice", async () => {
+  const { storage, member, request } = await createFundedMember();
+  await request(120000);
+  assert.equal(await getAvailableBalance(storage, member.id), 80000);
+  await assert.rejects(request(120000), /Insufficient wallet balance/);
+
+  const results = await Promise.allSettled([request(50000), request(50000)]);
+  assert.deepEqual(results.map(result => result.status).sort(), ["fulfilled", "rejected"]);
+  assert.equal(await getAvailableBalance(storage, member.id), 30000);
+});
+
+test("a withdrawal is paid out once and a rejected one gives its hold back", async () => {
+  const { storage, admin, member, request } = await createFundedMember();
+  const paid = await request(120000);
+  await approveWithdrawal(storage, paid.id, admin.id);
+  const results = await Promise.allSettled([
+    markWithdrawalPaid(storage, paid.id, admin.id, "UTR001"),
+    markWithdrawalPaid(storage, paid.id, admin.id, "UTR002"),
+  ]);
+  assert.deepEqual(results.map(result => result.status).sort(), ["fulfilled", "rejected"]);
+  assert.equal(await getAvailableBalance(storage, member.id), 80000);
+  await assert.rejects(rejectWithdrawal(storage, paid.id, admin.id, "Too late"), /already paid/);
+
+  const rejected = await request(60000);
+  await rejectWithdrawal(storage, rejected.id, admin.id, "Account name does not match");
+  assert.equal(await getAvailableBalance(storage, member.id), 80000);
+});
+
+test("an adjustment cannot take a wallet below zero", async () => {
+  const { storage, member } = await createFundedMember();
+  await assert.rejects(postAdjustment(storage, member.id, -200001, "Correction"), /negative balance/);
+  await postAdjustment(storage, member.id, -200000, "Correction");
+  assert.equal(await getAvailableBalance(storage, member.id), 0);
+});
@@ -0,0 +1,145 @@
+import { type Withdrawal, type WithdrawalRequest, type WithdrawalSettings, type WithdrawalDetails } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { postWithdrawalHold, releaseWithdrawalHold, postWithdrawal } from "./ledger";
+
+export function getWithdrawalSettings(): WithdrawalSettings {
+  return { ...config.withdrawals };
+}
+
+export function calculateDeductions(amount: number) {
+  const tdsAmount = Math.round(amount * config.withdrawals.tdsPercent / 100);
+  const adminFee = Math.round(amount * config.withdrawals.adminFeePercent / 100);
+  return { tdsAmount, adminFee, netAmount: amount - tdsAmount - adminFee };
+}
+
+// Wallet balance the client can still request; without holds, pending requests are subtracted here instead
+export async function getAvailableBalance(storage: IStorage, userId: string): Promise<number> {
+  const wallet = await storage.getUserWallet(userId);
+  const balance = await storage.getWalletBalance(wallet.id);
+  const unheld = (await storage.getWithdrawalsByUser(userId))
+    .filter(w => !w.held && (w.status === "pending" || w.status === "approved"))
+    .reduce((sum, w) => sum + w.amount, 0);
+  return balance - unheld;
+}
+
+export async function requestWithdrawal(storage: IStorage, userId: string, request: WithdrawalRequest): Promise<Withdrawal> {
+  const { minAmount, holdPending } = config.withdrawals;
+  if (request.amount < minAmount) {
+    throw new Error(`Minimum withdrawal amount is ₹${(minAmount / 100).toFixed(2)}`);
+  }
+
+  const payoutAccount = await storage.getPayoutAccountById(request.payoutAccountId);
+  if (!payoutAccount || payoutAccount.userId !== userId) {
+    throw new Error("Payout account not found");
+  }
+
+  const deductions = calculateDeductions(request.amount);
+  if (deductions.netAmount <= 0) {
+    throw new Error("Amount does not cover the withdrawal deductions");
+  }
+
+  // The balance is checked and the request (and its hold) written under the wallet lock
+  return await storage.transaction(async (tx) => {
+    await tx.lockUserWallet(userId);
+    if (request.amount > await getAvailableBalance(tx, userId)) {
+      throw new Error("Insufficient wallet balance");
+    }
+
+    const withdrawal = await tx.createWithdrawal({
+      userId,
+      payoutAccountId: payoutAccount.id,
+      amount: request.amount,
+      ...deductions,
+      held: holdPending,
+      status: "pending",
+    });
+
+    if (holdPending) {
+      await postWithdrawalHold(tx, withdrawal);
+    }
+    return withdrawal;
+  });
+}
+
+async function getWithdrawalInStatus(storage: IStorage, id: string, allowed: string[]): Promise<Withdrawal> {
+  const withdrawal = await storage.getWithdrawalById(id);
+  if (!withdrawal) {
+    throw new Error("Withdrawal not found");
+  }
+  if (!allowed.includes(withdrawal.status)) {
+    throw new Error(`Withdrawal is already ${withdrawal.status}`);
+  }
+  return withdrawal;
+}
+
+export async function approveWithdrawal(storage: IStorage, id: string, adminId: string): Promise<Withdrawal> {
+  await getWithdrawalInStatus(storage, id, ["pending"]);
+  const approved = await storage.updateWithdrawal(id, {
+    status: "approved",
+    reviewedById: adminId,
+    reviewedAt: new Date(),
+  }, ["pending"]);
+  if (!approved) {
+    throw new Error("Withdrawal has already been reviewed");
+  }
+  return approved;
+}
+
+export async function rejectWithdrawal(storage: IStorage, id: string, adminId: string, reason: string): Promise<Withdrawal> {
+  await getWithdrawalInStatus(storage, id, ["pending", "approved"]);
+  return await storage.transaction(async (tx) => {
+    const rejected = await tx.updateWithdrawal(id, {
+      status: "rejected",
+      rejectionReason: reason,
+      reviewedById: adminId,
+      reviewedAt: new Date(),
+    }, ["pending", "approved"]);
+    if (!rejected) {
+      throw new Error("Withdrawal has already been paid or rejected");
+    }
+
+    if (rejected.held) {
+      await releaseWithdrawalHold(tx, rejected);
+    }
+    return rejected;
+  });
+}
+
+// Only the call that moves the withdrawal out of approved posts the payout
+export async function markWithdrawalPaid(storage: IStorage, id: string, adminId: string, paymentReference: string): Promise<Withdrawal> {
+  const withdrawal = await getWithdrawalInStatus(storage, id, ["approved"]);
+
+  return await storage.transaction(async (tx) => {
+    if (!withdrawal.held) {
+      const wallet = await tx.lockUserWallet(withdrawal.userId);
+      if (withdrawal.amount > await tx.getWalletBalance(wallet.id)) {
+        throw new Error("Insufficient wallet balance");
+      }
+    }
+
+    const paid = await tx.updateWithdrawal(id, {
+      status: "paid",
+      paymentReference,
+      reviewedById: withdrawal.reviewedById || adminId,
+      paidAt: new Date(),
+    }, ["approved"]);
+    if (!paid) {
+      throw new Error("Withdrawal is no longer approved");
+    }
+    await postWithdrawal(tx, paid);
+    return paid;
+  });
+}
+
+// Adds the requesting user and payout destination for the admin queue
+export async function withDetails(storage: IStorage, list: Withdrawal[]): Promise<WithdrawalDetails[]> {
+  return Promise.all(list.map(async (withdrawal) => {
+    const user = await storage.getUserById(withdrawal.userId);
+    return {
+      ...withdrawal,
+      user: user ? { id: user.id, name: user.name, username: user.username } : null,
+      payoutAccount: await storage.getPayoutAccountById(withdrawal.payoutAccountId),
+    };
+  }));
+}
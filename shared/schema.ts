@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, boolean, json, jsonb, unique, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,17 +11,32 @@ export const users = pgTable("users", {
   email: text("email"), // Email for clients
   mobile: text("mobile"), // Mobile number for clients
   role: text("role").notNull().default("client"), // "admin" | "client"
-  package: text("package"), // "Silver" | "Gold" | "Diamond" (nullable for admins)
+  adminRole: text("admin_role"), // See adminRoles; null for clients
+  planId: varchar("plan_id").references((): AnyPgColumn => plans.id), // Plan bought (null for admins)
+  package: text("package"), // Name of the plan, kept for display (null for admins)
+  planVersionId: varchar("plan_version_id").references((): AnyPgColumn => planVersions.id), // Terms the client bought
   parentId: varchar("parent_id"), // For binary tree structure
   position: text("position"), // "left" | "right" (position under parent)
+  status: text("status").notNull().default("active"), // "active" | "pending_payment" | "expired" (plan lapsed; still in the tree) | "disabled" (admins only)
+  planExpiresAt: timestamp("plan_expires_at"), // End of the current plan period; null for plans without a validity period
+  paymentReference: text("payment_reference").unique(), // Sent in the UPI request so the payment can be matched to the registration
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // Consecutive failed logins since the last success or unlock
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"), // Logins are refused until then; admins can unlock early
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Password was chosen by someone else; cleared when the user changes it
+  sessionVersion: integer("session_version").notNull().default(0), // Bumped when the password changes, which signs out sessions started before
+  mobileVerifiedAt: timestamp("mobile_verified_at"), // Set once the user enters a code sent to their mobile
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [uniqueIndex("users_parent_position_unique").on(table.parentId, table.position)]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   role: true,
+  adminRole: true,
+  planId: true,
   package: true,
+  planVersionId: true,
   parentId: true,
   position: true,
 });
@@ -32,6 +47,138 @@ export const loginSchema = z.object({
   role: z.enum(["admin", "client"]),
 });
 
+// What each admin role may do. Everything an admin sees or changes is checked against these on the
+// server; the dashboard only hides what the role cannot use.
+export const adminRoles = ["super_admin", "finance", "support", "viewer"] as const;
+export const adminPermissions = [
+  "dashboard.view", // Totals on the dashboard
+  "clients.view", // Client lists, details and statements, including contact details
+  "clients.manage", // Register clients, take payments for them, unlock accounts and reset passwords
+  "plans.view",
+  "plans.manage", // Plans and coupons
+  "finance.view", // Deposits and withdrawals
+  "finance.manage", // Approve deposits and withdrawals, ledger adjustments, pair matching
+  "admins.manage", // Admin accounts and their roles
+] as const;
+export const adminRolePermissions: Record<AdminRole, readonly AdminPermission[]> = {
+  super_admin: adminPermissions,
+  finance: ["dashboard.view", "clients.view", "plans.view", "finance.view", "finance.manage"],
+  support: ["dashboard.view", "clients.view", "plans.view"],
+  viewer: ["dashboard.view", "plans.view", "finance.view"],
+};
+
+export function hasAdminPermission(adminRole: string | null | undefined, permission: AdminPermission): boolean {
+  return (adminRoles as readonly (string | null | undefined)[]).includes(adminRole) && adminRolePermissions[adminRole as AdminRole].includes(permission);
+}
+
+// New admins get a temporary password, shown once, like a reset
+export const createAdminSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name must be less than 50 characters"),
+  username: z.string().min(3, "Username must be at least 3 characters").max(20, "Username must be less than 20 characters").regex(/^[a-zA-Z0-9_]+$/, "Username can only contain letters, numbers, and underscores"),
+  email: z.string().email("Please enter a valid email address"),
+  adminRole: z.enum(adminRoles),
+});
+
+export const updateAdminSchema = z.object({
+  adminRole: z.enum(adminRoles).optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters").max(50, "Password must be less than 50 characters"),
+});
+
+// Audit trail of refused logins; failures from an IP address within a window also drive its throttling
+export const loginFailureReasons = ["invalid_credentials", "invalid_second_factor", "throttled", "locked"] as const;
+export const loginAttempts = pgTable("login_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull(), // As typed; may not match any account
+  userId: varchar("user_id"), // Account the username belongs to, if any
+  ip: text("ip").notNull(),
+  reason: text("reason").notNull(), // See loginFailureReasons
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("login_attempts_ip_created_at_idx").on(table.ip, table.createdAt)]);
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts, {
+  reason: () => z.enum(loginFailureReasons),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// One-time codes sent by SMS or email. Only the newest code per user and purpose can be used;
+// the code itself is stored hashed.
+export const otpLength = 6;
+export const otpPurposes = ["password_reset", "mobile_verification"] as const;
+export const otpChannels = ["sms", "email"] as const;
+export const otpCodes = pgTable("otp_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // See otpPurposes
+  channel: text("channel").notNull(), // See otpChannels
+  destination: text("destination").notNull(), // Mobile number or email address the code was sent to
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0), // Wrong codes entered; the code is void at OTP_MAX_ATTEMPTS
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("otp_codes_user_purpose_idx").on(table.userId, table.purpose)]);
+
+export const insertOtpCodeSchema = createInsertSchema(otpCodes, {
+  purpose: () => z.enum(otpPurposes),
+  channel: () => z.enum(otpChannels),
+}).omit({
+  id: true,
+  attempts: true,
+  consumedAt: true,
+  createdAt: true,
+});
+
+const otpCodeField = z.string().regex(new RegExp(`^[0-9]{${otpLength}}$`), `Enter the ${otpLength}-digit code`);
+
+export const forgotPasswordRequestSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+});
+
+export const otpPasswordResetSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  code: otpCodeField,
+  newPassword: z.string().min(6, "Password must be at least 6 characters").max(50, "Password must be less than 50 characters"),
+});
+
+// Admins act for any client; clients verify their own number
+export const mobileVerificationRequestSchema = z.object({
+  clientId: z.string().optional(),
+});
+
+export const verifyMobileSchema = mobileVerificationRequestSchema.extend({
+  code: otpCodeField,
+});
+
+// Admin authenticator apps (TOTP, RFC 6238). Kept out of users so the secret never travels with
+// user records; a row without enabledAt is an enrollment waiting for its first code.
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, as shown to the authenticator app
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so a code works only once
+  backupCodeHashes: jsonb("backup_code_hashes").$type<string[]>().notNull().default([]), // SHA-256 of the unused backup codes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// An authenticator code, or one of the backup codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+// Login sessions, read and written by connect-pg-simple in the layout it expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
 // Enhanced schema for client creation with validation
 export const createClientSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(50, "Name must be less than 50 characters"),
@@ -39,47 +186,580 @@ export const createClientSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters").max(50, "Password must be less than 50 characters"),
   mobile: z.string().regex(/^[0-9]{10}$/, "Mobile number must be exactly 10 digits"),
   email: z.string().email("Please enter a valid email address"),
-  package: z.enum(["Silver", "Gold", "Diamond"], { required_error: "Please select a plan" }),
+  planId: z.string({ required_error: "Please select a plan" }).min(1, "Please select a plan"),
   parentId: z.string().optional().nullable(),
-  position: z.enum(["left", "right"]).optional().nullable()
+  position: z.enum(["left", "right"]).optional().nullable(),
+  couponCode: z.string().trim().max(30).optional(), // Registrations only
 });
 
-export const paymentConfirmationSchema = z.object({
-  clientData: createClientSchema,
-  paymentConfirmed: z.boolean()
+// Level income paid up the sponsor chain when a member activates: entry 0 is level 1 (the sponsor),
+// entry 1 is level 2 (the sponsor's sponsor), and so on. Percentages are of the price the member
+// paid; fixed amounts are in minor units.
+export const maxIncomeLevels = 20;
+export const levelIncomeRuleSchema = z.object({
+  type: z.enum(["percent", "fixed"]),
+  value: z.number().nonnegative("Level income cannot be negative"),
+}).superRefine((rule, ctx) => {
+  if (rule.type === "percent" && rule.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "A level cannot pay more than 100%" });
+  }
+  if (rule.type === "fixed" && !Number.isInteger(rule.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Fixed amounts must be whole minor units" });
+  }
 });
+export const levelIncomeSchema = z.array(levelIncomeRuleSchema)
+  .max(maxIncomeLevels, `At most ${maxIncomeLevels} levels are supported`)
+  .refine(
+    rules => rules.reduce((total, rule) => total + (rule.type === "percent" ? rule.value : 0), 0) <= 100,
+    "Level percentages cannot add up to more than 100%",
+  );
 
 // Plans table schema
 export const plans = pgTable("plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  price: text("price").notNull(), // Stored as text to handle currency formatting
+  price: integer("price").notNull(), // In minor units of the currency (paise for INR)
+  currency: text("currency").notNull().default("INR"), // ISO 4217 code
   businessVolume: text("business_volume").notNull(),
-  referralCommission: text("referral_commission").notNull(),
-  treeCommission: text("tree_commission").notNull(),
-  status: text("status").notNull().default("active"), // "active" | "disabled"
+  referralCommission: integer("referral_commission").notNull(), // In minor units
+  treeCommission: integer("tree_commission").notNull(), // In minor units
+  levelIncome: jsonb("level_income").$type<LevelIncomeRule[]>().notNull().default([]), // See levelIncomeSchema
+  // Earnings caps, 0 = no cap
+  dailyPairCap: integer("daily_pair_cap").notNull().default(0), // Tree commissions paid per day for newly completed pairs; BV matching has its own cap
+  weeklyIncomeCap: integer("weekly_income_cap").notNull().default(0), // In minor units, Monday to Sunday
+  monthlyIncomeCap: integer("monthly_income_cap").notNull().default(0), // In minor units, calendar month
+  lifetimeCapMultiple: real("lifetime_cap_multiple").notNull().default(0), // Lifetime income as a multiple of the price
+  capOverflow: text("cap_overflow").notNull().default("flush"), // See capOverflowModes
+  validityDays: integer("validity_days").notNull().default(0), // Length of a plan period; 0 = lifetime
+  status: text("status").notNull().default("active"), // See planStatuses
+  currentVersionId: varchar("current_version_id"), // Version new sign-ups buy; mirrors the terms above
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertPlanSchema = createInsertSchema(plans).omit({
+// Immutable snapshot of a plan's commercial terms. Editing a plan adds a version instead
+// of changing the one existing members bought.
+export const planVersions = pgTable("plan_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => plans.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  price: integer("price").notNull(),
+  currency: text("currency").notNull(),
+  businessVolume: text("business_volume").notNull(),
+  referralCommission: integer("referral_commission").notNull(),
+  treeCommission: integer("tree_commission").notNull(),
+  levelIncome: jsonb("level_income").$type<LevelIncomeRule[]>().notNull().default([]),
+  dailyPairCap: integer("daily_pair_cap").notNull().default(0),
+  weeklyIncomeCap: integer("weekly_income_cap").notNull().default(0),
+  monthlyIncomeCap: integer("monthly_income_cap").notNull().default(0),
+  lifetimeCapMultiple: real("lifetime_cap_multiple").notNull().default(0),
+  capOverflow: text("cap_overflow").notNull().default("flush"),
+  validityDays: integer("validity_days").notNull().default(0),
+  effectiveFrom: timestamp("effective_from").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.planId, table.version)]);
+
+// What happens to income above a cap: dropped, or held and paid once the period has room again.
+// Income above the lifetime cap is always dropped.
+export const capOverflowModes = ["flush", "carry_forward"] as const;
+
+// Disabled plans are paused for sale; archived plans are retired but stay valid for the members on them
+export const planStatuses = ["active", "disabled", "archived"] as const;
+
+// Fields of a plan that are versioned; name and status can change without a new version
+export const planTermFields = [
+  "price", "currency", "businessVolume", "referralCommission", "treeCommission", "levelIncome",
+  "dailyPairCap", "weeklyIncomeCap", "monthlyIncomeCap", "lifetimeCapMultiple", "capOverflow", "validityDays",
+] as const;
+
+// Whether an edit changed any versioned term
+export function planTermsChanged(before: Plan, after: Plan): boolean {
+  const term = (plan: Plan, field: typeof planTermFields[number]) =>
+    field === "levelIncome" ? plan.levelIncome.map(rule => `${rule.type}:${rule.value}`).join() : plan[field];
+  return planTermFields.some(field => term(before, field) !== term(after, field));
+}
+
+export const insertPlanSchema = createInsertSchema(plans, {
+  price: (schema) => schema.nonnegative("Price cannot be negative"),
+  currency: (schema) => schema.regex(/^[A-Z]{3}$/, "Use a 3-letter currency code such as INR"),
+  referralCommission: (schema) => schema.nonnegative("Commission cannot be negative"),
+  treeCommission: (schema) => schema.nonnegative("Commission cannot be negative"),
+  levelIncome: () => levelIncomeSchema.optional(),
+  dailyPairCap: (schema) => schema.int().nonnegative("Cap cannot be negative").optional(),
+  weeklyIncomeCap: (schema) => schema.int().nonnegative("Cap cannot be negative").optional(),
+  monthlyIncomeCap: (schema) => schema.int().nonnegative("Cap cannot be negative").optional(),
+  lifetimeCapMultiple: (schema) => schema.nonnegative("Cap cannot be negative").optional(),
+  capOverflow: () => z.enum(capOverflowModes).optional(),
+  validityDays: (schema) => schema.int().nonnegative("Validity cannot be negative").optional(),
+  status: () => z.enum(planStatuses).optional(),
+}).omit({
   id: true,
+  currentVersionId: true,
   createdAt: true,
 });
 
 export const updatePlanSchema = insertPlanSchema.partial();
 
-// Plan pricing information (keeping for backward compatibility)
-export const planPricing = {
-  Silver: 510,
-  Gold: 1010,
-  Diamond: 1510
-} as const;
+// Commission credits produced when a client is activated
+export const earnings = pgTable("earnings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Client receiving the commission
+  sourceUserId: varchar("source_user_id"), // Client whose activation produced the credit
+  type: text("type").notNull(), // "referral" | "tree" | "level"
+  amount: integer("amount").notNull(), // In paise
+  description: text("description"),
+  planVersionId: varchar("plan_version_id"), // Plan terms the amount was calculated from
+  cappedAmount: integer("capped_amount").notNull().default(0), // Withheld by the recipient's earnings caps; amount is what was paid
+  carriedForward: integer("carried_forward").notNull().default(0), // Part of cappedAmount still waiting to be released
+  capReason: text("cap_reason"), // See capReasons
+  releasedFromId: varchar("released_from_id"), // Set on credits that pay out carried-forward income
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const capReasons = ["daily_pair_cap", "weekly_cap", "monthly_cap", "lifetime_cap"] as const;
+
+export const insertEarningSchema = createInsertSchema(earnings).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Binary business volume (BV) per user, one row each
+export const businessVolumes = pgTable("business_volumes", {
+  userId: varchar("user_id").primaryKey(),
+  leftVolume: integer("left_volume").notNull().default(0), // Lifetime BV added to the left leg
+  rightVolume: integer("right_volume").notNull().default(0), // Lifetime BV added to the right leg
+  leftCarryForward: integer("left_carry_forward").notNull().default(0), // Left BV not yet matched
+  rightCarryForward: integer("right_carry_forward").notNull().default(0), // Right BV not yet matched
+  leftMembers: integer("left_members").notNull().default(0), // Activated members in the left leg, for tree commission pairs
+  rightMembers: integer("right_members").notNull().default(0), // Activated members in the right leg
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Each pairing of left vs. right BV made by the matching job
+export const pairMatches = pgTable("pair_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  matchedVolume: integer("matched_volume").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ledger accounts: one wallet per user plus system accounts identified by code
+export const wallets = pgTable("wallets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").unique(), // Set for user wallets
+  code: text("code").unique(), // Set for system wallets, see systemWalletCodes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Double-entry ledger: the entries of one transaction always sum to zero
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  walletId: varchar("wallet_id").notNull(),
+  amount: integer("amount").notNull(), // In paise; positive credits the wallet, negative debits it
+  type: text("type").notNull(), // "commission" | "withdrawal" | "adjustment" | "fee"
+  description: text("description"),
+  referenceId: varchar("reference_id"), // Earning, withdrawal... that caused the transaction
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({
+  id: true,
+  transactionId: true,
+  createdAt: true,
+});
+
+export const systemWalletCodes = ["commissions", "payouts", "fees", "adjustments", "tds", "withdrawal_holds"] as const;
+
+export const ledgerAdjustmentSchema = z.object({
+  amount: z.number().int("Amount must be in paise").refine(amount => amount !== 0, "Amount cannot be zero"),
+  description: z.string().min(3, "Please describe the adjustment").max(200),
+});
+
+// Saved destinations a client can withdraw to
+export const payoutAccounts = pgTable("payout_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").notNull(), // "upi" | "bank"
+  upiId: text("upi_id"),
+  accountHolder: text("account_holder"),
+  accountNumber: text("account_number"),
+  ifsc: text("ifsc"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPayoutAccountSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("upi"),
+    upiId: z.string().regex(/^[a-zA-Z0-9._-]{2,256}@[a-zA-Z]{2,64}$/, "Please enter a valid UPI ID"),
+  }),
+  z.object({
+    type: z.literal("bank"),
+    accountHolder: z.string().min(2, "Account holder name is required").max(100),
+    accountNumber: z.string().regex(/^[0-9]{9,18}$/, "Account number must be 9 to 18 digits"),
+    ifsc: z.string().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, "Please enter a valid IFSC code"),
+  }),
+]);
+
+// Payout requests; amount is what leaves the wallet, netAmount what the client receives
+export const withdrawals = pgTable("withdrawals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  payoutAccountId: varchar("payout_account_id").notNull(),
+  amount: integer("amount").notNull(), // In paise
+  tdsAmount: integer("tds_amount").notNull().default(0), // In paise
+  adminFee: integer("admin_fee").notNull().default(0), // In paise
+  netAmount: integer("net_amount").notNull(), // In paise
+  held: boolean("held").notNull().default(false), // Amount moved to the withdrawal hold account on request
+  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected" | "paid"
+  rejectionReason: text("rejection_reason"),
+  paymentReference: text("payment_reference"),
+  reviewedById: varchar("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWithdrawalSchema = createInsertSchema(withdrawals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const withdrawalRequestSchema = z.object({
+  amount: z.number().int("Amount must be in paise").positive("Amount must be positive"),
+  payoutAccountId: z.string().min(1, "Please choose a payout account"),
+});
+
+export const rejectWithdrawalSchema = z.object({
+  reason: z.string().min(3, "Please give a reason").max(200),
+});
+
+export const markWithdrawalPaidSchema = z.object({
+  paymentReference: z.string().min(3, "Payment reference is required").max(100),
+});
+
+// UPI payments received for plan purchases; a client is only activated against an approved deposit
+export const deposits = pgTable("deposits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  amount: integer("amount").notNull(), // In paise
+  plan: text("plan").notNull(),
+  upiTransactionRef: text("upi_transaction_ref").notNull().unique(),
+  payerName: text("payer_name").notNull(),
+  payerVpa: text("payer_vpa"),
+  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected"
+  rejectionReason: text("rejection_reason"),
+  clientId: varchar("client_id"), // Pending client the payment is for
+  upgradeId: varchar("upgrade_id"), // Set when the payment is for a plan upgrade of an active client
+  renewalId: varchar("renewal_id"), // Set when the payment renews a member's plan
+  recordedById: varchar("recorded_by_id").notNull(),
+  reviewedById: varchar("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertDepositSchema = createInsertSchema(deposits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const recordDepositSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  upgradeId: z.string().min(1).optional(),
+  renewalId: z.string().min(1).optional(),
+  amount: z.number().int("Amount must be in paise").positive("Amount must be positive"),
+  upiTransactionRef: z.string().trim().min(6, "UPI transaction reference is required").max(50),
+  payerName: z.string().trim().min(2, "Payer name is required").max(100),
+  payerVpa: z.string().trim().max(100).optional(),
+});
+
+export const rejectDepositSchema = z.object({
+  reason: z.string().min(3, "Please give a reason").max(200),
+});
+
+// Move of an active client to a higher plan; the client pays only the price difference.
+// Completed rows form the client's package history.
+export const planUpgrades = pgTable("plan_upgrades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  fromPlanId: varchar("from_plan_id").notNull().references(() => plans.id),
+  toPlanId: varchar("to_plan_id").notNull().references(() => plans.id),
+  fromPlanVersionId: varchar("from_plan_version_id").notNull().references(() => planVersions.id),
+  toPlanVersionId: varchar("to_plan_version_id").notNull().references(() => planVersions.id), // Terms the client moves to
+  amount: integer("amount").notNull(), // Price difference in minor units
+  currency: text("currency").notNull(),
+  paymentReference: text("payment_reference").notNull().unique(),
+  status: text("status").notNull().default("pending_payment"), // "pending_payment" | "completed" | "cancelled"
+  requestedById: varchar("requested_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertPlanUpgradeSchema = createInsertSchema(planUpgrades).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const planUpgradeRequestSchema = z.object({
+  clientId: z.string().min(1).optional(), // Admins name the client; members upgrade themselves
+  toPlanId: z.string({ required_error: "Please select a plan" }).min(1, "Please select a plan"),
+});
+
+// Payment that extends a member's plan by another validity period of the terms they hold;
+// completing it reactivates a member whose plan had lapsed
+export const planRenewals = pgTable("plan_renewals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  planId: varchar("plan_id").notNull().references(() => plans.id),
+  planVersionId: varchar("plan_version_id").notNull().references(() => planVersions.id), // Terms renewed; their price and validity apply
+  amount: integer("amount").notNull(), // In minor units
+  currency: text("currency").notNull(),
+  paymentReference: text("payment_reference").notNull().unique(),
+  status: text("status").notNull().default("pending_payment"), // "pending_payment" | "completed" | "cancelled"
+  requestedById: varchar("requested_by_id").notNull(),
+  renewedUntil: timestamp("renewed_until"), // Plan expiry set when the renewal completed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertPlanRenewalSchema = createInsertSchema(planRenewals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const planRenewalRequestSchema = z.object({
+  clientId: z.string().min(1).optional(), // Admins name the client; members renew themselves
+});
+
+// Moves every member of a plan onto another plan's current terms
+export const migratePlanMembersSchema = z.object({
+  toPlanId: z.string({ required_error: "Please select a plan" }).min(1, "Please select a plan"),
+});
+
+// Joining offers: a code that takes a percentage or a flat amount off a plan's price
+export const coupons = pgTable("coupons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // Upper-case
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // See couponDiscountTypes
+  discountValue: integer("discount_value").notNull(), // Percentage, or minor units for a flat discount
+  currency: text("currency").notNull().default("INR"), // Currency of a flat discount
+  planIds: jsonb("plan_ids").$type<string[]>().notNull().default([]), // Plans it applies to; empty = all plans
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxUses: integer("max_uses").notNull().default(0), // 0 = unlimited
+  commissionBasis: text("commission_basis").notNull().default("list"), // See commissionBases
+  status: text("status").notNull().default("active"), // "active" | "disabled"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const couponDiscountTypes = ["percent", "flat"] as const;
+
+// Price the registration's commissions are calculated on: the plan's list price or the discounted price paid
+export const commissionBases = ["list", "net"] as const;
+
+export const insertCouponSchema = createInsertSchema(coupons, {
+  code: () => z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,30}$/, "Use 3 to 30 letters, numbers, dashes or underscores"),
+  discountType: () => z.enum(couponDiscountTypes),
+  discountValue: (schema) => schema.int().positive("Discount must be positive"),
+  currency: (schema) => schema.regex(/^[A-Z]{3}$/, "Use a 3-letter currency code such as INR").optional(),
+  planIds: () => z.array(z.string()).optional(),
+  validFrom: () => z.coerce.date().nullable().optional(),
+  validUntil: () => z.coerce.date().nullable().optional(),
+  maxUses: (schema) => schema.int().nonnegative("Usage limit cannot be negative").optional(),
+  commissionBasis: () => z.enum(commissionBases).optional(),
+  status: () => z.enum(["active", "disabled"]).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateCouponSchema = insertCouponSchema.partial();
+
+// A coupon used on a registration, with the price it produced; removed if the registration expires
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  couponId: varchar("coupon_id").notNull().references(() => coupons.id),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  code: text("code").notNull(),
+  listPrice: integer("list_price").notNull(), // In minor units
+  discount: integer("discount").notNull(), // In minor units
+  amount: integer("amount").notNull(), // Price to pay in minor units
+  currency: text("currency").notNull(),
+  commissionBasis: text("commission_basis").notNull(), // Copied from the coupon when it was applied
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const couponQuoteRequestSchema = z.object({
+  code: z.string().trim().min(1, "Enter a coupon code").max(30),
+  planId: z.string({ required_error: "Please select a plan" }).min(1, "Please select a plan"),
+});
+
+export const applyCouponSchema = couponQuoteRequestSchema.pick({ code: true });
 
 export type CreateClientRequest = z.infer<typeof createClientSchema>;
-export type PaymentConfirmationRequest = z.infer<typeof paymentConfirmationSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type LoginRequest = z.infer<typeof loginSchema>;
+export type AdminRole = typeof adminRoles[number];
+export type AdminPermission = typeof adminPermissions[number];
+export type CreateAdminRequest = z.infer<typeof createAdminSchema>;
+export type UpdateAdminRequest = z.infer<typeof updateAdminSchema>;
+// An admin account as listed for super-admins
+export type AdminAccount = Omit<User, "password"> & { twoFactorEnabled: boolean };
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+// Shown to the admin once; the user must replace it at their next login
+export type PasswordReset = { user: Omit<User, "password">; temporaryPassword: string };
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type LoginFailureReason = typeof loginFailureReasons[number];
+export type OtpCode = typeof otpCodes.$inferSelect;
+export type InsertOtpCode = z.infer<typeof insertOtpCodeSchema>;
+export type OtpPurpose = typeof otpPurposes[number];
+export type OtpChannel = typeof otpChannels[number];
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordRequestSchema>;
+export type OtpPasswordResetRequest = z.infer<typeof otpPasswordResetSchema>;
+export type VerifyMobileRequest = z.infer<typeof verifyMobileSchema>;
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean; // ADMIN_2FA_REQUIRED: admins cannot use the dashboard until they enroll
+  backupCodesLeft: number;
+};
+// Shown once when enrolling; the secret is for typing into apps that cannot scan the QR code
+export type TwoFactorEnrollment = { secret: string; uri: string; qrCode: string };
+export type TwoFactorBackupCodes = { backupCodes: string[] };
+// Where a code went, masked, and when it stops working
+export type OtpIssued = { channel: OtpChannel; destination: string; expiresAt: string };
+// An account whose logins are currently refused, for the Manage Users page
+export type LockedAccount = Pick<User, "id" | "name" | "username" | "role" | "failedLoginCount"> & {
+  lockedUntil: string;
+  lastFailedLoginAt: string | null;
+  lastIp: string | null; // Where the most recent refused attempt came from
+};
 export type Plan = typeof plans.$inferSelect;
 export type InsertPlan = z.infer<typeof insertPlanSchema>;
 export type UpdatePlan = z.infer<typeof updatePlanSchema>;
+export type LevelIncomeRule = z.infer<typeof levelIncomeRuleSchema>;
+// A plan as shown to members and prospective clients
+export type CatalogPlan = Pick<Plan, "id" | "name" | "price" | "currency" | "businessVolume" | "referralCommission" | "treeCommission" | "levelIncome" | "validityDays">;
+export type PlanVersion = typeof planVersions.$inferSelect;
+export type Earning = typeof earnings.$inferSelect;
+export type InsertEarning = z.infer<typeof insertEarningSchema>;
+export type BusinessVolume = typeof businessVolumes.$inferSelect;
+export type PairMatch = typeof pairMatches.$inferSelect;
+export type Wallet = typeof wallets.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type SystemWalletCode = typeof systemWalletCodes[number];
+export type LedgerAdjustmentRequest = z.infer<typeof ledgerAdjustmentSchema>;
+export type PayoutAccount = typeof payoutAccounts.$inferSelect;
+export type InsertPayoutAccount = z.infer<typeof insertPayoutAccountSchema>;
+export type Withdrawal = typeof withdrawals.$inferSelect;
+export type InsertWithdrawal = z.infer<typeof insertWithdrawalSchema>;
+export type WithdrawalRequest = z.infer<typeof withdrawalRequestSchema>;
+export type WithdrawalDetails = Withdrawal & {
+  user: Pick<User, "id" | "name" | "username"> | null;
+  payoutAccount: PayoutAccount | null;
+};
+export type Deposit = typeof deposits.$inferSelect;
+export type InsertDeposit = z.infer<typeof insertDepositSchema>;
+export type RecordDepositRequest = z.infer<typeof recordDepositSchema>;
+export type DepositDetails = Deposit & {
+  client: Pick<User, "id" | "name" | "username" | "status" | "paymentReference"> | null;
+};
+export type PlanUpgrade = typeof planUpgrades.$inferSelect;
+export type InsertPlanUpgrade = z.infer<typeof insertPlanUpgradeSchema>;
+export type PlanUpgradeRequest = z.infer<typeof planUpgradeRequestSchema>;
+export type PlanRenewal = typeof planRenewals.$inferSelect;
+export type InsertPlanRenewal = z.infer<typeof insertPlanRenewalSchema>;
+export type PlanRenewalRequest = z.infer<typeof planRenewalRequestSchema>;
+export type PlanRenewalDetails = PlanRenewal & {
+  planName: string;
+  client: Pick<User, "id" | "name" | "username" | "email" | "mobile"> | null;
+  deposit: Deposit | null; // The payment currently on file, if any
+};
+// Where a member's plan period stands, for the dashboards
+export type MembershipStatus = {
+  status: string;
+  planExpiresAt: string | null; // Null when the plan does not expire
+  daysLeft: number | null; // Whole days until expiry; 0 or less once lapsed
+  expiringSoon: boolean; // Expires within warningDays, or already has
+  warningDays: number;
+  renewable: boolean; // The member's terms have a validity period
+};
+export type ExpiringMember = Pick<User, "id" | "name" | "username" | "package" | "status"> & {
+  planExpiresAt: string;
+  daysLeft: number;
+};
+export type MigratePlanMembersRequest = z.infer<typeof migratePlanMembersSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type UpdateCoupon = z.infer<typeof updateCouponSchema>;
+export type CouponDetails = Coupon & {
+  uses: number; // Registrations, paid or pending, that used it
+};
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+export type CouponQuoteRequest = z.infer<typeof couponQuoteRequestSchema>;
+export type CouponQuote = Pick<CouponRedemption, "code" | "listPrice" | "discount" | "amount" | "currency" | "commissionBasis"> & {
+  description: string | null;
+};
+export type PlanUpgradeDetails = PlanUpgrade & {
+  fromPlanName: string;
+  toPlanName: string;
+  client: Pick<User, "id" | "name" | "username" | "email" | "mobile"> | null;
+  deposit: Deposit | null; // The payment currently on file, if any
+};
+export type UpgradeOption = {
+  planId: string;
+  name: string;
+  amount: number; // Price difference in minor units
+  currency: string;
+};
+export type UpiPaymentRequest = {
+  uri: string;
+  qrCode: string; // PNG data URL
+  payeeVpa: string;
+  amount: number; // In paise
+  reference: string;
+};
+export type PlanMemberCount = {
+  planId: string;
+  name: string;
+  count: number;
+};
+export type ClientStats = {
+  total: number;
+  byPlan: PlanMemberCount[]; // One entry per plan, including plans without members
+};
+export type ClientRegistration = {
+  client: Omit<User, "password">;
+  amount: number; // Price to pay in minor units, after any coupon
+  listPrice: number; // Plan price in minor units
+  currency: string;
+  coupon: CouponRedemption | null;
+  deposit: Deposit | null;
+  expiresAt: string | null; // Only while the client is pending payment
+};
+export type WithdrawalSettings = {
+  minAmount: number;
+  tdsPercent: number;
+  adminFeePercent: number;
+  holdPending: boolean;
+};
+export type WalletStatement = {
+  walletId: string;
+  userId: string;
+  balance: number;
+  entries: LedgerEntry[];
+  capped: {
+    total: number; // Everything ever withheld by caps
+    carriedForward: number; // Still waiting to be released
+    earnings: Earning[]; // Credits that were capped, newest first
+  };
+};
+export type CapReason = typeof capReasons[number];